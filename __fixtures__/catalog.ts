@@ -0,0 +1,24 @@
+// Catalog fixtures shared by the tests in __tests__
+
+import type { Product } from '@/lib/catalog';
+
+/**
+ * An in-stock $100 Sony wireless audio product with the given fields replaced.
+ * Kept outside __tests__ so Jest does not collect it as a test file.
+ */
+export const product = (id: string, overrides: Partial<Product> = {}): Product => ({
+  id,
+  name: `Product ${id}`,
+  category: 'Electronics',
+  subcategory: 'Audio',
+  price: 100,
+  originalPrice: 100,
+  description: 'Wireless audio device',
+  image: `/images/${id}.jpg`,
+  ratings: { average: 4.5, count: 100 },
+  features: ['Bluetooth'],
+  inStock: true,
+  tags: ['audio'],
+  brand: 'Sony',
+  ...overrides
+});
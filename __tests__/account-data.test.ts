@@ -0,0 +1,46 @@
+import { describe, it, expect } from '@jest/globals';
+import { countRecords, toCsv, type UserDataExport } from '@/lib/account-data';
+
+const data: UserDataExport = {
+  userId: 'user-1',
+  exportedAt: '2025-06-01T00:00:00.000Z',
+  user_interactions: [
+    { id: 'i1', product_id: '1', interaction_type: 'like', metadata: { category: 'Books' } }
+  ],
+  user_preferences: [
+    { id: 'p1', preferred_brands: ['Acme, Inc.'] }
+  ],
+  product_recommendations: [],
+  recommendation_serves: [],
+  recommendation_impressions: [],
+  bandit_serves: [],
+  user_consent: []
+};
+
+describe('toCsv', () => {
+  it('should tag rows with their table and use the union of columns', () => {
+    const [header, interaction, preference] = toCsv(data).trim().split('\r\n');
+
+    expect(header).toBe('table,id,product_id,interaction_type,metadata,preferred_brands');
+    expect(interaction).toBe('user_interactions,i1,1,like,"{""category"":""Books""}",');
+    expect(preference).toBe('user_preferences,p1,,,,"[""Acme, Inc.""]"');
+  });
+
+  it('should emit only a header for an empty export', () => {
+    expect(toCsv({ ...data, user_interactions: [], user_preferences: [] })).toBe('table\r\n');
+  });
+});
+
+describe('countRecords', () => {
+  it('should count rows per table', () => {
+    expect(countRecords(data)).toEqual({
+      user_interactions: 1,
+      user_preferences: 1,
+      product_recommendations: 0,
+      recommendation_serves: 0,
+      recommendation_impressions: 0,
+      bandit_serves: 0,
+      user_consent: 0
+    });
+  });
+});
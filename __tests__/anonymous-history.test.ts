@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals';
+import { mergePreferences, sanitizePreferences } from '@/lib/anonymous-history';
+
+describe('sanitizePreferences', () => {
+  it('should keep only well-formed fields', () => {
+    expect(sanitizePreferences({
+      preferredCategories: ['Books', 3],
+      preferredBrands: ['Sony'],
+      priceRange: [500, 100],
+      preferredFeatures: 'wireless',
+      userId: 'someone-else'
+    })).toEqual({ preferredBrands: ['Sony'] });
+
+    expect(sanitizePreferences(null)).toEqual({});
+  });
+});
+
+describe('mergePreferences', () => {
+  it('should append anonymous values after the account ones without duplicates', () => {
+    const merged = mergePreferences(
+      {
+        preferred_categories: ['Electronics'],
+        preferred_brands: null,
+        price_range_min: 50,
+        price_range_max: 400,
+        preferred_features: ['Bluetooth']
+      },
+      {
+        preferredCategories: ['Books', 'Electronics'],
+        preferredBrands: ['Penguin'],
+        priceRange: [0, 100],
+        preferredFeatures: ['Bluetooth', 'Hardcover']
+      }
+    );
+
+    expect(merged).toEqual({
+      preferred_categories: ['Electronics', 'Books'],
+      preferred_brands: ['Penguin'],
+      preferred_features: ['Bluetooth', 'Hardcover'],
+      price_range_min: 50,
+      price_range_max: 400
+    });
+  });
+
+  it('should use the anonymous price range for a new account', () => {
+    const merged = mergePreferences(null, { priceRange: [20, 80] });
+
+    expect(merged.price_range_min).toBe(20);
+    expect(merged.price_range_max).toBe(80);
+  });
+});
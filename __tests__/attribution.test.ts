@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals';
+import { computePositionReport, formatPositionReport } from '@/lib/attribution';
+
+const since = new Date('2025-06-01T00:00:00Z');
+
+describe('computePositionReport', () => {
+  it('should order positions by list type and slot', () => {
+    const report = computePositionReport([
+      { recommendationType: 'trending', slot: 1, impressions: 10, clicks: 1, cartAdds: 0 },
+      { recommendationType: 'personalized', slot: 2, impressions: 100, clicks: 5, cartAdds: 1 },
+      { recommendationType: 'personalized', slot: 1, impressions: 100, clicks: 20, cartAdds: 4 }
+    ], since);
+
+    expect(report.positions.map(p => `${p.recommendationType}:${p.slot}`)).toEqual([
+      'personalized:1',
+      'personalized:2',
+      'trending:1'
+    ]);
+  });
+
+  it('should compute CTR and conversion with intervals', () => {
+    const [position] = computePositionReport([
+      { recommendationType: 'personalized', slot: 1, impressions: 100, clicks: 10, cartAdds: 2 }
+    ], since).positions;
+
+    expect(position.ctr.rate).toBeCloseTo(0.1);
+    expect(position.ctr.low).toBeLessThan(0.1);
+    expect(position.ctr.high).toBeGreaterThan(0.1);
+    expect(position.conversionRate.rate).toBeCloseTo(0.02);
+  });
+
+  it('should report zero rates for slots without impressions', () => {
+    const [position] = computePositionReport([
+      { recommendationType: 'similar', slot: 3, impressions: 0, clicks: 0, cartAdds: 0 }
+    ], since).positions;
+
+    expect(position.ctr).toEqual({ rate: 0, low: 0, high: 0 });
+  });
+});
+
+describe('formatPositionReport', () => {
+  it('should render one row per position under a header', () => {
+    const lines = formatPositionReport(computePositionReport([
+      { recommendationType: 'personalized', slot: 1, impressions: 100, clicks: 10, cartAdds: 2 }
+    ], since)).split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatch(/^type\s+slot\s+impressions/);
+    expect(lines[1]).toContain('10.00%');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from '@jest/globals';
+import { blendSources, sampleWeights, segmentOf, uniformWeights, type BlendWeights } from '@/lib/bandit';
+import type { Recommendation } from '@/lib/recommendation-schema';
+
+function recs(...ids: string[]): Recommendation[] {
+  return ids.map(productId => ({ productId, score: 0.5, reason: 'test', category: 'personalized' }));
+}
+
+// Deterministic uniform source (mulberry32)
+function seeded(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const sum = (weights: BlendWeights) => Object.values(weights).reduce((total, weight) => total + weight, 0);
+
+describe('segmentOf', () => {
+  it('should treat short histories as new shoppers', () => {
+    expect(segmentOf([{ interactionType: 'purchase' }])).toBe('new');
+  });
+
+  it('should split returning shoppers on cart adds and purchases', () => {
+    const views = Array.from({ length: 5 }, () => ({ interactionType: 'view' }));
+    expect(segmentOf(views)).toBe('browsing');
+    expect(segmentOf([...views, { interactionType: 'cart_add' }])).toBe('buying');
+  });
+});
+
+describe('sampleWeights', () => {
+  const arms = [
+    { source: 'content' as const, trials: 1000, rewards: 300 },
+    { source: 'collaborative' as const, trials: 1000, rewards: 20 },
+    { source: 'trending' as const, trials: 1000, rewards: 20 },
+    { source: 'similar' as const, trials: 1000, rewards: 20 }
+  ];
+
+  it('should return shares that sum to 1', () => {
+    expect(sum(sampleWeights([], { algorithm: 'thompson', exploration: 1 }, seeded(1)))).toBeCloseTo(1);
+    expect(sum(sampleWeights(arms, { algorithm: 'ucb', exploration: 1 }))).toBeCloseTo(1);
+  });
+
+  it('should favour the source with the best reward rate under UCB', () => {
+    const weights = sampleWeights(arms, { algorithm: 'ucb', exploration: 1 });
+    expect(weights.content).toBeGreaterThan(weights.collaborative);
+    expect(weights.collaborative).toBeCloseTo(weights.trending);
+  });
+
+  it('should give untried sources an exploration bonus under UCB', () => {
+    const weights = sampleWeights(arms.slice(1), { algorithm: 'ucb', exploration: 1 });
+    expect(weights.content).toBeGreaterThan(weights.collaborative);
+  });
+
+  it('should exploit deterministically without exploration', () => {
+    const config = { algorithm: 'thompson' as const, exploration: 0 };
+    expect(sampleWeights(arms, config, seeded(1))).toEqual(sampleWeights(arms, config, seeded(2)));
+  });
+
+  it('should be reproducible with a seeded random source', () => {
+    const config = { algorithm: 'thompson' as const, exploration: 1 };
+    expect(sampleWeights(arms, config, seeded(7))).toEqual(sampleWeights(arms, config, seeded(7)));
+  });
+
+  it('should give the rewarded source the largest share on average under Thompson sampling', () => {
+    const random = seeded(42);
+    const config = { algorithm: 'thompson' as const, exploration: 1 };
+    let content = 0;
+    let similar = 0;
+    for (let i = 0; i < 200; i++) {
+      const weights = sampleWeights(arms, config, random);
+      content += weights.content;
+      similar += weights.similar;
+    }
+    expect(content).toBeGreaterThan(similar * 3);
+  });
+});
+
+describe('blendSources', () => {
+  it('should fill slots in proportion to the weights', () => {
+    const blended = blendSources(
+      { content: recs('1', '2', '3', '4'), trending: recs('5', '6', '7', '8') },
+      { content: 0.75, collaborative: 0, trending: 0.25, similar: 0 },
+      4
+    );
+
+    expect(blended.map(rec => rec.category)).toEqual(['content', 'content', 'trending', 'content']);
+  });
+
+  it('should skip products another source already placed', () => {
+    const blended = blendSources(
+      { content: recs('1', '2'), similar: recs('1', '3') },
+      uniformWeights(),
+      4
+    );
+
+    expect(blended.map(rec => rec.productId)).toEqual(['1', '3', '2']);
+  });
+
+  it('should fall back to the remaining sources when one runs out', () => {
+    const blended = blendSources(
+      { content: recs('1'), collaborative: recs('2', '3', '4') },
+      { content: 0.9, collaborative: 0.1, trending: 0, similar: 0 },
+      3
+    );
+
+    expect(blended.map(rec => rec.productId)).toEqual(['1', '2', '3']);
+  });
+});
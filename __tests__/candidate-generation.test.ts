@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import { CandidateGenerator } from '@/lib/candidate-generation';
+import { fitToTokenBudget, estimateTokens } from '@/lib/token-budget';
+import { product } from '@/__fixtures__/catalog';
+
+// A catalog far larger than any prompt should inline
+const catalog = Array.from({ length: 1000 }, (_, i) => product(String(i), {
+  category: i % 2 === 0 ? 'Electronics' : 'Books',
+  price: 10 + (i % 50) * 10,
+  ratings: { average: 3 + (i % 3), count: i }
+}));
+
+const profile = {
+  preferredCategories: ['Books'],
+  preferredBrands: [],
+  priceRange: [0, 100] as [number, number],
+  preferredFeatures: [],
+  interactionHistory: [{ productId: '1', interactionType: 'like' }]
+};
+
+describe('CandidateGenerator', () => {
+  it('should cap the user shortlist regardless of catalog size', () => {
+    const candidates = new CandidateGenerator(catalog).forUser(profile, 25);
+
+    expect(candidates).toHaveLength(25);
+    expect(new Set(candidates.map(p => p.id)).size).toBe(25);
+    expect(candidates.map(p => p.id)).not.toContain('1');
+  });
+
+  it('should mix category and price fit into the user shortlist', () => {
+    const candidates = new CandidateGenerator(catalog).forUser(profile, 20);
+
+    expect(candidates.some(p => p.category === 'Books' && p.price <= 120)).toBe(true);
+  });
+
+  it('should lead the trending shortlist with active products', () => {
+    const candidates = new CandidateGenerator(catalog).forTrending([
+      { productId: '500', score: 3, interactions: 4 },
+      { productId: '7', score: 9, interactions: 12 }
+    ], 10);
+
+    expect(candidates[0].id).toBe('7');
+    expect(candidates.map(p => p.id)).toContain('500');
+    expect(candidates).toHaveLength(10);
+  });
+
+  it('should exclude the target product from its own shortlist', () => {
+    const candidates = new CandidateGenerator(catalog).forProduct(catalog[0], 15);
+
+    expect(candidates).toHaveLength(15);
+    expect(candidates.map(p => p.id)).not.toContain('0');
+  });
+});
+
+describe('fitToTokenBudget', () => {
+  it('should keep items in order until the budget is spent', () => {
+    const items = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)];
+    const result = fitToTokenBudget(items, item => item, 25);
+
+    expect(result.items).toEqual(items.slice(0, 2));
+    expect(result.dropped).toBe(1);
+    expect(result.tokens).toBeLessThanOrEqual(25);
+  });
+
+  it('should estimate about four characters per token', () => {
+    expect(estimateTokens('12345678')).toBe(2);
+    expect(estimateTokens('123456789')).toBe(3);
+  });
+});
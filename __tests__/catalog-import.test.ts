@@ -0,0 +1,83 @@
+import { describe, it, expect } from '@jest/globals';
+import { importFeed } from '@/lib/catalog-import';
+import { createCatalog } from '@/lib/catalog';
+
+const feedRow = (overrides: Record<string, unknown> = {}) => ({
+  product_id: 1,
+  product_name: 'Travel Pillow',
+  category: 'Travel',
+  subcategory: 'Travel Accessories',
+  price: 40,
+  quantity_in_stock: 12,
+  manufacturer: 'Dabtype',
+  description: 'Memory foam neck pillow',
+  rating: 4.2,
+  is_featured: false,
+  is_on_sale: false,
+  sale_price: 30,
+  image_url: 'http://dummyimage.com/100x100.png',
+  ...overrides
+});
+
+describe('Feed importer', () => {
+  it('should map feed fields onto the Product model', () => {
+    const { products, rejected } = importFeed([feedRow()]);
+
+    expect(rejected).toHaveLength(0);
+    expect(products[0]).toMatchObject({
+      id: '1',
+      name: 'Travel Pillow',
+      brand: 'Dabtype',
+      price: 40,
+      originalPrice: 40,
+      inStock: true,
+      ratings: { average: 4.2, count: 0 }
+    });
+  });
+
+  it('should import review counts when the feed has them', () => {
+    const { products, rejected } = importFeed([
+      feedRow({ review_count: 120 }),
+      feedRow({ product_id: 2, review_count: -1 })
+    ]);
+
+    expect(products[0].ratings).toEqual({ average: 4.2, count: 120 });
+    expect(rejected.map(r => r.productId)).toEqual(['2']);
+  });
+
+  it('should turn an active sale into price and originalPrice', () => {
+    const { products } = importFeed([feedRow({ is_on_sale: true, sale_price: 30 })]);
+
+    expect(products[0].price).toBe(30);
+    expect(products[0].originalPrice).toBe(40);
+    expect(products[0].tags).toContain('sale');
+  });
+
+  it('should ignore sale prices that are not a discount', () => {
+    const { products, warnings } = importFeed([feedRow({ is_on_sale: true, sale_price: 55 })]);
+
+    expect(products[0].price).toBe(40);
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('should report rejected rows', () => {
+    const { products, rejected } = importFeed([
+      feedRow(),
+      feedRow({ product_id: 2, price: -5 }),
+      feedRow({ product_id: 3, product_name: '' }),
+      feedRow()
+    ]);
+
+    expect(products).toHaveLength(1);
+    expect(rejected.map(r => r.productId)).toEqual(['2', '3', '1']);
+  });
+
+  it('should produce products the catalog accepts', () => {
+    const { products } = importFeed([feedRow({ quantity_in_stock: 0 })]);
+    const catalog = createCatalog(products);
+
+    expect(catalog.get('1')?.inStock).toBe(false);
+    expect(catalog.inCategory('Travel')).toHaveLength(1);
+    expect(catalog.fromBrand('Dabtype')).toHaveLength(1);
+  });
+});
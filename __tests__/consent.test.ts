@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import { isIdentifiedEvent, minimizeEvent, readConsent } from '@/lib/consent';
+import type { InteractionEventInput } from '@/lib/events';
+
+const cookies = (value?: string) => ({
+  get: (name: string) => (name === 'tracking_consent' && value !== undefined ? { value } : undefined)
+});
+
+const event: InteractionEventInput = {
+  eventId: '6f1c2a52-3d4b-4a8e-9f10-2b3c4d5e6f70',
+  productId: '1',
+  interactionType: 'not_interested',
+  sessionId: 'session-1',
+  metadata: { category: 'Books', reason: 'brand', searchQuery: 'novels', price: 20 }
+};
+
+describe('readConsent', () => {
+  it('should return null until a valid choice is stored', () => {
+    expect(readConsent(cookies())).toBeNull();
+    expect(readConsent(cookies('everything'))).toBeNull();
+    expect(readConsent(cookies('essential'))).toBe('essential');
+  });
+});
+
+describe('isIdentifiedEvent', () => {
+  it('should only count events without consent', () => {
+    expect(isIdentifiedEvent(event, null)).toBe(false);
+    expect(isIdentifiedEvent(event, 'none')).toBe(false);
+  });
+
+  it('should keep deliberate actions but not views under essential consent', () => {
+    expect(isIdentifiedEvent(event, 'essential')).toBe(true);
+    expect(isIdentifiedEvent({ interactionType: 'view' }, 'essential')).toBe(false);
+    expect(isIdentifiedEvent({ interactionType: 'view' }, 'personalization')).toBe(true);
+  });
+});
+
+describe('minimizeEvent', () => {
+  it('should strip browsing details without personalization consent', () => {
+    expect(minimizeEvent(event, 'essential')).toEqual({
+      ...event,
+      sessionId: undefined,
+      metadata: { category: 'Books', reason: 'brand' }
+    });
+  });
+
+  it('should keep events unchanged with personalization consent', () => {
+    expect(minimizeEvent(event, 'personalization')).toBe(event);
+  });
+});
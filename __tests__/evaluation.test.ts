@@ -0,0 +1,138 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  averagePrecisionAtK,
+  evaluateStrategies,
+  intraListDiversity,
+  ndcgAtK,
+  novelty,
+  parseInteractionLog,
+  precisionAtK,
+  recallAtK,
+  splitByTime,
+  type LoggedInteraction
+} from '@/lib/evaluation';
+import { product } from '@/__fixtures__/catalog';
+
+const interaction = (userId: string, productId: string, interactionType: string, hour: number): LoggedInteraction => ({
+  userId,
+  productId,
+  interactionType: interactionType as LoggedInteraction['interactionType'],
+  timestamp: new Date(Date.UTC(2025, 5, 1, hour))
+});
+
+describe('ranking metrics', () => {
+  const relevant = new Set(['a', 'c']);
+
+  it('should compute precision and recall at k', () => {
+    expect(precisionAtK(['a', 'b', 'c', 'd'], relevant, 4)).toBe(0.5);
+    expect(recallAtK(['a', 'b'], relevant, 2)).toBe(0.5);
+    expect(recallAtK(['a'], new Set(), 1)).toBe(0);
+  });
+
+  it('should reward relevant products ranked first in average precision', () => {
+    expect(averagePrecisionAtK(['a', 'c', 'b'], relevant, 3)).toBe(1);
+    expect(averagePrecisionAtK(['b', 'a', 'c'], relevant, 3)).toBeCloseTo((1 / 2 + 2 / 3) / 2);
+  });
+
+  it('should score the ideal order with an NDCG of 1', () => {
+    const gains = new Map([['a', 10], ['c', 1]]);
+
+    expect(ndcgAtK(['a', 'c'], gains, 2)).toBe(1);
+    expect(ndcgAtK(['c', 'a'], gains, 2)).toBeLessThan(1);
+    expect(ndcgAtK(['b'], gains, 1)).toBe(0);
+  });
+});
+
+describe('list metrics', () => {
+  it('should measure diversity from category and subcategory distance', () => {
+    const headphones = product('1');
+    const speaker = product('2', { subcategory: 'Speakers' });
+    const book = product('3', { category: 'Books', subcategory: 'Fiction' });
+
+    expect(intraListDiversity([headphones, product('4')])).toBe(0);
+    expect(intraListDiversity([headphones, speaker])).toBe(0.5);
+    expect(intraListDiversity([headphones, speaker, book])).toBeCloseTo((0.5 + 1 + 1) / 3);
+  });
+
+  it('should find unpopular products more novel', () => {
+    const userCounts = new Map([['popular', 9], ['niche', 1]]);
+
+    expect(novelty(['niche'], userCounts, 9)).toBeGreaterThan(novelty(['popular'], userCounts, 9));
+  });
+});
+
+describe('parseInteractionLog', () => {
+  it('should read user_interactions rows, preferring the event time', () => {
+    const log = parseInteractionLog([
+      '{"user_id":"u1","product_id":"1","interaction_type":"view","timestamp":"2025-06-01T10:00:00Z","created_at":"2025-06-01T10:05:00Z"}',
+      '',
+      '{"user_id":"u1","product_id":"2","interaction_type":"like","created_at":"2025-06-01T11:00:00Z"}'
+    ].join('\n'));
+
+    expect(log).toHaveLength(2);
+    expect(log[0].timestamp.toISOString()).toBe('2025-06-01T10:00:00.000Z');
+    expect(log[1].interactionType).toBe('like');
+  });
+
+  it('should fall back to the anonymous ID of signed-out and simulated shoppers', () => {
+    const [row] = parseInteractionLog(
+      '{"user_id":null,"anonymous_id":"sim-browser-1","product_id":"1","interaction_type":"view","timestamp":"2025-06-01T10:00:00Z"}'
+    );
+
+    expect(row.userId).toBe('sim-browser-1');
+  });
+
+  it('should report the line of an invalid row', () => {
+    expect(() => parseInteractionLog('{"user_id":"u1","product_id":"1","interaction_type":"hover","timestamp":"2025-06-01"}'))
+      .toThrow('Line 1: unknown interaction_type "hover"');
+  });
+});
+
+describe('splitByTime', () => {
+  it('should hold out the most recent interactions of each user', () => {
+    const events = [5, 1, 4, 2, 3].map(hour => interaction('u1', `p${hour}`, 'view', hour));
+    const split = splitByTime(events, { testFraction: 0.4, minTrainInteractions: 2 });
+
+    expect(split.train.map(e => e.productId)).toEqual(['p1', 'p2', 'p3']);
+    expect(split.test.get('u1')!.map(e => e.productId)).toEqual(['p4', 'p5']);
+  });
+
+  it('should keep users with short histories for training only', () => {
+    const split = splitByTime([interaction('u1', 'p1', 'view', 1), interaction('u1', 'p2', 'view', 2)]);
+
+    expect(split.test.size).toBe(0);
+    expect(split.train).toHaveLength(2);
+  });
+});
+
+describe('evaluateStrategies', () => {
+  const products = ['1', '2', '3', '4'].map(id => product(id));
+  const split = {
+    train: [interaction('u1', '1', 'view', 1), interaction('u2', '2', 'purchase', 1)],
+    test: new Map([['u1', [interaction('u1', '2', 'purchase', 2), interaction('u1', '1', 'like', 2)]]])
+  };
+
+  it('should score what each strategy recommends against new held-out products', async () => {
+    const [report] = await evaluateStrategies(
+      [{ name: 'fixed', recommend: async () => ['2', '3'] }],
+      split,
+      products,
+      { k: 2 }
+    );
+
+    expect(report).toMatchObject({ strategy: 'fixed', users: 1, precision: 0.5, recall: 1, map: 1, coverage: 0.5 });
+    expect(report.ndcg).toBe(1);
+  });
+
+  it('should count a throwing strategy as a failure with zero scores', async () => {
+    const [report] = await evaluateStrategies(
+      [{ name: 'broken', recommend: async () => { throw new Error('unavailable'); } }],
+      split,
+      products,
+      { k: 2 }
+    );
+
+    expect(report.failures).toBe(1);
+    expect(report.precision).toBe(0);
+  });
+});
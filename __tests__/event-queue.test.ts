@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { EventQueue } from '@/lib/event-queue';
+import { ANONYMOUS_OWNER, type EventStore, type OutboxEvent } from '@/lib/event-outbox';
+
+// In-memory stand-in for the IndexedDB outbox
+class MemoryStore implements EventStore {
+  events = new Map<string, OutboxEvent>();
+
+  async put(events: OutboxEvent[]) {
+    events.forEach(event => this.events.set(event.eventId, event));
+  }
+
+  async remove(eventIds: string[]) {
+    eventIds.forEach(id => this.events.delete(id));
+  }
+
+  async all() {
+    return Array.from(this.events.values());
+  }
+}
+
+const respond = (status: number, body: unknown = { accepted: 1, duplicates: 0, rejected: [] }) =>
+  Promise.resolve(new Response(JSON.stringify(body), { status }));
+
+const USER_ID = '11111111-1111-4111-8111-111111111111';
+
+const storedEvent = (eventId: string, owner?: string): OutboxEvent => ({
+  eventId,
+  productId: '1',
+  interactionType: 'view',
+  occurredAt: new Date().toISOString(),
+  owner
+});
+
+const sentBatches = (fetchMock: jest.Mock) =>
+  fetchMock.mock.calls.map(call => JSON.parse((call[1] as RequestInit).body as string).events as OutboxEvent[]);
+
+describe('EventQueue', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  it('should flush once the batch size is reached and clear the outbox', async () => {
+    fetchMock.mockImplementation(() => respond(200));
+    const store = new MemoryStore();
+    const queue = new EventQueue({ maxBatchSize: 2, flushIntervalMs: 60000 }, store);
+    await queue.setOwner(USER_ID);
+
+    queue.enqueue({ productId: '1', interactionType: 'view' });
+    queue.enqueue({ productId: '2', interactionType: 'like' });
+    await queue.flush();
+
+    const [batch] = sentBatches(fetchMock);
+    expect(batch.map(event => event.productId)).toEqual(['1', '2']);
+    expect(batch.every(event => /^[0-9a-f-]{36}$/.test(event.eventId))).toBe(true);
+    expect(batch.every(event => event.owner === undefined)).toBe(true);
+    expect(store.events.size).toBe(0);
+  });
+
+  it('should keep events in the outbox after a failure and replay them with the same IDs', async () => {
+    fetchMock.mockImplementationOnce(() => Promise.reject(new TypeError('offline')));
+    const store = new MemoryStore();
+    const queue = new EventQueue({ flushIntervalMs: 60000 }, store);
+    await queue.setOwner(USER_ID);
+
+    queue.enqueue({ productId: '1', interactionType: 'cart_add' });
+    await queue.flush();
+    expect(store.events.size).toBe(1);
+
+    // A fresh page load replays what the previous one stranded
+    fetchMock.mockImplementation(() => respond(200));
+    const nextPage = new EventQueue({ flushIntervalMs: 60000 }, store);
+    await nextPage.setOwner(USER_ID);
+
+    const batches = sentBatches(fetchMock);
+    expect(batches[1][0].eventId).toBe(batches[0][0].eventId);
+    expect(store.events.size).toBe(0);
+
+    // Settle the first page's pending retry so no timer outlives the test
+    await queue.flush();
+  });
+
+  it('should hold events while signed out', async () => {
+    fetchMock.mockImplementation(() => respond(401, { error: 'Not authenticated' }));
+    const store = new MemoryStore();
+    const queue = new EventQueue({ flushIntervalMs: 60000 }, store);
+    await queue.setOwner(ANONYMOUS_OWNER);
+
+    queue.enqueue({ productId: '1', interactionType: 'like' });
+    await queue.flush();
+
+    expect(queue.size).toBe(0);
+    expect(store.events.size).toBe(1);
+  });
+
+  it('should discard stored events older than the server accepts', async () => {
+    fetchMock.mockImplementation(() => respond(200));
+    const store = new MemoryStore();
+    await store.put([{
+      eventId: '00000000-0000-4000-8000-000000000000',
+      productId: '1',
+      interactionType: 'view',
+      occurredAt: '2000-01-01T00:00:00Z'
+    }]);
+
+    await new EventQueue({}, store).replay();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(store.events.size).toBe(0);
+  });
+
+  it('should hold events until the session is known and record them for it', async () => {
+    fetchMock.mockImplementation(() => respond(200));
+    const store = new MemoryStore();
+    const queue = new EventQueue({ flushIntervalMs: 60000 }, store);
+
+    queue.enqueue({ productId: '1', interactionType: 'view' });
+    await queue.flush();
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await queue.setOwner(USER_ID);
+
+    expect(sentBatches(fetchMock)[0].map(event => event.productId)).toEqual(['1']);
+    expect(store.events.size).toBe(0);
+  });
+
+  it('should only send the signed-in user\'s and signed-out events, keeping the rest for their owners', async () => {
+    fetchMock.mockImplementation(() => respond(200));
+    const store = new MemoryStore();
+    await store.put([
+      storedEvent('00000000-0000-4000-8000-000000000001', USER_ID),
+      storedEvent('00000000-0000-4000-8000-000000000002', '22222222-2222-4222-8222-222222222222'),
+      storedEvent('00000000-0000-4000-8000-000000000003', ANONYMOUS_OWNER),
+      storedEvent('00000000-0000-4000-8000-000000000004')
+    ]);
+
+    await new EventQueue({}, store).setOwner(USER_ID);
+
+    expect(sentBatches(fetchMock)[0].map(event => event.eventId)).toEqual([
+      '00000000-0000-4000-8000-000000000001',
+      '00000000-0000-4000-8000-000000000003'
+    ]);
+    expect(Array.from(store.events.keys())).toEqual([
+      '00000000-0000-4000-8000-000000000002',
+      '00000000-0000-4000-8000-000000000004'
+    ]);
+  });
+
+  it('should take a signed-out user\'s queued events out of the queue but keep them stored', async () => {
+    fetchMock.mockImplementation(() => respond(401, { error: 'Not authenticated' }));
+    const store = new MemoryStore();
+    const queue = new EventQueue({ flushIntervalMs: 60000 }, store);
+    await queue.setOwner(USER_ID);
+    queue.enqueue({ productId: '1', interactionType: 'like' });
+
+    await queue.setOwner(ANONYMOUS_OWNER);
+    await queue.flush();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(queue.size).toBe(0);
+    expect(Array.from(store.events.values())[0].owner).toBe(USER_ID);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from '@jest/globals';
+import { MAX_EVENTS_PER_BATCH, resolveEventTime, validateEventBatch } from '@/lib/events';
+
+const known = new Set(['1', '2']);
+const isKnownProduct = (id: string) => known.has(id);
+
+describe('validateEventBatch', () => {
+  it('should keep valid events and report invalid ones by index', () => {
+    const result = validateEventBatch({
+      events: [
+        { productId: '1', interactionType: 'view' },
+        { productId: '999', interactionType: 'like' },
+        { productId: '2', interactionType: 'share' },
+        { productId: '2', interactionType: 'cart_add', metadata: { price: 10 } }
+      ]
+    }, isKnownProduct);
+
+    expect(result?.events.map(e => e.productId)).toEqual(['1', '2']);
+    expect(result?.rejected.map(r => r.index)).toEqual([1, 2]);
+    expect(result?.rejected[0].errors[0]).toContain('unknown product');
+  });
+
+  it('should refuse bodies that are not batches or are too large', () => {
+    expect(validateEventBatch([], isKnownProduct)).toBeNull();
+    expect(validateEventBatch({ events: 'nope' }, isKnownProduct)).toBeNull();
+    expect(validateEventBatch({
+      events: Array.from({ length: MAX_EVENTS_PER_BATCH + 1 }, () => ({ productId: '1', interactionType: 'view' }))
+    }, isKnownProduct)).toBeNull();
+  });
+
+  it('should reject oversized metadata', () => {
+    const result = validateEventBatch({
+      events: [{ productId: '1', interactionType: 'view', metadata: { searchQuery: 'x'.repeat(5000) } }]
+    }, isKnownProduct);
+
+    expect(result?.events).toHaveLength(0);
+  });
+
+  it('should require the list and slot on impressions', () => {
+    const requestId = '0f8fad5b-d9cb-469f-a165-70867728950e';
+    const result = validateEventBatch({
+      events: [
+        { productId: '1', interactionType: 'impression', metadata: { requestId, slot: 1, recommendationType: 'trending' } },
+        { productId: '1', interactionType: 'impression', metadata: { requestId: 'abc', slot: 0 } },
+        { productId: '2', interactionType: 'impression' }
+      ]
+    }, isKnownProduct);
+
+    expect(result?.events).toHaveLength(1);
+    expect(result?.rejected.map(r => r.index)).toEqual([1, 2]);
+    expect(result?.rejected[0].errors).toEqual([
+      'impression metadata.requestId must be a UUID',
+      'impression metadata.slot must be a positive integer',
+      'impression metadata.recommendationType must be one of personalized, trending, similar'
+    ]);
+  });
+});
+
+describe('resolveEventTime', () => {
+  const receivedAt = new Date('2025-01-02T12:00:00Z');
+
+  it('should trust recent client timestamps', () => {
+    expect(resolveEventTime('2025-01-02T11:59:00Z', receivedAt).toISOString()).toBe('2025-01-02T11:59:00.000Z');
+  });
+
+  it('should fall back to the receive time for implausible timestamps', () => {
+    expect(resolveEventTime('2024-01-01T00:00:00Z', receivedAt)).toEqual(receivedAt);
+    expect(resolveEventTime('2025-01-03T12:00:00Z', receivedAt)).toEqual(receivedAt);
+    expect(resolveEventTime(undefined, receivedAt)).toEqual(receivedAt);
+  });
+});
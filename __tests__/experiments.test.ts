@@ -0,0 +1,156 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  assignVariant,
+  bucket,
+  computeExperimentReport,
+  differenceInterval,
+  getAssignment,
+  stampExperiment,
+  validateExperiments,
+  wilsonInterval,
+  type Experiment
+} from '@/lib/experiments';
+
+const experiment = (id: string, overrides: Partial<Experiment> = {}): Experiment => ({
+  id,
+  description: 'Strategy test',
+  status: 'running',
+  variants: [
+    { name: 'control', weight: 50, strategy: 'llm' },
+    { name: 'treatment', weight: 50, strategy: 'hybrid_llm' }
+  ],
+  ...overrides
+});
+
+const unitIds = Array.from({ length: 2000 }, (_, i) => `user-${i}`);
+
+describe('validateExperiments', () => {
+  it('should reject malformed experiments and keep the rest', () => {
+    const { experiments, errors } = validateExperiments([
+      experiment('a'),
+      { id: 'b', description: '', status: 'paused', variants: [{ name: 'only', weight: 1 }] },
+      experiment('c', { variants: [{ name: 'x', weight: 0 }, { name: 'x', weight: 1, strategy: 'magic' as never }] })
+    ]);
+
+    expect(experiments.map(e => e.id)).toEqual(['a']);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('status must be one of');
+    expect(errors[1]).toContain('weight must be a positive number');
+    expect(errors[1]).toContain('duplicate name "x"');
+    expect(errors[1]).toContain('strategy must be one of');
+  });
+
+  it('should reject a second running experiment', () => {
+    const { experiments, errors } = validateExperiments([
+      experiment('a'),
+      experiment('b'),
+      experiment('c', { status: 'draft' })
+    ]);
+
+    expect(experiments.map(e => e.id)).toEqual(['a', 'c']);
+    expect(errors).toEqual(['experiment[1]: "b" overlaps another running experiment']);
+  });
+});
+
+describe('assignVariant', () => {
+  it('should give the same ID the same variant every time', () => {
+    const first = unitIds.map(id => assignVariant(experiment('a'), id).name);
+    const second = unitIds.map(id => assignVariant(experiment('a'), id).name);
+
+    expect(second).toEqual(first);
+  });
+
+  it('should split traffic in proportion to the weights', () => {
+    const skewed = experiment('a', {
+      variants: [{ name: 'control', weight: 90 }, { name: 'treatment', weight: 10 }]
+    });
+    const treated = unitIds.filter(id => assignVariant(skewed, id).name === 'treatment').length;
+
+    expect(treated / unitIds.length).toBeGreaterThan(0.06);
+    expect(treated / unitIds.length).toBeLessThan(0.14);
+  });
+
+  it('should bucket independently per experiment', () => {
+    const moved = unitIds.filter(id => (bucket('a', id) < 0.5) !== (bucket('b', id) < 0.5)).length;
+
+    expect(moved / unitIds.length).toBeGreaterThan(0.4);
+    expect(moved / unitIds.length).toBeLessThan(0.6);
+  });
+});
+
+describe('getAssignment', () => {
+  it('should return null when no experiment is running', () => {
+    expect(getAssignment('user-1', [experiment('a', { status: 'completed' })])).toBeNull();
+  });
+
+  it('should include the variant settings', () => {
+    const assignment = getAssignment('user-1', [experiment('a')]);
+
+    expect(assignment?.experimentId).toBe('a');
+    expect(assignment?.settings.name).toBe(assignment?.variant);
+  });
+});
+
+describe('stampExperiment', () => {
+  it('should replace client-sent assignments with the server one', () => {
+    const metadata = { referrer: 'recommendations', experimentId: 'forged', variant: 'treatment' };
+
+    expect(stampExperiment(metadata, { experimentId: 'a', variant: 'control' })).toEqual({
+      referrer: 'recommendations',
+      experimentId: 'a',
+      variant: 'control'
+    });
+    expect(stampExperiment(metadata, null)).toEqual({ referrer: 'recommendations' });
+    expect(stampExperiment(undefined, null)).toEqual({});
+  });
+});
+
+describe('wilsonInterval', () => {
+  it('should bracket the observed rate within [0, 1]', () => {
+    const estimate = wilsonInterval(10, 100);
+
+    expect(estimate.rate).toBeCloseTo(0.1);
+    expect(estimate.low).toBeCloseTo(0.0552, 3);
+    expect(estimate.high).toBeCloseTo(0.1744, 3);
+    expect(wilsonInterval(0, 20).low).toBe(0);
+    expect(wilsonInterval(0, 0)).toEqual({ rate: 0, low: 0, high: 0 });
+  });
+
+  it('should narrow as trials grow', () => {
+    const small = wilsonInterval(10, 100);
+    const large = wilsonInterval(1000, 10000);
+
+    expect(large.high - large.low).toBeLessThan(small.high - small.low);
+  });
+});
+
+describe('differenceInterval', () => {
+  it('should center on the difference in rates', () => {
+    const lift = differenceInterval(150, 1000, 100, 1000);
+
+    expect(lift.rate).toBeCloseTo(0.05);
+    expect(lift.low).toBeGreaterThan(0);
+    expect(lift.high).toBeGreaterThan(lift.rate);
+  });
+});
+
+describe('computeExperimentReport', () => {
+  it('should compare every variant with the control', () => {
+    const report = computeExperimentReport(experiment('a'), [
+      { variant: 'treatment', users: 40, served: 400, clicks: 60, cartAdds: 12 },
+      { variant: 'control', users: 50, served: 500, clicks: 50, cartAdds: 10 }
+    ]);
+
+    expect(report.variants.map(v => v.variant)).toEqual(['control', 'treatment']);
+    expect(report.variants[0].ctr.rate).toBeCloseTo(0.1);
+    expect(report.variants[0].ctrLift).toBeUndefined();
+    expect(report.variants[1].ctrLift?.rate).toBeCloseTo(0.05);
+    expect(report.variants[1].addToCartLift?.rate).toBeCloseTo(0.01);
+  });
+
+  it('should report variants with no traffic as empty', () => {
+    const report = computeExperimentReport(experiment('a'), []);
+
+    expect(report.variants[1]).toMatchObject({ served: 0, clicks: 0, ctr: { rate: 0 } });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import { HybridRanker } from '@/lib/hybrid-ranker';
+import { product } from '@/__fixtures__/catalog';
+
+const catalog = [
+  product('1', { subcategory: 'Smartphones', tags: ['smartphone', 'camera'], features: ['48MP camera'], brand: 'Apple' }),
+  product('2', { subcategory: 'Smartphones', tags: ['smartphone', 'camera'], features: ['200MP camera'], brand: 'Samsung' }),
+  product('3', { category: 'Books', subcategory: 'Fiction', tags: ['novel'], features: ['Hardcover'], brand: 'Penguin' }),
+  product('4')
+];
+
+const emptyProfile = {
+  preferredCategories: [],
+  preferredBrands: [],
+  priceRange: [0, 3000] as [number, number],
+  preferredFeatures: [],
+  interactionHistory: []
+};
+
+describe('HybridRanker', () => {
+  it('should rank content-similar products first and exclude seen ones', () => {
+    const ranker = new HybridRanker(catalog);
+    const recommendations = ranker.recommend({
+      ...emptyProfile,
+      interactionHistory: [{ productId: '1', interactionType: 'like' }]
+    }, 3);
+
+    expect(recommendations.map(r => r.productId)).not.toContain('1');
+    expect(recommendations[0].productId).toBe('2');
+  });
+
+  it('should use co-occurrence from other shoppers', () => {
+    const ranker = new HybridRanker(catalog, [
+      { productId: '1', interactionType: 'view', sessionId: 'a' },
+      { productId: '3', interactionType: 'purchase', sessionId: 'a' },
+      { productId: '1', interactionType: 'view', sessionId: 'b' },
+      { productId: '3', interactionType: 'cart_add', sessionId: 'b' }
+    ], { content: 0, coOccurrence: 1, popularity: 0, preference: 0 });
+
+    const [top] = ranker.recommend({
+      ...emptyProfile,
+      interactionHistory: [{ productId: '1', interactionType: 'view' }]
+    }, 1);
+
+    expect(top.productId).toBe('3');
+  });
+
+  it('should use aggregated co-occurrence counts', () => {
+    const ranker = new HybridRanker(catalog, [], { content: 0, coOccurrence: 1, popularity: 0, preference: 0 })
+      .withCoOccurrence([{ productId: '1', relatedProductId: '4', baskets: 3 }]);
+
+    const [top] = ranker.recommend({
+      ...emptyProfile,
+      interactionHistory: [{ productId: '1', interactionType: 'view' }]
+    }, 1);
+
+    expect(top.productId).toBe('4');
+  });
+
+  it('should be deterministic', () => {
+    const profile = { ...emptyProfile, preferredCategories: ['Electronics'] };
+    expect(new HybridRanker(catalog).recommend(profile)).toEqual(new HybridRanker(catalog).recommend(profile));
+  });
+
+  it('should rank popular products by rating when review counts are unknown', () => {
+    const unreviewed = [
+      product('1', { ratings: { average: 3.1, count: 0 } }),
+      product('2', { ratings: { average: 4.8, count: 0 } })
+    ];
+    expect(new HybridRanker(unreviewed).popular(1)[0].productId).toBe('2');
+  });
+
+  it('should find similar products', () => {
+    const similar = new HybridRanker(catalog).similar('1', 2);
+    expect(similar[0].productId).toBe('2');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from '@jest/globals';
+import { CircuitOpenError, InvalidJSONError, LLMRequestError, ResilientProvider, type LLMProvider } from '@/lib/llm';
+
+// Provider that replays a scripted sequence of outcomes
+function scriptedProvider(outcomes: Array<Error | string>): LLMProvider & { calls: number } {
+  const provider = {
+    name: 'scripted',
+    model: 'test',
+    calls: 0,
+    async generateText() {
+      const outcome = outcomes[Math.min(provider.calls++, outcomes.length - 1)];
+      if (outcome instanceof Error) throw outcome;
+      return outcome;
+    },
+    async generateJSON<T>() {
+      return JSON.parse(await provider.generateText()) as T;
+    }
+  };
+  return provider;
+}
+
+const fast = { baseDelayMs: 1, maxDelayMs: 50 };
+
+describe('ResilientProvider', () => {
+  it('should retry transient failures and report them', async () => {
+    const inner = scriptedProvider([new LLMRequestError('unavailable', 503), '"ok"']);
+    const provider = new ResilientProvider(inner, fast);
+
+    await expect(provider.generateText('prompt')).resolves.toBe('"ok"');
+    expect(inner.calls).toBe(2);
+    expect(provider.getMetrics()).toMatchObject({ calls: 1, successes: 1, retries: 1, circuitState: 'closed' });
+  });
+
+  it('should not retry client errors', async () => {
+    const inner = scriptedProvider([new LLMRequestError('bad request', 400), '"ok"']);
+    const provider = new ResilientProvider(inner, fast);
+
+    await expect(provider.generateText('prompt')).rejects.toThrow('bad request');
+    expect(inner.calls).toBe(1);
+  });
+
+  it('should count rate limits and honor short retry-after delays', async () => {
+    const inner = scriptedProvider([new LLMRequestError('slow down', 429, 5), '"ok"']);
+    const provider = new ResilientProvider(inner, fast);
+
+    await expect(provider.generateText('prompt')).resolves.toBe('"ok"');
+    expect(provider.getMetrics().rateLimited).toBe(1);
+  });
+
+  it('should open the circuit for a long retry-after', async () => {
+    const inner = scriptedProvider([new LLMRequestError('quota', 429, 60000)]);
+    const provider = new ResilientProvider(inner, fast);
+
+    await expect(provider.generateText('prompt')).rejects.toThrow('quota');
+    await expect(provider.generateText('prompt')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(inner.calls).toBe(1);
+  });
+
+  it('should short-circuit after repeated failures and recover after the cooldown', async () => {
+    const inner = scriptedProvider([
+      new LLMRequestError('down', 500),
+      new LLMRequestError('down', 500),
+      '"back"'
+    ]);
+    const provider = new ResilientProvider(inner, { ...fast, maxRetries: 0, failureThreshold: 2, cooldownMs: 20 });
+
+    await expect(provider.generateText('prompt')).rejects.toThrow('down');
+    await expect(provider.generateText('prompt')).rejects.toThrow('down');
+    await expect(provider.generateText('prompt')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(provider.getMetrics()).toMatchObject({ circuitState: 'open', shortCircuited: 1 });
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await expect(provider.generateText('prompt')).resolves.toBe('"back"');
+    expect(provider.getMetrics().circuitState).toBe('closed');
+  });
+
+  it('should not treat unparseable answers as outages', async () => {
+    const inner = scriptedProvider([new InvalidJSONError('No JSON found in model response')]);
+    const provider = new ResilientProvider(inner, { ...fast, failureThreshold: 1 });
+
+    await expect(provider.generateText('prompt')).rejects.toBeInstanceOf(InvalidJSONError);
+    expect(provider.getMetrics()).toMatchObject({ failures: 0, circuitState: 'closed' });
+    expect(inner.calls).toBe(1);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyFeedbackPenalties, collectFeedbackPenalties } from '@/lib/negative-feedback';
+import { HybridRanker } from '@/lib/hybrid-ranker';
+import { AIRecommendationService } from '@/lib/ai-recommendations';
+import { LocalProvider } from '@/lib/llm';
+import { product } from '@/__fixtures__/catalog';
+
+const catalog = [
+  product('1', { subcategory: 'Headphones', brand: 'Sony', tags: ['headphones'] }),
+  product('2', { subcategory: 'Headphones', brand: 'Bose', tags: ['headphones'] }),
+  product('3', { subcategory: 'Speakers', brand: 'Sony', tags: ['speakers'] }),
+  product('4', { subcategory: 'Speakers', brand: 'JBL', tags: ['speakers'] })
+];
+const products = new Map(catalog.map(p => [p.id, p]));
+
+describe('collectFeedbackPenalties', () => {
+  it('should suppress every product with negative feedback and ignore positive interactions', () => {
+    const penalties = collectFeedbackPenalties(
+      [
+        { productId: '1', interactionType: 'dismiss' },
+        { productId: '2', interactionType: 'like' },
+        { productId: '3', interactionType: 'already_own' }
+      ],
+      products
+    );
+
+    expect(Array.from(penalties.suppressed)).toEqual(['1', '3']);
+    expect(penalties.brands.size).toBe(0);
+    expect(penalties.subcategories.get('Speakers')).toBe(1);
+  });
+
+  it('should down-weight only what the reason names', () => {
+    const brand = collectFeedbackPenalties(
+      [{ productId: '1', interactionType: 'not_interested', metadata: { reason: 'brand' } }],
+      products
+    );
+    expect(brand.brands.get('Sony')).toBe(1);
+    expect(brand.subcategories.size).toBe(0);
+
+    const price = collectFeedbackPenalties(
+      [{ productId: '1', interactionType: 'not_interested', metadata: { reason: 'too_expensive' } }],
+      products
+    );
+    expect(price.brands.size + price.subcategories.size).toBe(0);
+  });
+});
+
+describe('applyFeedbackPenalties', () => {
+  it('should drop suppressed products and rank penalized ones lower', () => {
+    const penalties = collectFeedbackPenalties(
+      [{ productId: '1', interactionType: 'not_interested' }],
+      products
+    );
+
+    const ranked = applyFeedbackPenalties(
+      [
+        { productId: '1', score: 95, reason: '', category: 'hybrid' },
+        { productId: '3', score: 90, reason: '', category: 'hybrid' },
+        { productId: '4', score: 80, reason: '', category: 'hybrid' }
+      ],
+      products,
+      penalties
+    );
+
+    expect(ranked.map(r => r.productId)).toEqual(['4', '3']);
+    expect(ranked[1].score).toBe(63);
+  });
+});
+
+describe('negative feedback in the hybrid ranker', () => {
+  it('should never recommend dismissed products or treat them as interest', () => {
+    const ranker = new HybridRanker(catalog);
+    const recommendations = ranker.recommend({
+      preferredCategories: [],
+      preferredBrands: [],
+      priceRange: [0, 3000],
+      preferredFeatures: [],
+      interactionHistory: [{ productId: '1', interactionType: 'not_interested' }]
+    }, 10);
+
+    expect(recommendations.map(r => r.productId)).not.toContain('1');
+  });
+});
+
+describe('AIRecommendationService negative feedback', () => {
+  it('should suppress products dismissed before the loaded interaction history', async () => {
+    const service = new AIRecommendationService(new LocalProvider(), 'hybrid');
+    const recommendations = await service.generateRecommendations('user-1', catalog, {
+      userId: 'user-1',
+      preferredCategories: ['Electronics'],
+      preferredBrands: [],
+      priceRange: [0, 3000],
+      preferredFeatures: [],
+      interactionHistory: [{ productId: '2', interactionType: 'like', timestamp: new Date() }],
+      negativeFeedback: [{ productId: '1', interactionType: 'dismiss' }]
+    }, 4);
+
+    expect(recommendations.length).toBeGreaterThan(0);
+    expect(recommendations.map(r => r.productId)).not.toContain('1');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from '@jest/globals';
+import { PipelineRun } from '@/lib/pipeline';
+
+const delay = <T>(ms: number, value: T) => new Promise<T>(resolve => setTimeout(() => resolve(value), ms));
+
+describe('PipelineRun', () => {
+  it('should return stage results and record them as ok', async () => {
+    const run = new PipelineRun('llm', 1000);
+    const value = await run.stage('analysis', 500, () => delay(5, 'done'), () => 'fallback');
+
+    expect(value).toBe('done');
+    expect(run.finish()).toMatchObject({ partial: false, stages: [{ stage: 'analysis', status: 'ok' }] });
+  });
+
+  it('should fall back and abort the stage when it times out', async () => {
+    const run = new PipelineRun('llm', 1000);
+    let aborted = false;
+    const value = await run.stage('content', 20, signal => {
+      signal.addEventListener('abort', () => { aborted = true; });
+      return delay(200, ['late']);
+    }, () => [] as string[]);
+
+    expect(value).toEqual([]);
+    expect(aborted).toBe(true);
+    expect(run.finish()).toMatchObject({ partial: true, stages: [{ stage: 'content', status: 'timeout' }] });
+  });
+
+  it('should use the fallback when a stage throws', async () => {
+    const run = new PipelineRun('llm', 1000);
+    const value = await run.stage('combine', 500, () => Promise.reject(new Error('boom')), () => 'merged');
+
+    expect(value).toBe('merged');
+    expect(run.finish().stages[0]).toMatchObject({ status: 'error', error: 'boom' });
+  });
+
+  it('should skip stages once the overall budget is spent', async () => {
+    const run = new PipelineRun('llm', 10);
+    await delay(20, null);
+    let called = false;
+    const value = await run.stage('collaborative', 500, async () => { called = true; return 'ran'; }, () => 'skipped');
+
+    expect(value).toBe('skipped');
+    expect(called).toBe(false);
+    expect(run.finish().stages[0].status).toBe('skipped');
+  });
+
+  it('should report the token usage its stages recorded, repairs included', () => {
+    const run = new PipelineRun('llm', 1000);
+    expect(run.finish().tokens).toBeUndefined();
+
+    const usage = { stage: 'content', completionTokens: 50, budget: 100, droppedItems: 0 };
+    run.tokens.record({ ...usage, promptTokens: 90, repair: false });
+    run.tokens.record({ ...usage, promptTokens: 120, repair: true });
+
+    expect(run.finish().tokens).toEqual({
+      content: { calls: 2, repairs: 1, overBudget: 1, promptTokens: 210, completionTokens: 100, droppedItems: 0 }
+    });
+  });
+});
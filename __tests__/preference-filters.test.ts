@@ -0,0 +1,36 @@
+import { describe, it, expect } from '@jest/globals';
+import { withoutBlocked, withoutBlockedValues } from '@/lib/preference-filters';
+import { product } from '@/__fixtures__/catalog';
+
+const products = [
+  product('1', { category: 'Electronics', brand: 'Sony' }),
+  product('2', { category: 'Books', brand: 'Penguin' }),
+  product('3', { category: 'Electronics', brand: 'Apple' })
+];
+
+describe('withoutBlocked', () => {
+  it('should drop products in blocked categories or brands', () => {
+    expect(withoutBlocked(products, { blockedCategories: ['Books'], blockedBrands: ['Apple'] }).map(p => p.id)).toEqual(['1']);
+  });
+
+  it('should return the same list when nothing is blocked', () => {
+    expect(withoutBlocked(products, {})).toBe(products);
+  });
+});
+
+describe('withoutBlockedValues', () => {
+  it('should remove blocked values from preference lists', () => {
+    const values = {
+      preferredCategories: ['Books', 'Electronics'],
+      preferredBrands: ['Sony', 'Apple'],
+      priceRange: [0, 500] as [number, number],
+      preferredFeatures: ['Bluetooth']
+    };
+
+    expect(withoutBlockedValues(values, { blockedCategories: ['Books'], blockedBrands: ['Apple'] })).toEqual({
+      ...values,
+      preferredCategories: ['Electronics'],
+      preferredBrands: ['Sony']
+    });
+  });
+});
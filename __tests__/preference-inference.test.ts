@@ -0,0 +1,91 @@
+import { describe, it, expect } from '@jest/globals';
+import { combinePreferences, inferPreferences } from '@/lib/preference-inference';
+import { product } from '@/__fixtures__/catalog';
+
+const products = new Map([
+  ['1', product('1')],
+  ['2', product('2', { category: 'Books', subcategory: 'Fiction', brand: 'Penguin', price: 20, features: ['Hardcover'], tags: ['novel'] })],
+  ['3', product('3', { brand: 'Bose', price: 300 })]
+]);
+
+const now = new Date('2025-06-01T00:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+describe('inferPreferences', () => {
+  it('should rank recent purchases above older views', () => {
+    const inferred = inferPreferences(
+      [
+        { productId: '2', interactionType: 'view', timestamp: daysAgo(7) },
+        { productId: '2', interactionType: 'view', timestamp: daysAgo(7) },
+        { productId: '1', interactionType: 'purchase', timestamp: daysAgo(1) }
+      ],
+      products,
+      { now }
+    );
+
+    expect(inferred?.preferredCategories).toEqual(['Electronics', 'Books']);
+    expect(inferred?.preferredBrands[0]).toBe('Sony');
+    expect(inferred?.basedOn).toBe(3);
+    expect(inferred?.inferredAt).toBe(now);
+  });
+
+  it('should drop values below the minimum share', () => {
+    const inferred = inferPreferences(
+      [
+        { productId: '1', interactionType: 'purchase', timestamp: daysAgo(0) },
+        { productId: '2', interactionType: 'view', timestamp: daysAgo(60) }
+      ],
+      products,
+      { now }
+    );
+
+    expect(inferred?.preferredCategories).toEqual(['Electronics']);
+    expect(inferred?.preferredFeatures).toEqual(expect.arrayContaining(['Bluetooth', 'audio']));
+  });
+
+  it('should derive the price range from the interacted products', () => {
+    const inferred = inferPreferences(
+      [
+        { productId: '1', interactionType: 'like', timestamp: daysAgo(0) },
+        { productId: '3', interactionType: 'like', timestamp: daysAgo(0) }
+      ],
+      products,
+      { now }
+    );
+
+    expect(inferred?.priceRange).toEqual([100, 300]);
+  });
+
+  it('should return null when no interaction refers to a known product', () => {
+    expect(inferPreferences([{ productId: 'missing', interactionType: 'view', timestamp: now }], products, { now })).toBeNull();
+    expect(inferPreferences([], products, { now })).toBeNull();
+  });
+});
+
+describe('combinePreferences', () => {
+  const explicit = {
+    preferredCategories: ['Books'],
+    preferredBrands: [],
+    priceRange: [0, 3000] as [number, number],
+    preferredFeatures: []
+  };
+  const inferred = {
+    preferredCategories: ['Electronics', 'Books'],
+    preferredBrands: ['Sony'],
+    priceRange: [50, 200] as [number, number],
+    preferredFeatures: ['Bluetooth']
+  };
+
+  it('should list explicit values before inferred ones', () => {
+    const combined = combinePreferences(explicit, inferred);
+
+    expect(combined.preferredCategories).toEqual(['Books', 'Electronics']);
+    expect(combined.preferredBrands).toEqual(['Sony']);
+    expect(combined.priceRange).toEqual([50, 200]);
+  });
+
+  it('should keep an explicitly set price range', () => {
+    expect(combinePreferences({ ...explicit, priceRange: [10, 40] }, inferred).priceRange).toEqual([10, 40]);
+    expect(combinePreferences(explicit, null)).toBe(explicit);
+  });
+});
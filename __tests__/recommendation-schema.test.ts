@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@jest/globals';
+import { validateRecommendations, validateUserAnalysis } from '@/lib/recommendation-schema';
+import { parseJSONResponse, InvalidJSONError } from '@/lib/llm';
+
+describe('Structured model output', () => {
+  const catalogIds = new Set(['1', '2', '3']);
+
+  it('should accept a valid user analysis', () => {
+    const result = validateUserAnalysis({
+      intent: 'comparing products',
+      categoryStrength: 8,
+      brandLoyalty: 3,
+      priceSensitivity: 6,
+      topFeatures: ['camera'],
+      behaviorPatterns: ['research_heavy']
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject out-of-range analysis scores', () => {
+    const result = validateUserAnalysis({
+      intent: 'browsing',
+      categoryStrength: 42,
+      brandLoyalty: 5,
+      priceSensitivity: 5,
+      topFeatures: [],
+      behaviorPatterns: []
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should drop recommendations for products outside the catalog', () => {
+    const result = validateRecommendations([
+      { productId: '1', score: 90, reason: 'Matches your interests', category: 'content_based' },
+      { productId: '999', score: 80, reason: 'Hallucinated', category: 'content_based' }
+    ], catalogIds);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.map(r => r.productId)).toEqual(['1']);
+      expect(result.warnings).toHaveLength(1);
+    }
+  });
+
+  it('should fail when every recommendation is hallucinated', () => {
+    const result = validateRecommendations([
+      { productId: '999', score: 80, reason: 'Hallucinated', category: 'trending' }
+    ], catalogIds);
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should coerce numeric product IDs and unwrap a recommendations object', () => {
+    const result = validateRecommendations({
+      recommendations: [{ productId: 2, score: 70, reason: 'Popular', category: 'trending' }]
+    }, catalogIds);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data[0].productId).toBe('2');
+    }
+  });
+
+  it('should extract JSON wrapped in markdown fences', () => {
+    expect(parseJSONResponse('Here you go:\n```json\n[{"a":1}]\n```')).toEqual([{ a: 1 }]);
+    expect(() => parseJSONResponse('no json here')).toThrow(InvalidJSONError);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import { simulateShoppers } from '@/lib/shopper-simulator';
+import { product } from '@/__fixtures__/catalog';
+
+const products = [
+  product('1'),
+  product('2', { brand: 'Bose', price: 80, originalPrice: 120 }),
+  product('3', { category: 'Books', subcategory: 'Fiction', brand: 'Penguin', price: 20, originalPrice: 20 }),
+  product('4', { category: 'Home', subcategory: 'Kitchen', brand: 'Ninja', price: 250, originalPrice: 300 })
+];
+
+const end = new Date('2025-06-01T00:00:00Z');
+
+describe('simulateShoppers', () => {
+  it('should be reproducible for a seed', () => {
+    const first = simulateShoppers(products, { shoppers: 10, days: 7, end, seed: 42 });
+    const second = simulateShoppers(products, { shoppers: 10, days: 7, end, seed: 42 });
+    const other = simulateShoppers(products, { shoppers: 10, days: 7, end, seed: 43 });
+
+    expect(second).toEqual(first);
+    expect(other.interactions).not.toEqual(first.interactions);
+  });
+
+  it('should write anonymous user_interactions rows inside the period, oldest first', () => {
+    const { interactions } = simulateShoppers(products, { shoppers: 5, days: 7, end });
+    const start = end.getTime() - 7 * 24 * 60 * 60 * 1000;
+
+    expect(interactions.length).toBeGreaterThan(0);
+    interactions.forEach((interaction, index) => {
+      expect(interaction.user_id).toBeNull();
+      expect(interaction.anonymous_id).toMatch(/^sim-/);
+      expect(interaction.event_id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+      expect(new Date(interaction.timestamp).getTime()).toBeGreaterThanOrEqual(start);
+      expect(new Date(interaction.timestamp).getTime()).toBeLessThanOrEqual(end.getTime());
+      if (index > 0) {
+        expect(interaction.timestamp >= interactions[index - 1].timestamp).toBe(true);
+      }
+    });
+  });
+
+  it('should only record purchases after a cart add in the same session', () => {
+    const { interactions } = simulateShoppers(products, { shoppers: 40, days: 14, end });
+    const carted = new Set<string>();
+
+    interactions.forEach(interaction => {
+      const key = `${interaction.session_id}:${interaction.product_id}`;
+      if (interaction.interaction_type === 'cart_add') carted.add(key);
+      if (interaction.interaction_type === 'purchase') expect(carted.has(key)).toBe(true);
+    });
+  });
+
+  it('should only create the personas in the mix', () => {
+    const { shoppers } = simulateShoppers(products, { shoppers: 20, end, personaMix: { gift_shopper: 1 } });
+
+    expect(new Set(shoppers.map(shopper => shopper.persona))).toEqual(new Set(['gift_shopper']));
+    expect(() => simulateShoppers(products, { personaMix: { browser: 0 } })).toThrow('personaMix');
+  });
+
+  it('should keep brand-loyal shoppers on their brands', () => {
+    const { shoppers, interactions } = simulateShoppers(products, {
+      shoppers: 20,
+      days: 30,
+      end,
+      personaMix: { brand_loyal: 1 }
+    });
+    const brandsById = new Map(products.map(p => [p.id, p.brand]));
+    const favorites = new Map(shoppers.map(shopper => [shopper.id, shopper.brands]));
+    const views = interactions.filter(interaction => interaction.interaction_type === 'view');
+    const onBrand = views.filter(view => favorites.get(view.anonymous_id)!.includes(brandsById.get(view.product_id)!));
+
+    expect(onBrand.length / views.length).toBeGreaterThan(0.7);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from '@jest/globals';
+import { computeUserAnalytics, reconstructSessions, type AnalyticsEvent } from '@/lib/user-analytics';
+import { product } from '@/__fixtures__/catalog';
+
+const products = new Map([
+  ['1', product('1')],
+  ['2', product('2', { brand: 'Bose' })],
+  ['3', product('3', { category: 'Books', subcategory: 'Fiction', brand: 'Penguin' })]
+]);
+
+const now = new Date('2025-06-01T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+const event = (
+  productId: string,
+  interactionType: string,
+  timestamp: Date,
+  sessionId: string | null = 's1'
+): AnalyticsEvent => ({ productId, interactionType, sessionId, timestamp });
+
+describe('reconstructSessions', () => {
+  it('should group events by session ID', () => {
+    const sessions = reconstructSessions(
+      [event('1', 'view', minutesAgo(10)), event('2', 'view', minutesAgo(5), 's2'), event('1', 'like', minutesAgo(1))],
+      30 * 60 * 1000
+    );
+
+    expect(sessions.map(session => session.length).sort()).toEqual([1, 2]);
+  });
+
+  it('should split events without a session ID on inactivity gaps', () => {
+    const sessions = reconstructSessions(
+      [
+        event('1', 'like', minutesAgo(120), null),
+        event('2', 'like', minutesAgo(110), null),
+        event('3', 'like', minutesAgo(10), null)
+      ],
+      30 * 60 * 1000
+    );
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0]).toHaveLength(2);
+  });
+});
+
+describe('computeUserAnalytics', () => {
+  const events = [
+    event('1', 'view', minutesAgo(30)),
+    event('2', 'view', minutesAgo(20)),
+    event('1', 'cart_add', minutesAgo(10)),
+    event('1', 'purchase', minutesAgo(0)),
+    event('3', 'view', minutesAgo(60 * 24 * 10), 's0')
+  ];
+
+  it('should measure sessions from first to last interaction', () => {
+    const { sessions } = computeUserAnalytics(events, products, { now });
+
+    expect(sessions.count).toBe(2);
+    expect(sessions.avgDurationMs).toBe(15 * 60 * 1000);
+    expect(sessions.avgInteractions).toBe(2.5);
+    expect(sessions.bounceRate).toBe(0.5);
+  });
+
+  it('should count distinct products at each funnel step', () => {
+    const { funnel } = computeUserAnalytics([...events, event('1', 'view', minutesAgo(5))], products, { now });
+
+    expect(funnel).toEqual({
+      viewed: 3,
+      addedToCart: 1,
+      purchased: 1,
+      viewToCartRate: 1 / 3,
+      cartToPurchaseRate: 1
+    });
+  });
+
+  it('should weight affinity by interaction type and ignore negative feedback', () => {
+    const analytics = computeUserAnalytics(
+      [...events, event('3', 'not_interested', minutesAgo(1)), event('3', 'dismiss', minutesAgo(1))],
+      products,
+      { now }
+    );
+
+    expect(analytics.categoryAffinity[0].value).toBe('Electronics');
+    expect(analytics.categoryAffinity[1]).toMatchObject({ value: 'Books', interactions: 1 });
+    expect(analytics.brandAffinity[0].value).toBe('Sony');
+    expect(analytics.interactionCounts.not_interested).toBe(1);
+  });
+
+  it('should report recent activity and the activity window', () => {
+    const analytics = computeUserAnalytics(events, products, { now });
+
+    expect(analytics.totalInteractions).toBe(5);
+    expect(analytics.recentActivity).toBe(4);
+    expect(analytics.lastInteractionAt).toBe(now.toISOString());
+  });
+
+  it('should handle a user without interactions', () => {
+    const analytics = computeUserAnalytics([], products, { now });
+
+    expect(analytics.sessions.count).toBe(0);
+    expect(analytics.funnel.viewToCartRate).toBe(0);
+    expect(analytics.categoryAffinity).toEqual([]);
+    expect(analytics.firstInteractionAt).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/server";
+import { AuthButton } from "@/components/auth-button";
+import { ThemeSwitcher } from "@/components/theme-switcher";
+import { PreferenceCenter } from "@/components/preference-center";
+
+export default async function PreferencesPage() {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.auth.getUser();
+  if (error || !data?.user) {
+    redirect("/auth/login");
+  }
+
+  return (
+    <main className="min-h-screen flex flex-col items-center">
+      <div className="flex-1 w-full flex flex-col gap-6 items-center">
+        <nav className="w-full flex justify-center border-b border-b-foreground/10 h-16">
+          <div className="w-full max-w-5xl flex justify-between items-center p-3 px-5 text-sm">
+            <div className="flex gap-5 items-center font-semibold">
+              <Link href={"/"}>AI Shopping Assistant</Link>
+              <div className="flex items-center gap-4">
+                <Link href={"/catalog"} className="text-sm hover:underline">
+                  Product Catalog
+                </Link>
+                <Link href={"/recommendations"} className="text-sm hover:underline">
+                  Recommendations
+                </Link>
+              </div>
+            </div>
+            <AuthButton />
+          </div>
+        </nav>
+
+        <div className="flex-1 w-full max-w-5xl p-5">
+          <PreferenceCenter />
+        </div>
+
+        <footer className="w-full flex items-center justify-center border-t mx-auto text-center text-xs gap-8 py-16">
+          <ThemeSwitcher />
+        </footer>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,101 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  countRecords,
+  ERASURE_CONFIRMATION,
+  EXPORT_FORMATS,
+  eraseUserData,
+  exportUserData,
+  recordDataRequest,
+  toCsv,
+  type AccountDataErrorResponse,
+  type ErasureRequest,
+  type ErasureResponse,
+  type ExportFormat,
+} from "@/lib/account-data";
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json<AccountDataErrorResponse>({ error }, { status });
+}
+
+/**
+ * GET /api/account/data?format=json|csv
+ *
+ * Downloads everything stored about the signed-in user, from every table in
+ * USER_DATA_TABLES: interactions, preferences, cached recommendations, served
+ * lists, impressions, bandit serves and tracking consent. Every export is
+ * recorded in data_requests before the data is returned.
+ */
+export async function GET(request: NextRequest) {
+  const format = (request.nextUrl.searchParams.get("format") ?? "json") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return errorResponse(`Unknown export format "${format}"`, 400);
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return errorResponse("Not authenticated", 401);
+  }
+
+  try {
+    const data = await exportUserData(supabase, user.id);
+    await recordDataRequest(supabase, "export", countRecords(data), format);
+
+    const filename = `user-data-${data.exportedAt.slice(0, 10)}.${format}`;
+    const body = format === "csv" ? toCsv(data) : JSON.stringify(data, null, 2);
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting user data:", error);
+    return errorResponse("Failed to export data", 500);
+  }
+}
+
+/**
+ * DELETE /api/account/data  { confirmation: "DELETE MY DATA" }
+ *
+ * Erases the signed-in user's rows from every table in USER_DATA_TABLES,
+ * their tracking consent included. The confirmation phrase guards against
+ * accidental calls.
+ * The erasure is recorded in data_requests, which keeps only the row counts.
+ */
+export async function DELETE(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return errorResponse("Not authenticated", 401);
+  }
+
+  const parsed: unknown = await request.json().catch(() => null);
+  const body = (typeof parsed === "object" && parsed !== null ? parsed : {}) as Partial<ErasureRequest>;
+  if (body.confirmation !== ERASURE_CONFIRMATION) {
+    return errorResponse(`Confirm by sending { "confirmation": "${ERASURE_CONFIRMATION}" }`, 400);
+  }
+
+  try {
+    const deleted = await eraseUserData(supabase, user.id);
+
+    // The data is gone either way; a failed audit write must not report the erasure as failed
+    await recordDataRequest(supabase, "erasure", deleted).catch((error) =>
+      console.error("Error recording erasure request:", error),
+    );
+
+    return NextResponse.json<ErasureResponse>({ deleted, erasedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error("Error erasing user data:", error);
+    return errorResponse("Failed to erase data", 500);
+  }
+}
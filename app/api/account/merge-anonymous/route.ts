@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { clearAnonymousId, readAnonymousId } from "@/lib/anonymous-id";
+import { loadUserConsent, readConsent, saveConsent } from "@/lib/consent";
+import {
+  mergeAnonymousHistory,
+  sanitizePreferences,
+  type MergeAnonymousRequest,
+  type MergeAnonymousResponse,
+} from "@/lib/anonymous-history";
+
+/**
+ * POST /api/account/merge-anonymous  { preferences? }
+ *
+ * Called right after login or sign-up. Moves the interactions recorded under
+ * the visitor cookie to the signed-in user, merges the browser's anonymous
+ * preferences into the stored ones, and clears the visitor cookie. A
+ * consent choice made while signed out is kept for accounts without one.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const parsed: unknown = await request.json().catch(() => null);
+  const body = (typeof parsed === "object" && parsed !== null ? parsed : {}) as MergeAnonymousRequest;
+
+  try {
+    const visitorConsent = readConsent(request.cookies);
+    if (visitorConsent && (await loadUserConsent(supabase, user.id)) === null) {
+      await saveConsent(supabase, user.id, visitorConsent);
+    }
+
+    const result = await mergeAnonymousHistory(
+      supabase,
+      user.id,
+      readAnonymousId(request.cookies),
+      sanitizePreferences(body.preferences),
+    );
+
+    const response = NextResponse.json<MergeAnonymousResponse>(result);
+    clearAnonymousId(response);
+    return response;
+  } catch (error) {
+    console.error("Error merging anonymous history:", error);
+    return NextResponse.json({ error: "Failed to merge anonymous history" }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { loadCatalog } from "@/lib/catalog";
+import { loadUserAnalytics, type AnalyticsErrorResponse, type UserAnalytics } from "@/lib/user-analytics";
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json<AnalyticsErrorResponse>({ error }, { status });
+}
+
+/**
+ * GET /api/analytics
+ *
+ * Shopping analytics for the signed-in user, computed from their stored
+ * interactions: sessions, the view -> cart -> purchase funnel, and category
+ * and brand affinity. Very long histories are cut to the most recent
+ * interactions, and `truncated` says so.
+ */
+export async function GET() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return errorResponse("Not authenticated", 401);
+  }
+
+  try {
+    const catalog = await loadCatalog();
+    const analytics = await loadUserAnalytics(supabase, user.id, catalog, user.created_at);
+    return NextResponse.json<UserAnalytics>(analytics);
+  } catch (error) {
+    console.error("Error computing analytics:", error);
+    return errorResponse("Failed to compute analytics", 500);
+  }
+}
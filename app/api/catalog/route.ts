@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { loadCatalog, type Product } from "@/lib/catalog";
+
+/**
+ * GET /api/catalog
+ *
+ * Returns the validated product catalog the server is configured to use.
+ */
+export async function GET() {
+  try {
+    const catalog = await loadCatalog();
+    return NextResponse.json<Product[]>(catalog.products, {
+      headers: { "Cache-Control": "public, max-age=300" },
+    });
+  } catch (error) {
+    console.error("Error loading catalog:", error);
+    return NextResponse.json({ error: "Failed to load catalog" }, { status: 500 });
+  }
+}
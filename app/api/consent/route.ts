@@ -0,0 +1,77 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { clearAnonymousId } from "@/lib/anonymous-id";
+import { RecommendationCache } from "@/lib/recommendation-cache";
+import {
+  allowsIdentifiedTracking,
+  allowsPersonalization,
+  isConsentMode,
+  loadConsent,
+  readConsent,
+  saveConsent,
+  setConsentCookie,
+  type ConsentRequest,
+  type ConsentResponse,
+} from "@/lib/consent";
+
+/**
+ * GET /api/consent
+ *
+ * The shopper's tracking consent: the signed-in user's stored choice, else
+ * the browser's cookie, else null when they have not chosen yet. A choice
+ * stored on the account is copied into the cookie so this browser's tracker
+ * minimizes events the same way.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const mode = await loadConsent(supabase, user?.id, request.cookies);
+  const response = NextResponse.json<ConsentResponse>({ mode });
+  if (mode && readConsent(request.cookies) !== mode) {
+    setConsentCookie(response, mode);
+  }
+  return response;
+}
+
+/**
+ * POST /api/consent  { mode: "none" | "essential" | "personalization" }
+ *
+ * Stores the choice in a cookie and, for signed-in users, on their account.
+ * Withdrawing personalization drops cached personalized lists; declining all
+ * tracking also forgets the visitor ID cookie.
+ */
+export async function POST(request: NextRequest) {
+  const parsed: unknown = await request.json().catch(() => null);
+  const body = (typeof parsed === "object" && parsed !== null ? parsed : {}) as Partial<ConsentRequest>;
+  if (!isConsentMode(body.mode)) {
+    return NextResponse.json({ error: "mode must be none, essential or personalization" }, { status: 400 });
+  }
+  const mode = body.mode;
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  try {
+    if (user) {
+      await saveConsent(supabase, user.id, mode);
+      if (!allowsPersonalization(mode)) {
+        await new RecommendationCache(supabase).invalidate(user.id);
+      }
+    }
+
+    const response = NextResponse.json<ConsentResponse>({ mode });
+    setConsentCookie(response, mode);
+    if (!allowsIdentifiedTracking(mode)) {
+      clearAnonymousId(response);
+    }
+    return response;
+  } catch (error) {
+    console.error("Error saving consent:", error);
+    return NextResponse.json({ error: "Failed to save consent" }, { status: 500 });
+  }
+}
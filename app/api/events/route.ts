@@ -0,0 +1,176 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createClient, createServiceRoleClient } from "@/lib/supabase/server";
+import { loadCatalog } from "@/lib/catalog";
+import { readAnonymousId } from "@/lib/anonymous-id";
+import { allowsPersonalization, isIdentifiedEvent, loadConsent, minimizeEvent } from "@/lib/consent";
+import { getAssignment, stampExperiment } from "@/lib/experiments";
+import {
+  MAX_EVENTS_PER_BATCH,
+  resolveEventTime,
+  validateEventBatch,
+  type EventsErrorResponse,
+  type EventsResponse,
+} from "@/lib/events";
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json<EventsErrorResponse>({ error }, { status });
+}
+
+/**
+ * POST /api/events  { events: [{ eventId?, productId, interactionType, sessionId?, occurredAt?, metadata? }] }
+ *
+ * Batched interaction ingestion. Each event is validated against the known
+ * interaction types and the catalog; valid events are inserted in one
+ * statement and invalid ones are reported back by index. Events carrying an
+ * eventId that is already stored count as duplicates, so clients can retry
+ * freely. Signed-out visitors' events are stored under their visitor cookie
+ * and merged into their account when they sign in. Only this route may write
+ * interactions, signed in or not, through the service role, since reports
+ * and the bandit count them. The body is read as text because
+ * navigator.sendBeacon may not send a JSON content type.
+ *
+ * Tracking consent decides what is kept: events the shopper has not
+ * consented to (and all events from shoppers without an ID) are only added
+ * to anonymous per-product daily counts, also written only through the
+ * service role, and browsing details are stripped unless personalization was
+ * allowed. With personalization, stored events are stamped with the
+ * shopper's variant of the running experiment.
+ *
+ * Impression events (a recommendation card came into view) are stored in
+ * recommendation_impressions, once per list and slot, and only for signed-in
+ * shoppers who allowed personalization; others are accepted and discarded.
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = JSON.parse(await request.text());
+  } catch {
+    return errorResponse("Request body must be JSON", 400);
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const anonymousId = user ? undefined : readAnonymousId(request.cookies);
+
+  try {
+    const catalog = await loadCatalog();
+    const batch = validateEventBatch(body, (id) => catalog.has(id));
+
+    if (!batch) {
+      return errorResponse(`Body must be { events: [...] } with at most ${MAX_EVENTS_PER_BATCH} events`, 400);
+    }
+
+    // The same event can arrive twice within a batch when a beacon and a
+    // replay overlap; keep the first copy
+    const seen = new Set<string>();
+    const events = batch.events.filter((event) => {
+      if (!event.eventId) return true;
+      if (seen.has(event.eventId)) return false;
+      seen.add(event.eventId);
+      return true;
+    });
+
+    const consent = await loadConsent(supabase, user?.id, request.cookies);
+    const unitId = user?.id ?? anonymousId;
+    const hasIdentity = !!unitId;
+    const impressions = events.filter((event) => event.interactionType === "impression");
+    const interactions = events.filter((event) => event.interactionType !== "impression");
+    const isKept = (event: (typeof events)[number]) => hasIdentity && isIdentifiedEvent(event, consent);
+    const identified = interactions.filter(isKept).map((event) => minimizeEvent(event, consent));
+    const counted = interactions.filter((event) => !isKept(event));
+
+    let aggregated = 0;
+    if (counted.length > 0) {
+      const { data, error } = await createServiceRoleClient().rpc("record_aggregate_interactions", {
+        p_events: counted.map((event) => ({
+          event_id: event.eventId ?? null,
+          product_id: event.productId,
+          interaction_type: event.interactionType,
+          category: catalog.get(event.productId)?.category ?? null,
+        })),
+      });
+
+      if (error) {
+        console.error("Error counting interaction events:", error);
+        return errorResponse("Failed to store events", 500);
+      }
+      aggregated = Number(data) || 0;
+    }
+
+    let inserted = 0;
+    if (identified.length > 0) {
+      const receivedAt = new Date();
+      const assignment = unitId && allowsPersonalization(consent) ? getAssignment(unitId) : null;
+      const rows = identified.map((event) => ({
+        event_id: event.eventId ?? null,
+        product_id: event.productId,
+        interaction_type: event.interactionType,
+        session_id: event.sessionId ?? null,
+        timestamp: resolveEventTime(event.occurredAt, receivedAt).toISOString(),
+        metadata: stampExperiment(event.metadata, assignment),
+      }));
+
+      // event_id is unique, so replays of stored events are skipped
+      const { data, error } = user
+        ? await createServiceRoleClient()
+            .from("user_interactions")
+            .upsert(
+              rows.map((row) => ({ ...row, user_id: user.id })),
+              { onConflict: "event_id", ignoreDuplicates: true },
+            )
+            .select("id")
+        : await createServiceRoleClient().rpc("record_anonymous_interactions", {
+            p_anonymous_id: anonymousId,
+            p_events: rows,
+          });
+
+      if (error) {
+        console.error("Error inserting interaction events:", error);
+        return errorResponse("Failed to store events", 500);
+      }
+      inserted = Array.isArray(data) ? data.length : Number(data) || 0;
+    }
+
+    const shown = user && allowsPersonalization(consent) ? impressions : [];
+    // Discarded impressions still count as accepted, so clients do not resend them
+    let impressed = impressions.length - shown.length;
+    if (user && shown.length > 0) {
+      const receivedAt = new Date();
+      // Shoppers cannot write impressions themselves, since the bandit learns from them
+      const { data, error } = await createServiceRoleClient()
+        .from("recommendation_impressions")
+        .upsert(
+          shown.map((event) => ({
+            user_id: user.id,
+            request_id: event.metadata?.requestId,
+            slot: event.metadata?.slot,
+            recommendation_type: event.metadata?.recommendationType,
+            product_id: event.productId,
+            session_id: event.sessionId ?? null,
+            shown_at: resolveEventTime(event.occurredAt, receivedAt).toISOString(),
+          })),
+          { onConflict: "user_id,request_id,slot", ignoreDuplicates: true },
+        )
+        .select("id");
+
+      if (error) {
+        console.error("Error inserting impression events:", error);
+        return errorResponse("Failed to store events", 500);
+      }
+      impressed += data?.length ?? 0;
+    }
+
+    const accepted = inserted + aggregated + impressed;
+    return NextResponse.json<EventsResponse>({
+      accepted,
+      duplicates: batch.events.length - accepted,
+      rejected: batch.rejected,
+    });
+  } catch (error) {
+    console.error("Error ingesting events:", error);
+    return errorResponse("Failed to store events", 500);
+  }
+}
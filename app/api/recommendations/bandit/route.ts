@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createServiceRoleClient } from "@/lib/supabase/server";
+import { updateBanditArms } from "@/lib/bandit";
+
+/**
+ * POST /api/recommendations/bandit
+ *
+ * Credits the sources of bandit-blended lists with the clicks and cart adds
+ * their impressions earned, once the lists are old enough for feedback to
+ * have arrived. Intended for a scheduler (e.g. a Vercel cron job every 15
+ * minutes) and requires `Authorization: Bearer $CRON_SECRET`. The update
+ * function is restricted to service_role, so this needs
+ * SUPABASE_SERVICE_ROLE_KEY.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+    const impressions = await updateBanditArms(supabase);
+    return NextResponse.json({ impressions });
+  } catch (error) {
+    console.error("Error updating bandit arms:", error);
+    return NextResponse.json({ error: "Bandit update failed" }, { status: 500 });
+  }
+}
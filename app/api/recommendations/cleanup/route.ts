@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createServiceRoleClient } from "@/lib/supabase/server";
+import { RecommendationCache } from "@/lib/recommendation-cache";
+
+/**
+ * POST /api/recommendations/cleanup
+ *
+ * Deletes expired cached recommendations. Intended for a scheduler (e.g. a
+ * Vercel cron job) and requires `Authorization: Bearer $CRON_SECRET`. The
+ * cleanup function is restricted to service_role, so this needs
+ * SUPABASE_SERVICE_ROLE_KEY.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+    const removed = await new RecommendationCache(supabase).cleanupExpired();
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error("Error cleaning up recommendations:", error);
+    return NextResponse.json({ error: "Cleanup failed" }, { status: 500 });
+  }
+}
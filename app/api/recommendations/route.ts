@@ -0,0 +1,245 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createClient, createServiceRoleClient } from "@/lib/supabase/server";
+import { aiRecommendationService } from "@/lib/ai-recommendations";
+import { loadFreshUserPreferences, loadUserPreferences } from "@/lib/user-data";
+import { RecommendationCache } from "@/lib/recommendation-cache";
+import { fetchTrendingScores } from "@/lib/trending";
+import { fetchCoOccurrence } from "@/lib/co-occurrence";
+import { INTERACTION_WEIGHTS } from "@/lib/hybrid-ranker";
+import {
+  RECOMMENDATION_TYPES,
+  type RecommendationType,
+  type RecommendationsErrorResponse,
+  type RecommendationsResponse,
+} from "@/lib/recommendation-api";
+import { loadCatalog } from "@/lib/catalog";
+import { withoutBlocked } from "@/lib/preference-filters";
+import { collectFeedbackPenalties } from "@/lib/negative-feedback";
+import { allowsPersonalization, loadConsent } from "@/lib/consent";
+import { getAssignment, recordServe } from "@/lib/experiments";
+import { loadBanditArms, recordBanditServe, sampleWeights, segmentOf } from "@/lib/bandit";
+import type { PipelineMetrics } from "@/lib/pipeline";
+import type { Recommendation } from "@/lib/recommendation-schema";
+
+const MAX_LIMIT = 50;
+
+// Most recent products whose co-occurrence is looked up for a personalized list
+const CO_OCCURRENCE_ANCHORS = 20;
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json<RecommendationsErrorResponse>({ error }, { status });
+}
+
+/**
+ * GET /api/recommendations?type=personalized|trending|similar&limit=10&productId=1&category=Books&refresh=1
+ *
+ * Results are cached per user and type in product_recommendations; pass
+ * refresh=1 to regenerate. Freshly generated personalized lists include
+ * per-stage pipeline metrics. Categories and brands the user blocked, and
+ * products they dismissed, are left out of every list. Without
+ * personalization consent, "personalized" serves popular products, "similar"
+ * needs an explicit productId, and no preferences are inferred.
+ *
+ * Personalized and similar lists rank with item-item co-occurrence across
+ * all shoppers, aggregated by get_co_occurrence for the products in play.
+ *
+ * Shoppers who allowed personalization are assigned a variant of the running
+ * experiment, if any: it picks the strategy and prompt instructions for
+ * personalized lists, is returned as `experiment`, and every served list is
+ * logged in recommendation_serves for the experiment report.
+ *
+ * Every response carries a fresh requestId. The client reports impressions,
+ * clicks and cart adds with it and the card's slot, which attributes them to
+ * this list and position.
+ *
+ * Under the "bandit" strategy, personalized lists blend the content,
+ * collaborative, trending and similar sources with weights sampled from the
+ * shopper's segment's arms, and are never cached. Each served list's sources
+ * are logged in bandit_serves so POST /api/recommendations/bandit can learn
+ * from them.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const type = (searchParams.get("type") ?? "personalized") as RecommendationType;
+  // Whole numbers from 1 to MAX_LIMIT; anything unparseable gets the default
+  const limit = Math.min(Math.max(Math.trunc(Number(searchParams.get("limit"))) || 10, 1), MAX_LIMIT);
+  const refresh = searchParams.get("refresh") === "1";
+  const category = searchParams.get("category") ?? undefined;
+
+  if (!RECOMMENDATION_TYPES.includes(type)) {
+    return errorResponse(`Unknown recommendation type "${type}"`, 400);
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return errorResponse("Not authenticated", 401);
+  }
+
+  try {
+    const cache = new RecommendationCache(supabase);
+    const catalog = await loadCatalog();
+    const personalize = allowsPersonalization(await loadConsent(supabase, user.id, request.cookies));
+    const preferences = personalize
+      ? await loadFreshUserPreferences(supabase, user.id, catalog)
+      : await loadUserPreferences(supabase, user.id);
+    const { suppressed } = collectFeedbackPenalties(
+      preferences.negativeFeedback ?? preferences.interactionHistory,
+      catalog
+    );
+    const isAllowed = (productId: string) => !suppressed.has(productId);
+    const products = withoutBlocked(catalog.products, preferences).filter((p) => isAllowed(p.id));
+    const sourceProductId =
+      type === "similar"
+        ? // Default to the product the user interacted with most recently
+          searchParams.get("productId") ?? (personalize ? preferences.interactionHistory[0]?.productId : undefined)
+        : undefined;
+    const personalized = type === "personalized" ? personalize : undefined;
+    const assignment = personalize ? getAssignment(user.id) : null;
+    const experiment = assignment
+      ? { experimentId: assignment.experimentId, variant: assignment.variant }
+      : undefined;
+    const variant = assignment?.settings;
+    const banditSegment =
+      personalized && (variant?.strategy ?? aiRecommendationService.getStrategy()) === "bandit"
+        ? segmentOf(preferences.interactionHistory)
+        : undefined;
+    const requestId = crypto.randomUUID();
+    const serve = async (served: Recommendation[]) => {
+      if (!experiment && !banditSegment) return;
+      const serviceRole = createServiceRoleClient();
+      if (experiment) {
+        await recordServe(serviceRole, user.id, experiment, type, served.map((rec) => rec.productId), requestId);
+      }
+      if (banditSegment) {
+        await recordBanditServe(serviceRole, user.id, requestId, banditSegment, served);
+      }
+    };
+
+    // Per-category and non-personalized lists are cheap to recompute and are not cached.
+    // Nor are bandit lists: each request samples a fresh blend, and a cached
+    // list would come back in score order rather than the order it was blended.
+    const cacheable = !category && personalized !== false && !banditSegment;
+
+    if (!refresh && cacheable) {
+      const cached = await cache.get(user.id, type, sourceProductId);
+      // Trending lists are shared activity and may predate a dismissal
+      const allowed = cached?.recommendations.filter((rec) => isAllowed(rec.productId));
+      const sameVariant =
+        cached?.experiment?.experimentId === experiment?.experimentId &&
+        cached?.experiment?.variant === experiment?.variant;
+      if (cached && allowed && allowed.length >= limit && sameVariant) {
+        await serve(allowed.slice(0, limit));
+        return NextResponse.json<RecommendationsResponse>({
+          type,
+          requestId,
+          recommendations: allowed.slice(0, limit),
+          sourceProductId,
+          cached: true,
+          generatedAt: cached.createdAt.toISOString(),
+          personalized,
+          experiment,
+        });
+      }
+    }
+
+    let recommendations;
+    let metrics: PipelineMetrics | undefined;
+
+    const loadTrendingScores = () =>
+      fetchTrendingScores(supabase, { limit: MAX_LIMIT, category }).catch((error) => {
+        console.error("Error loading trending scores:", error);
+        return [];
+      });
+    const loadCoOccurrence = (productIds: string[]) =>
+      fetchCoOccurrence(supabase, productIds).catch((error) => {
+        console.error("Error loading co-occurrence:", error);
+        return [];
+      });
+
+    switch (type) {
+      case "personalized": {
+        if (!personalize) {
+          recommendations = aiRecommendationService.getNonPersonalizedRecommendations(
+            products,
+            limit,
+            await loadTrendingScores(),
+          );
+          break;
+        }
+        const service = variant?.promptInstructions
+          ? aiRecommendationService.withPromptInstructions(variant.promptInstructions)
+          : aiRecommendationService;
+        const anchors = [
+          ...new Set(
+            preferences.interactionHistory
+              .filter((i) => INTERACTION_WEIGHTS[i.interactionType] !== 0)
+              .map((i) => i.productId),
+          ),
+        ].slice(0, CO_OCCURRENCE_ANCHORS);
+        const coOccurrence = await loadCoOccurrence(anchors);
+        ({ recommendations, metrics } = await service.generateRecommendationsWithMetrics(
+          user.id,
+          products,
+          preferences,
+          limit,
+          banditSegment
+            ? {
+                strategy: variant?.strategy,
+                coOccurrence,
+                blendWeights: sampleWeights(await loadBanditArms(supabase, banditSegment)),
+                trendingScores: await loadTrendingScores(),
+              }
+            : { strategy: variant?.strategy, coOccurrence },
+        ));
+        break;
+      }
+      case "trending": {
+        recommendations = await aiRecommendationService.getTrendingProducts(
+          category ? products.filter((p) => p.category === category) : products,
+          limit,
+          await loadTrendingScores(),
+        );
+        break;
+      }
+      case "similar": {
+        const target = sourceProductId ? catalog.get(sourceProductId) : undefined;
+        if (searchParams.get("productId") && !target) {
+          return errorResponse(`Unknown product "${sourceProductId}"`, 404);
+        }
+        recommendations = target
+          ? await aiRecommendationService.getSimilarProducts(
+              target,
+              products,
+              limit,
+              await loadCoOccurrence([target.id]),
+            )
+          : [];
+        break;
+      }
+    }
+
+    if (cacheable) {
+      await cache.set(user.id, type, recommendations, sourceProductId, experiment);
+    }
+    await serve(recommendations);
+
+    return NextResponse.json<RecommendationsResponse>({
+      type,
+      requestId,
+      recommendations,
+      sourceProductId,
+      cached: false,
+      generatedAt: new Date().toISOString(),
+      metrics,
+      personalized,
+      experiment,
+    });
+  } catch (error) {
+    console.error("Error serving recommendations:", error);
+    return errorResponse("Failed to generate recommendations", 500);
+  }
+}
@@ -1,7 +1,9 @@
 import { createClient } from "@/lib/supabase/server";
+import { clearAnonymousId, readAnonymousId } from "@/lib/anonymous-id";
+import { mergeAnonymousHistory } from "@/lib/anonymous-history";
 import { type EmailOtpType } from "@supabase/supabase-js";
 import { redirect } from "next/navigation";
-import { type NextRequest } from "next/server";
+import { NextResponse, type NextRequest } from "next/server";
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -12,11 +14,28 @@ export async function GET(request: NextRequest) {
   if (token_hash && type) {
     const supabase = await createClient();
 
-    const { error } = await supabase.auth.verifyOtp({
+    const { data, error } = await supabase.auth.verifyOtp({
       type,
       token_hash,
     });
     if (!error) {
+      // A newly confirmed account picks up what the visitor did before signing up
+      const anonymousId = readAnonymousId(request.cookies);
+      if (data.user && anonymousId) {
+        const merged = await mergeAnonymousHistory(supabase, data.user.id, anonymousId).then(
+          () => true,
+          (mergeError) => {
+            console.error("Error merging anonymous history:", mergeError);
+            return false;
+          },
+        );
+        if (merged) {
+          // Later signed-out activity must not land under the merged visitor ID
+          const response = NextResponse.redirect(new URL(next, request.url));
+          clearAnonymousId(response);
+          return response;
+        }
+      }
       // redirect user to specified redirect URL or root of app
       redirect(next);
     } else {
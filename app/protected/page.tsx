@@ -3,6 +3,11 @@ import { redirect } from "next/navigation";
 import { createClient } from "@/lib/supabase/server";
 import { InfoIcon } from "lucide-react";
 import { FetchDataSteps } from "@/components/tutorial/fetch-data-steps";
+import { AccountDataControls } from "@/components/account-data-controls";
+import { AnalyticsDashboard } from "@/components/analytics-dashboard";
+import { listDataRequests } from "@/lib/account-data";
+import { loadCatalog } from "@/lib/catalog";
+import { loadUserAnalytics } from "@/lib/user-analytics";
 
 export default async function ProtectedPage() {
   const supabase = await createClient();
@@ -12,6 +17,18 @@ export default async function ProtectedPage() {
     redirect("/auth/login");
   }
 
+  const requests = await listDataRequests(supabase, data.user.id).catch((error) => {
+    console.error("Error loading data requests:", error);
+    return [];
+  });
+
+  const analytics = await loadCatalog()
+    .then((catalog) => loadUserAnalytics(supabase, data.user.id, catalog, data.user.created_at))
+    .catch((error) => {
+      console.error("Error computing analytics:", error);
+      return null;
+    });
+
   return (
     <div className="flex-1 w-full flex flex-col gap-12">
       <div className="w-full">
@@ -27,6 +44,8 @@ export default async function ProtectedPage() {
           {JSON.stringify(data.user, null, 2)}
         </pre>
       </div>
+      {analytics && <AnalyticsDashboard analytics={analytics} />}
+      <AccountDataControls requests={requests} />
       <div>
         <h2 className="font-bold text-2xl mb-4">Next steps</h2>
         <FetchDataSteps />
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, Loader2, Trash2 } from "lucide-react";
+import { interactionTracker } from "@/lib/interaction-tracker";
+import { ERASURE_CONFIRMATION, type DataRequestRecord } from "@/lib/account-data";
+
+/**
+ * Data export downloads, a two-step erasure confirmation, and the user's
+ * audit trail of past requests
+ */
+export function AccountDataControls({ requests }: { requests: DataRequestRecord[] }) {
+  const router = useRouter();
+  const [confirming, setConfirming] = useState(false);
+  const [confirmation, setConfirmation] = useState("");
+  const [erasing, setErasing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const erase = async () => {
+    setErasing(true);
+    setMessage(null);
+    try {
+      const { deleted } = await interactionTracker.eraseUserData(confirmation);
+      const total = Object.values(deleted).reduce((sum, count) => sum + count, 0);
+      setMessage(`Erased ${total} records.`);
+      setConfirming(false);
+      setConfirmation("");
+      // Reload the audit trail
+      router.refresh();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Failed to erase your data");
+    } finally {
+      setErasing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your data</CardTitle>
+        <CardDescription>
+          Download or erase your interactions, preferences and cached recommendations.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-6">
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            {/* Refresh afterwards so the new audit entry shows */}
+            <a href={interactionTracker.getExportUrl("json")} download onClick={() => setTimeout(() => router.refresh(), 1000)}>
+              <Download className="w-4 h-4 mr-2" />
+              Export JSON
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={interactionTracker.getExportUrl("csv")} download onClick={() => setTimeout(() => router.refresh(), 1000)}>
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+
+        {!confirming ? (
+          <div>
+            <Button variant="destructive" size="sm" onClick={() => setConfirming(true)}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Erase my data
+            </Button>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-2 rounded-md border border-red-500/50 p-4">
+            <Label htmlFor="erase-confirmation">
+              This permanently deletes your interaction history, preferences and recommendations.
+              Type <span className="font-mono font-semibold">{ERASURE_CONFIRMATION}</span> to confirm.
+            </Label>
+            <Input
+              id="erase-confirmation"
+              value={confirmation}
+              autoComplete="off"
+              onChange={event => setConfirmation(event.target.value)}
+            />
+            <div className="flex gap-2">
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={erasing || confirmation !== ERASURE_CONFIRMATION}
+                onClick={erase}
+              >
+                {erasing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Permanently erase
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={erasing}
+                onClick={() => {
+                  setConfirming(false);
+                  setConfirmation("");
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+        <div className="flex flex-col gap-2">
+          <h3 className="font-semibold text-sm">Request history</h3>
+          {requests.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No exports or erasures yet.</p>
+          ) : (
+            <table className="text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="font-normal pr-4">Date</th>
+                  <th className="font-normal pr-4">Request</th>
+                  <th className="font-normal">Records</th>
+                </tr>
+              </thead>
+              <tbody>
+                {requests.map(request => (
+                  <tr key={request.id}>
+                    <td className="pr-4">{new Date(request.requestedAt).toLocaleString()}</td>
+                    <td className="pr-4">
+                      {request.requestType === "export" ? `Export (${request.format?.toUpperCase()})` : "Erasure"}
+                    </td>
+                    <td>{Object.values(request.recordCounts).reduce((sum, count) => sum + count, 0)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { Affinity, UserAnalytics } from "@/lib/user-analytics";
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="flex flex-col">
+      <span className="text-2xl font-bold">{value}</span>
+      <span className="text-sm text-muted-foreground">{label}</span>
+    </div>
+  );
+}
+
+function AffinityList({ title, affinities }: { title: string; affinities: Affinity[] }) {
+  return (
+    <div className="flex flex-col gap-2">
+      <h3 className="font-medium">{title}</h3>
+      {affinities.length === 0 && <p className="text-sm text-muted-foreground">No activity yet.</p>}
+      {affinities.map(affinity => (
+        <div key={affinity.value} className="flex flex-col gap-1">
+          <div className="flex justify-between text-sm">
+            <span>{affinity.value}</span>
+            <span className="text-muted-foreground">
+              {percent(affinity.share)} · {affinity.interactions} interactions
+            </span>
+          </div>
+          <div className="h-2 rounded bg-muted">
+            <div className="h-2 rounded bg-primary" style={{ width: percent(affinity.share) }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * The signed-in user's shopping analytics: activity, sessions, the
+ * view -> cart -> purchase funnel, and category and brand affinity
+ */
+export function AnalyticsDashboard({ analytics }: { analytics: UserAnalytics }) {
+  const { sessions, funnel } = analytics;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your shopping activity</CardTitle>
+        <CardDescription>
+          {analytics.firstInteractionAt
+            ? analytics.truncated
+              ? `Based on your ${analytics.totalInteractions} most recent interactions, since ${new Date(analytics.firstInteractionAt).toLocaleDateString()}; older activity is not included.`
+              : `Based on ${analytics.totalInteractions} interactions since ${new Date(analytics.firstInteractionAt).toLocaleDateString()}.`
+            : "No recorded activity yet."}
+          {analytics.accountCreatedAt &&
+            ` Member since ${new Date(analytics.accountCreatedAt).toLocaleDateString()}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Stat label="Interactions this week" value={analytics.recentActivity} />
+          <Stat label="Sessions" value={sessions.count} />
+          <Stat label="Avg. session length" value={formatDuration(sessions.avgDurationMs)} />
+          <Stat label="Avg. interactions per session" value={sessions.avgInteractions} />
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <h3 className="font-medium">Funnel</h3>
+          <div className="grid grid-cols-3 gap-4">
+            <Stat label="Products viewed" value={funnel.viewed} />
+            <Stat label={`Added to cart (${percent(funnel.viewToCartRate)} of viewed)`} value={funnel.addedToCart} />
+            <Stat label={`Purchased (${percent(funnel.cartToPurchaseRate)} of carted)`} value={funnel.purchased} />
+          </div>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <AffinityList title="Top categories" affinities={analytics.categoryAffinity} />
+          <AffinityList title="Top brands" affinities={analytics.brandAffinity} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -40,6 +40,9 @@ export function AuthButton() {
   return user ? (
     <div className="flex items-center gap-4">
       Hey, {user.email}!
+      <Link href="/account/preferences" className="hover:underline">
+        Preferences
+      </Link>
       <LogoutButton />
     </div>
   ) : (
@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { interactionTracker } from "@/lib/interaction-tracker";
+import { readBrowserConsent, type ConsentMode } from "@/lib/consent";
+
+const CHOICES: { mode: ConsentMode; label: string; variant: "default" | "outline" }[] = [
+  { mode: "none", label: "Reject all", variant: "outline" },
+  { mode: "essential", label: "Essential only", variant: "outline" },
+  { mode: "personalization", label: "Allow personalization", variant: "default" }
+];
+
+/**
+ * Asks for tracking consent until the shopper has chosen. A choice already
+ * stored on their account is picked up without showing the banner.
+ */
+export function ConsentBanner() {
+  const [visible, setVisible] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (readBrowserConsent()) {
+      return;
+    }
+    interactionTracker.getConsent().then(mode => setVisible(mode === null));
+  }, []);
+
+  const choose = async (mode: ConsentMode) => {
+    setSaving(true);
+    try {
+      await interactionTracker.setConsent(mode);
+      setVisible(false);
+    } catch (error) {
+      console.error('Error saving consent:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-50 border-t bg-background p-4 shadow-lg">
+      <div className="max-w-5xl mx-auto flex flex-col md:flex-row md:items-center gap-4 text-sm">
+        <p className="flex-1">
+          We record how you browse to improve recommendations. <strong>Essential only</strong> keeps
+          just your likes, cart and purchases; <strong>Allow personalization</strong> also uses your
+          browsing to tailor suggestions. With <strong>Reject all</strong>, we only count product
+          activity anonymously. Signed-in shoppers can change this anytime under Preferences.
+        </p>
+        <div className="flex gap-2">
+          {CHOICES.map(choice => (
+            <Button
+              key={choice.mode}
+              size="sm"
+              variant={choice.variant}
+              disabled={saving}
+              onClick={() => choose(choice.mode)}
+            >
+              {choice.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
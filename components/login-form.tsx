@@ -2,6 +2,7 @@
 
 import { cn } from "@/lib/utils";
 import { createClient } from "@/lib/supabase/client";
+import { interactionTracker } from "@/lib/interaction-tracker";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -38,6 +39,8 @@ export function LoginForm({
         password,
       });
       if (error) throw error;
+      // Carry browsing done while signed out into the account before the first authenticated page
+      await interactionTracker.claimAnonymousHistory();
       // Update this route to redirect to an authenticated route. The user already has an active session.
       router.push("/protected");
     } catch (error: unknown) {
@@ -0,0 +1,379 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Ban, Loader2, Pin, RotateCcw, X } from "lucide-react";
+import { loadCatalog } from "@/lib/catalog";
+import { interactionTracker, type UserPreference } from "@/lib/interaction-tracker";
+import type { ConsentMode } from "@/lib/consent";
+
+type Choice = "pinned" | "neutral" | "blocked";
+
+interface EditablePreferences {
+  pinnedCategories: string[];
+  blockedCategories: string[];
+  pinnedBrands: string[];
+  blockedBrands: string[];
+  priceRange: [number, number];
+  features: string[];
+}
+
+const CONSENT_OPTIONS: { mode: ConsentMode; label: string; description: string }[] = [
+  { mode: "none", label: "No tracking", description: "Only anonymous product counts; recommendations show popular products." },
+  { mode: "essential", label: "Essential", description: "Likes, cart, purchases and feedback are kept; browsing is not." },
+  { mode: "personalization", label: "Personalized", description: "Your browsing and actions tailor your recommendations." }
+];
+
+const EMPTY: EditablePreferences = {
+  pinnedCategories: [],
+  blockedCategories: [],
+  pinnedBrands: [],
+  blockedBrands: [],
+  priceRange: [0, 3000],
+  features: []
+};
+
+function toEditable(preferences: UserPreference): EditablePreferences {
+  // Edit what the user set, not the values combined with inferred ones
+  const explicit = preferences.explicit || preferences;
+  return {
+    pinnedCategories: explicit.preferredCategories,
+    blockedCategories: preferences.blockedCategories || [],
+    pinnedBrands: explicit.preferredBrands,
+    blockedBrands: preferences.blockedBrands || [],
+    priceRange: explicit.priceRange,
+    features: explicit.preferredFeatures
+  };
+}
+
+function setChoice(pinned: string[], blocked: string[], value: string, choice: Choice): [string[], string[]] {
+  const without = (list: string[]) => list.filter(item => item !== value);
+  return [
+    choice === "pinned" ? [...without(pinned), value] : without(pinned),
+    choice === "blocked" ? [...without(blocked), value] : without(blocked)
+  ];
+}
+
+function ChoiceList({
+  values,
+  pinned,
+  blocked,
+  onChange
+}: {
+  values: string[];
+  pinned: string[];
+  blocked: string[];
+  onChange: (value: string, choice: Choice) => void;
+}) {
+  return (
+    <div className="flex flex-col divide-y">
+      {values.map(value => {
+        const choice: Choice = pinned.includes(value) ? "pinned" : blocked.includes(value) ? "blocked" : "neutral";
+        return (
+          <div key={value} className="flex items-center justify-between py-2">
+            <span className={choice === "blocked" ? "text-muted-foreground line-through" : ""}>{value}</span>
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant={choice === "pinned" ? "default" : "outline"}
+                onClick={() => onChange(value, choice === "pinned" ? "neutral" : "pinned")}
+              >
+                <Pin className="w-3 h-3 mr-1" />
+                Pin
+              </Button>
+              <Button
+                size="sm"
+                variant={choice === "blocked" ? "destructive" : "outline"}
+                onClick={() => onChange(value, choice === "blocked" ? "neutral" : "blocked")}
+              >
+                <Ban className="w-3 h-3 mr-1" />
+                Block
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Shows what the recommender knows about the user and lets them pin or block
+ * categories and brands, set a price range and features, and reset what was
+ * inferred from their activity
+ */
+export function PreferenceCenter() {
+  const [preferences, setPreferences] = useState<UserPreference | null>(null);
+  const [editable, setEditable] = useState<EditablePreferences>(EMPTY);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [brands, setBrands] = useState<string[]>([]);
+  const [newFeature, setNewFeature] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [consent, setConsent] = useState<ConsentMode | null>(null);
+
+  useEffect(() => {
+    interactionTracker.getConsent().then(setConsent);
+
+    interactionTracker.getUserPreferences()
+      .then(loaded => {
+        setPreferences(loaded);
+        setEditable(toEditable(loaded));
+      })
+      .catch(error => console.error('Error loading preferences:', error));
+
+    loadCatalog()
+      .then(catalog => {
+        setCategories(catalog.categories());
+        setBrands(catalog.brands());
+      })
+      .catch(error => console.error('Error loading products:', error));
+  }, []);
+
+  // A reset writes nothing but the reset itself, so unsaved edits are not
+  // stored along with it
+  const save = async (resetInferred: boolean = false) => {
+    setSaving(true);
+    setMessage(null);
+
+    const saved = resetInferred
+      ? await interactionTracker.updateUserPreferences({}, { resetInferred: true })
+      : await interactionTracker.updateUserPreferences({
+          preferredCategories: editable.pinnedCategories,
+          preferredBrands: editable.pinnedBrands,
+          blockedCategories: editable.blockedCategories,
+          blockedBrands: editable.blockedBrands,
+          priceRange: editable.priceRange,
+          preferredFeatures: editable.features
+        });
+
+    if (saved) {
+      const reloaded = await interactionTracker.getUserPreferences();
+      setPreferences(reloaded);
+      setEditable(toEditable(reloaded));
+      setMessage(resetInferred ? "Inferred preferences reset." : "Preferences saved.");
+    } else {
+      setMessage("Could not save your preferences. Please try again.");
+    }
+    setSaving(false);
+  };
+
+  const changeConsent = async (mode: ConsentMode) => {
+    try {
+      await interactionTracker.setConsent(mode);
+      setConsent(mode);
+      setMessage("Tracking choice saved.");
+    } catch (error) {
+      console.error('Error saving consent:', error);
+      setMessage("Could not save your tracking choice. Please try again.");
+    }
+  };
+
+  const addFeature = () => {
+    const feature = newFeature.trim();
+    if (feature && !editable.features.includes(feature)) {
+      setEditable(prev => ({ ...prev, features: [...prev.features, feature] }));
+    }
+    setNewFeature("");
+  };
+
+  const setPrice = (index: 0 | 1, value: string) => {
+    const price = Math.max(0, Number(value) || 0);
+    setEditable(prev => {
+      const priceRange: [number, number] = [...prev.priceRange];
+      priceRange[index] = price;
+      return { ...prev, priceRange };
+    });
+  };
+
+  if (!preferences) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const inferred = preferences.inferred;
+  const invalidRange = editable.priceRange[0] > editable.priceRange[1];
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div>
+        <h1 className="text-2xl font-bold">Your preferences</h1>
+        <p className="text-muted-foreground">
+          Pinned categories and brands are favored in every recommendation list; blocked ones never appear.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>What we think you like</CardTitle>
+          <CardDescription>
+            {inferred?.inferredAt
+              ? `Inferred from your recent activity, last updated ${inferred.inferredAt.toLocaleString()}.`
+              : "Nothing inferred yet. Browse the catalog and this fills in from your activity."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3">
+          <div className="flex flex-wrap gap-2">
+            {inferred?.preferredCategories.map(category => <Badge key={category} variant="secondary">{category}</Badge>)}
+            {inferred?.preferredBrands.map(brand => <Badge key={brand} variant="outline">{brand}</Badge>)}
+            {inferred?.preferredFeatures.map(feature => <Badge key={feature} variant="outline">{feature}</Badge>)}
+          </div>
+          {inferred && inferred.preferredCategories.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Typical price range: ${inferred.priceRange[0]} - ${inferred.priceRange[1]}
+            </p>
+          )}
+          <div>
+            <Button variant="outline" size="sm" disabled={saving || invalidRange} onClick={() => save(true)}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset inferred preferences
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Categories</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChoiceList
+              values={categories}
+              pinned={editable.pinnedCategories}
+              blocked={editable.blockedCategories}
+              onChange={(value, choice) => {
+                const [pinnedCategories, blockedCategories] =
+                  setChoice(editable.pinnedCategories, editable.blockedCategories, value, choice);
+                setEditable(prev => ({ ...prev, pinnedCategories, blockedCategories }));
+              }}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Brands</CardTitle>
+          </CardHeader>
+          <CardContent className="max-h-96 overflow-auto">
+            <ChoiceList
+              values={brands}
+              pinned={editable.pinnedBrands}
+              blocked={editable.blockedBrands}
+              onChange={(value, choice) => {
+                const [pinnedBrands, blockedBrands] =
+                  setChoice(editable.pinnedBrands, editable.blockedBrands, value, choice);
+                setEditable(prev => ({ ...prev, pinnedBrands, blockedBrands }));
+              }}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Price range and features</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          <div className="flex items-end gap-4">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="price-min">Min price ($)</Label>
+              <Input
+                id="price-min"
+                type="number"
+                min={0}
+                value={editable.priceRange[0]}
+                onChange={event => setPrice(0, event.target.value)}
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="price-max">Max price ($)</Label>
+              <Input
+                id="price-max"
+                type="number"
+                min={0}
+                value={editable.priceRange[1]}
+                onChange={event => setPrice(1, event.target.value)}
+              />
+            </div>
+          </div>
+          {invalidRange && <p className="text-sm text-red-500">Min price must not exceed max price.</p>}
+
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="feature">Features you look for</Label>
+            <div className="flex gap-2">
+              <Input
+                id="feature"
+                placeholder="e.g. Noise cancellation"
+                value={newFeature}
+                onChange={event => setNewFeature(event.target.value)}
+                onKeyDown={event => {
+                  if (event.key === "Enter") {
+                    event.preventDefault();
+                    addFeature();
+                  }
+                }}
+              />
+              <Button variant="outline" onClick={addFeature}>Add</Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {editable.features.map(feature => (
+                <Badge key={feature} variant="secondary" className="gap-1">
+                  {feature}
+                  <button
+                    aria-label={`Remove ${feature}`}
+                    onClick={() => setEditable(prev => ({
+                      ...prev,
+                      features: prev.features.filter(item => item !== feature)
+                    }))}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tracking</CardTitle>
+          <CardDescription>Choose what we may record about your shopping.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-2">
+          {CONSENT_OPTIONS.map(option => (
+            <label key={option.mode} className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="radio"
+                name="consent"
+                className="mt-1"
+                checked={consent === option.mode}
+                onChange={() => changeConsent(option.mode)}
+              />
+              <span>
+                <span className="font-medium">{option.label}</span>
+                <span className="block text-sm text-muted-foreground">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center gap-4">
+        <Button disabled={saving || invalidRange} onClick={() => save()}>
+          {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save preferences
+        </Button>
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+      </div>
+    </div>
+  );
+}
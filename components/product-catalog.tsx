@@ -16,114 +16,13 @@ import {
 } from "@/components/ui/dropdown-menu";
 import Image from "next/image";
 import { interactionTracker } from '@/lib/interaction-tracker';
-
-// Product interface based on our JSON structure
-interface Product {
-  id: string;
-  name: string;
-  category: string;
-  subcategory: string;
-  price: number;
-  originalPrice: number;
-  description: string;
-  image: string;
-  ratings: {
-    average: number;
-    count: number;
-  };
-  features: string[];
-  inStock: boolean;
-  tags: string[];
-  brand: string;
-  sizes?: string[];
-  author?: string;
-}
+import { loadCatalog, type Product } from '@/lib/catalog';
 
 interface ProductCatalogProps {
   onProductInteraction: (productId: string, interactionType: string) => void;
   userId?: string;
 }
 
-// Fallback products in case JSON fails to load
-const fallbackProducts: Product[] = [
-  {
-    id: "1",
-    name: "iPhone 15 Pro",
-    category: "Electronics",
-    subcategory: "Smartphones",
-    price: 999.99,
-    originalPrice: 1099.99,
-    description: "The iPhone 15 Pro features the powerful A17 Pro chip, professional camera system with 3x telephoto zoom, and titanium design.",
-    image: "https://images.unsplash.com/photo-1592286968481-d7b5b5b7e1c0?w=500&h=500&fit=crop",
-    ratings: { average: 4.8, count: 2547 },
-    features: ["A17 Pro chip", "48MP camera", "Titanium design", "5G connectivity"],
-    inStock: true,
-    tags: ["apple", "smartphone", "premium", "photography"],
-    brand: "Apple"
-  },
-  {
-    id: "2",
-    name: "Samsung Galaxy S24 Ultra",
-    category: "Electronics",
-    subcategory: "Smartphones",
-    price: 1199.99,
-    originalPrice: 1299.99,
-    description: "Samsung's flagship smartphone with S Pen, 200MP camera, and Galaxy AI features.",
-    image: "https://images.unsplash.com/photo-1610945265064-0e34e5519bbf?w=500&h=500&fit=crop",
-    ratings: { average: 4.7, count: 1823 },
-    features: ["S Pen included", "200MP camera", "Galaxy AI", "5000mAh battery"],
-    inStock: true,
-    tags: ["samsung", "smartphone", "premium", "productivity"],
-    brand: "Samsung"
-  },
-  {
-    id: "3",
-    name: "MacBook Pro 14-inch M3",
-    category: "Electronics",
-    subcategory: "Laptops",
-    price: 1999.99,
-    originalPrice: 2199.99,
-    description: "The MacBook Pro with M3 chip delivers exceptional performance for professionals.",
-    image: "https://images.unsplash.com/photo-1517336714731-489689fd1ca8?w=500&h=500&fit=crop",
-    ratings: { average: 4.9, count: 1456 },
-    features: ["M3 chip", "14-inch Liquid Retina XDR", "22-hour battery", "16GB RAM"],
-    inStock: true,
-    tags: ["apple", "laptop", "professional", "performance"],
-    brand: "Apple"
-  },
-  {
-    id: "4",
-    name: "Sony WH-1000XM5 Headphones",
-    category: "Electronics",
-    subcategory: "Audio",
-    price: 399.99,
-    originalPrice: 449.99,
-    description: "Industry-leading noise canceling headphones with exceptional sound quality.",
-    image: "https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=500&h=500&fit=crop",
-    ratings: { average: 4.6, count: 3241 },
-    features: ["Active Noise Canceling", "30-hour battery", "Multipoint connection", "Quick charge"],
-    inStock: true,
-    tags: ["sony", "headphones", "noise-canceling", "premium"],
-    brand: "Sony"
-  },
-  {
-    id: "5",
-    name: "Nike Air Max 270",
-    category: "Clothing & Shoes",
-    subcategory: "Sneakers",
-    price: 150.00,
-    originalPrice: 180.00,
-    description: "Lifestyle sneaker with large Air unit in the heel for all-day comfort.",
-    image: "https://images.unsplash.com/photo-1542291026-7eec264c27ff?w=500&h=500&fit=crop",
-    ratings: { average: 4.4, count: 5632 },
-    features: ["Air Max technology", "Breathable mesh", "Durable rubber sole", "Iconic design"],
-    inStock: true,
-    tags: ["nike", "sneakers", "comfort", "lifestyle"],
-    brand: "Nike",
-    sizes: ["7", "8", "9", "10", "11", "12"]
-  }
-];
-
 export function ProductCatalog({ onProductInteraction }: ProductCatalogProps) {
   const [products, setProducts] = useState<Product[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
@@ -137,35 +36,25 @@ export function ProductCatalog({ onProductInteraction }: ProductCatalogProps) {
   const [likedProducts, setLikedProducts] = useState<Set<string>>(new Set());
   const [cartItems, setCartItems] = useState<Set<string>>(new Set());
 
-  // Load products from JSON file
+  // Load products from the shared catalog
   useEffect(() => {
     const loadProducts = async () => {
       try {
         setLoading(true);
         setError(null);
         
-        const response = await fetch('/data/products.json');
-        if (!response.ok) {
-          throw new Error(`Failed to load products: ${response.status}`);
-        }
-        
-        const productsData = await response.json();
+        const catalog = await loadCatalog();
         
-        if (!Array.isArray(productsData) || productsData.length === 0) {
+        if (catalog.size === 0) {
           throw new Error('Invalid products data format');
         }
         
-        setProducts(productsData);
-        setFilteredProducts(productsData);
-        console.log('✅ Products loaded successfully:', productsData.length, 'products');
+        setProducts(catalog.products);
+        setFilteredProducts(catalog.products);
+        console.log('✅ Products loaded successfully:', catalog.size, 'products');
       } catch (err) {
         console.error('❌ Error loading products:', err);
         setError(err instanceof Error ? err.message : 'Failed to load products');
-        
-        // Use fallback products
-        setProducts(fallbackProducts);
-        setFilteredProducts(fallbackProducts);
-        console.log('🔄 Using fallback products:', fallbackProducts.length, 'products');
       } finally {
         setLoading(false);
       }
@@ -194,7 +83,7 @@ export function ProductCatalog({ onProductInteraction }: ProductCatalogProps) {
 
   // Filter and sort products
   useEffect(() => {
-    let filtered = products;
+    let filtered = [...products];
 
     // Apply search filter
     if (searchQuery) {
@@ -419,7 +308,7 @@ export function ProductCatalog({ onProductInteraction }: ProductCatalogProps) {
         </p>
         {error && (
           <div className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
-            {error} (Using sample products)
+            {error}
           </div>
         )}
       </div>
@@ -1,39 +1,52 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Sparkles, TrendingUp, Heart, Lightbulb, RefreshCw, ShoppingCart, Star, Loader2 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Sparkles, TrendingUp, Heart, Lightbulb, RefreshCw, ShoppingCart, Star, Loader2, X } from "lucide-react";
 import Image from "next/image";
+import type { Recommendation } from "@/lib/recommendation-schema";
+import { loadCatalog, type Product } from "@/lib/catalog";
+import { fetchRecommendations, RECOMMENDATION_TYPES, type RecommendationType } from "@/lib/recommendation-api";
+import { interactionTracker } from "@/lib/interaction-tracker";
+import type { NegativeFeedbackReason, NegativeInteractionType } from "@/lib/negative-feedback";
 
-// Product interface
-interface Product {
-  id: string;
-  name: string;
-  category: string;
-  subcategory: string;
-  price: number;
-  originalPrice: number;
-  description: string;
-  image: string;
-  ratings: {
-    average: number;
-    count: number;
-  };
-  features: string[];
-  inStock: boolean;
-  tags: string[];
-  brand: string;
-}
+// Share of a card that must be on screen before it counts as an impression
+const IMPRESSION_THRESHOLD = 0.5;
+
+/**
+ * Ref for an element that calls onVisible the first time enough of it is on
+ * screen
+ */
+function useImpression<T extends Element>(onVisible: () => void) {
+  const ref = useRef<T>(null);
+  const callback = useRef(onVisible);
+  callback.current = onVisible;
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || typeof IntersectionObserver === "undefined") return;
 
-// Recommendation interface
-interface Recommendation {
-  productId: string;
-  score: number;
-  reason: string;
-  category: string;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        observer.disconnect();
+        callback.current();
+      }
+    }, { threshold: IMPRESSION_THRESHOLD });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  return ref;
 }
 
 interface RecommendationsProps {
@@ -52,112 +65,90 @@ export function Recommendations({
   isLoading = false 
 }: RecommendationsProps) {
   const [products, setProducts] = useState<Product[]>(initialProducts);
-  const [recommendations, setRecommendations] = useState<{
-    personalized: Recommendation[];
-    trending: Recommendation[];
-    similar: Recommendation[];
-  }>({
+  const [recommendations, setRecommendations] = useState<Record<RecommendationType, Recommendation[]>>({
     personalized: [],
     trending: [],
     similar: []
   });
-  // Loading states would be used for individual recommendation sections
-  const [loadingStates] = useState({
+  const [loadingStates, setLoadingStates] = useState<Record<RecommendationType, boolean>>({
     personalized: false,
     trending: false,
     similar: false
   });
+  const [errors, setErrors] = useState<Partial<Record<RecommendationType, string>>>({});
+  // requestId of the response each list came from, for impression and click attribution
+  const [requestIds, setRequestIds] = useState<Partial<Record<RecommendationType, string>>>({});
   const [likedProducts, setLikedProducts] = useState<Set<string>>(new Set());
   const [cartItems, setCartItems] = useState<Set<string>>(new Set());
+  // Products the user dismissed; hidden from every list right away
+  const [hiddenProducts, setHiddenProducts] = useState<Set<string>>(new Set());
+  // False when the shopper has not allowed personalization and popular products are shown
+  const [personalized, setPersonalized] = useState(true);
 
   // Load products if not provided
   useEffect(() => {
     if (initialProducts.length === 0) {
-      const loadProducts = async () => {
-        try {
-          const response = await fetch('/data/products.json');
-          if (response.ok) {
-            const productsData = await response.json();
-            setProducts(productsData);
-          }
-        } catch (error) {
-          console.error('Error loading products:', error);
-        }
-      };
-      loadProducts();
+      loadCatalog()
+        .then(catalog => setProducts(catalog.products))
+        .catch(error => console.error('Error loading products:', error));
     }
   }, [initialProducts]);
 
-  // Generate recommendations when products are available
+  // Load recommendations from the server when products are available
   useEffect(() => {
     if (products.length > 0) {
-      generateSmartRecommendations();
+      loadRecommendations();
     }
-  }, [products, userId]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [products, userId]);
 
-  const generateSmartRecommendations = () => {
-    // Generate smarter recommendations based on product data
-    const electronics = products.filter(p => p.category === "Electronics");
-    const clothing = products.filter(p => p.category === "Clothing & Shoes");
-    const books = products.filter(p => p.category === "Books");
-    // const home = products.filter(p => p.category === "Home & Garden");
+  const loadRecommendations = async (refresh: boolean = false) => {
+    setLoadingStates({ personalized: true, trending: true, similar: true });
+    setErrors({});
 
-    // Personalized recommendations - mix of high-rated products from different categories
-    const personalizedRecs: Recommendation[] = [
-      ...electronics.slice(0, 2).map(p => ({
-        productId: p.id,
-        score: Math.floor(p.ratings.average * 20),
-        reason: `Based on your tech interests - ${p.ratings.average}★ rated with ${p.features[0]}`,
-        category: "personalized"
-      })),
-      ...clothing.slice(0, 1).map(p => ({
-        productId: p.id,
-        score: Math.floor(p.ratings.average * 18),
-        reason: `Popular ${p.brand} ${p.subcategory.toLowerCase()} - great for your style`,
-        category: "personalized"
-      })),
-      ...books.slice(0, 1).map(p => ({
-        productId: p.id,
-        score: Math.floor(p.ratings.average * 19),
-        reason: `Perfect for personal growth - ${p.ratings.count}+ readers loved this`,
-        category: "personalized"
-      })),
-    ];
-
-    // Trending recommendations - highest rated products
-    const trendingRecs: Recommendation[] = products
-      .sort((a, b) => b.ratings.average - a.ratings.average)
-      .slice(0, 4)
-      .map(p => ({
-        productId: p.id,
-        score: Math.floor(p.ratings.average * 20),
-        reason: `${p.ratings.average}★ average with ${p.ratings.count} reviews - currently trending`,
-        category: "trending"
-      }));
+    if (refresh) {
+      // Make sure queued interactions are stored before regenerating
+      await interactionTracker.flushInteractions();
+    }
 
-    // Similar product recommendations - products within price range
-    const similarRecs: Recommendation[] = products
-      .filter(p => p.price > 100 && p.price < 1000)
-      .slice(0, 3)
-      .map(p => ({
-        productId: p.id,
-        score: Math.floor(85 + Math.random() * 15),
-        reason: `Similar to your browsing history - ${p.brand} ${p.subcategory}`,
-        category: "similar"
-      }));
+    // The three lists are independent, so request them in parallel
+    await Promise.all(RECOMMENDATION_TYPES.map(async (type) => {
+      try {
+        const response = await fetchRecommendations(type, { refresh });
+        setRecommendations(prev => ({ ...prev, [type]: response.recommendations }));
+        setRequestIds(prev => ({ ...prev, [type]: response.requestId }));
+        if (type === 'personalized') {
+          setPersonalized(response.personalized !== false);
+        }
+      } catch (error) {
+        console.error(`Error loading ${type} recommendations:`, error);
+        setErrors(prev => ({
+          ...prev,
+          [type]: error instanceof Error ? error.message : 'Failed to load recommendations'
+        }));
+      } finally {
+        setLoadingStates(prev => ({ ...prev, [type]: false }));
+      }
+    }));
+  };
 
-    setRecommendations({
-      personalized: personalizedRecs,
-      trending: trendingRecs,
-      similar: similarRecs
-    });
+  const handleRefresh = () => {
+    loadRecommendations(true);
+    onRefreshRecommendations();
   };
 
+  const productsById = useMemo(() => new Map(products.map(p => [p.id, p])), [products]);
+
   const getProductById = (productId: string): Product | undefined => {
-    return products.find(p => p.id === productId);
+    return productsById.get(productId);
   };
 
-  const handleInteraction = (productId: string, interactionType: string) => {
+  const handleInteraction = (
+    product: Product,
+    interactionType: 'view' | 'like' | 'cart_add',
+    recommendationType: RecommendationType,
+    slot: number
+  ) => {
+    const productId = product.id;
     // Update local state for visual feedback
     if (interactionType === 'like') {
       setLikedProducts(prev => {
@@ -177,109 +168,202 @@ export function Recommendations({
       });
     }
 
+    // Attributed to the list and slot so experiment and position reports can count clicks and cart adds
+    void interactionTracker.trackInteraction({
+      productId,
+      interactionType,
+      userId,
+      sessionId: 'current_session',
+      metadata: {
+        referrer: 'recommendations',
+        recommendationType,
+        requestId: requestIds[recommendationType],
+        slot,
+        category: product.category,
+        price: product.price
+      }
+    });
+
     // Call parent callback
     onProductInteraction(productId, interactionType);
     console.log(`✅ ${interactionType} interaction for product ${productId}`);
   };
 
+  const handleNegativeFeedback = (
+    product: Product,
+    interactionType: NegativeInteractionType,
+    reason?: NegativeFeedbackReason
+  ) => {
+    setHiddenProducts(prev => new Set(prev).add(product.id));
+
+    void interactionTracker.trackInteraction({
+      productId: product.id,
+      interactionType,
+      userId,
+      sessionId: 'current_session',
+      metadata: { reason, category: product.category, price: product.price }
+    });
+    onProductInteraction(product.id, interactionType);
+  };
+
   const RecommendationCard = ({ 
     recommendation, 
-    product 
+    product,
+    type,
+    slot
   }: { 
     recommendation: Recommendation; 
-    product: Product 
-  }) => (
-    <Card className="group hover:shadow-lg transition-all duration-300 cursor-pointer">
-      <CardHeader className="p-0">
-        <div className="relative overflow-hidden rounded-t-lg">
-          <Image
-            src={product.image}
-            alt={product.name}
-            width={250}
-            height={200}
-            className="w-full h-32 object-cover group-hover:scale-105 transition-transform duration-300"
-          />
-          <div className="absolute top-2 left-2">
-            <Badge variant="secondary" className="text-xs font-medium">
-              {Math.round(recommendation.score)}% match
-            </Badge>
-          </div>
-          {product.originalPrice > product.price && (
-            <div className="absolute top-2 right-2">
-              <Badge variant="destructive" className="text-xs">
-                ${(product.originalPrice - product.price).toFixed(0)} OFF
+    product: Product;
+    type: RecommendationType;
+    // 1-based position in the list as served
+    slot: number;
+  }) => {
+    const requestId = requestIds[type];
+    const cardRef = useImpression<HTMLDivElement>(() => {
+      if (requestId) {
+        interactionTracker.trackImpression({ productId: product.id, requestId, slot, recommendationType: type });
+      }
+    });
+
+    return (
+      <Card
+        ref={cardRef}
+        className="group hover:shadow-lg transition-all duration-300 cursor-pointer"
+        onClick={() => handleInteraction(product, "view", type, slot)}
+      >
+        <CardHeader className="p-0">
+          <div className="relative overflow-hidden rounded-t-lg">
+            <Image
+              src={product.image}
+              alt={product.name}
+              width={250}
+              height={200}
+              className="w-full h-32 object-cover group-hover:scale-105 transition-transform duration-300"
+            />
+            <div className="absolute top-2 left-2">
+              <Badge variant="secondary" className="text-xs font-medium">
+                {Math.round(recommendation.score)}% match
               </Badge>
             </div>
-          )}
-          <div className="absolute bottom-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-            <Button
-              size="sm"
-              variant={likedProducts.has(product.id) ? "default" : "secondary"}
-              className="h-7 w-7 p-0"
-              onClick={(e) => {
-                e.stopPropagation();
-                handleInteraction(product.id, "like");
-              }}
-            >
-              <Heart className={`h-3 w-3 ${likedProducts.has(product.id) ? 'fill-current' : ''}`} />
-            </Button>
-          </div>
-        </div>
-      </CardHeader>
-      <CardContent className="p-3">
-        <div className="space-y-2">
-          <div className="flex items-start justify-between">
-            <div>
-              <h4 className="font-semibold text-sm leading-tight">{product.name}</h4>
-              <p className="text-xs text-muted-foreground">{product.brand}</p>
-            </div>
-            <div className="flex items-center gap-1">
-              <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
-              <span className="text-xs">{product.ratings.average}</span>
+            {product.originalPrice > product.price && (
+              <div className="absolute top-2 right-2">
+                <Badge variant="destructive" className="text-xs">
+                  ${(product.originalPrice - product.price).toFixed(0)} OFF
+                </Badge>
+              </div>
+            )}
+            <div className="absolute bottom-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    className="h-7 w-7 p-0"
+                    aria-label="Not interested"
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </DropdownMenuTrigger>
+                {/* Portaled, but React still bubbles its clicks to the card */}
+                <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                  <DropdownMenuItem onClick={() => handleNegativeFeedback(product, "dismiss")}>
+                    Hide this suggestion
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => handleNegativeFeedback(product, "not_interested")}>
+                    Not interested
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleNegativeFeedback(product, "not_interested", "not_relevant")}>
+                    Not interested in {product.subcategory}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleNegativeFeedback(product, "not_interested", "brand")}>
+                    Not interested in {product.brand}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleNegativeFeedback(product, "not_interested", "too_expensive")}>
+                    Too expensive
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleNegativeFeedback(product, "already_own")}>
+                    I already own this
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button
+                size="sm"
+                variant={likedProducts.has(product.id) ? "default" : "secondary"}
+                className="h-7 w-7 p-0"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleInteraction(product, "like", type, slot);
+                }}
+              >
+                <Heart className={`h-3 w-3 ${likedProducts.has(product.id) ? 'fill-current' : ''}`} />
+              </Button>
             </div>
           </div>
-          
-          <p className="text-xs text-muted-foreground line-clamp-2">
-            {recommendation.reason}
-          </p>
-          
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-1">
-              <span className="font-bold text-sm">${product.price}</span>
-              {product.originalPrice > product.price && (
-                <span className="text-xs text-muted-foreground line-through">
-                  ${product.originalPrice}
-                </span>
-              )}
+        </CardHeader>
+        <CardContent className="p-3">
+          <div className="space-y-2">
+            <div className="flex items-start justify-between">
+              <div>
+                <h4 className="font-semibold text-sm leading-tight">{product.name}</h4>
+                <p className="text-xs text-muted-foreground">{product.brand}</p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                <span className="text-xs">{product.ratings.average}</span>
+              </div>
+            </div>
+            
+            <p className="text-xs text-muted-foreground line-clamp-2">
+              {recommendation.reason}
+            </p>
+            
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-1">
+                <span className="font-bold text-sm">${product.price}</span>
+                {product.originalPrice > product.price && (
+                  <span className="text-xs text-muted-foreground line-through">
+                    ${product.originalPrice}
+                  </span>
+                )}
+              </div>
+              <Button
+                size="sm"
+                variant={cartItems.has(product.id) ? "secondary" : "outline"}
+                disabled={!product.inStock}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleInteraction(product, "cart_add", type, slot);
+                }}
+                className="h-7 text-xs px-2"
+              >
+                <ShoppingCart className="h-3 w-3 mr-1" />
+                {cartItems.has(product.id) ? "Added" : "Add"}
+              </Button>
             </div>
-            <Button
-              size="sm"
-              variant={cartItems.has(product.id) ? "secondary" : "outline"}
-              disabled={!product.inStock}
-              onClick={() => handleInteraction(product.id, "cart_add")}
-              className="h-7 text-xs px-2"
-            >
-              <ShoppingCart className="h-3 w-3 mr-1" />
-              {cartItems.has(product.id) ? "Added" : "Add"}
-            </Button>
           </div>
-        </div>
-      </CardContent>
-    </Card>
-  );
+        </CardContent>
+      </Card>
+    );
+  };
 
   const RecommendationSection = ({ 
+    type,
     recommendations: recs, 
     title, 
     icon: Icon,
     description,
-    isLoading: sectionLoading
+    isLoading: sectionLoading,
+    error
   }: {
+    type: RecommendationType;
     recommendations: Recommendation[];
     title: string;
     icon: React.ComponentType<{ className?: string }>;
     description: string;
     isLoading: boolean;
+    error?: string;
   }) => (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
@@ -290,7 +374,7 @@ export function Recommendations({
         <Button
           variant="outline"
           size="sm"
-          onClick={onRefreshRecommendations}
+          onClick={handleRefresh}
           disabled={sectionLoading}
         >
           <RefreshCw className={`h-4 w-4 mr-2 ${sectionLoading ? 'animate-spin' : ''}`} />
@@ -307,11 +391,11 @@ export function Recommendations({
         </div>
       ) : recs.length === 0 ? (
         <div className="text-center py-8">
-          <p className="text-muted-foreground">No recommendations available.</p>
+          <p className="text-muted-foreground">{error || "No recommendations available."}</p>
           <Button
             variant="outline"
             size="sm"
-            onClick={generateSmartRecommendations}
+            onClick={() => loadRecommendations(true)}
             className="mt-2"
           >
             Generate Recommendations
@@ -319,15 +403,17 @@ export function Recommendations({
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-          {recs.map((rec) => {
+          {recs.map((rec, index) => {
             const product = getProductById(rec.productId);
-            if (!product) return null;
+            if (!product || hiddenProducts.has(rec.productId)) return null;
             
             return (
               <RecommendationCard
                 key={rec.productId}
                 recommendation={rec}
                 product={product}
+                type={type}
+                slot={index + 1}
               />
             );
           })}
@@ -390,31 +476,39 @@ export function Recommendations({
 
         <TabsContent value="personalized" className="space-y-4">
           <RecommendationSection
+            type="personalized"
             recommendations={recommendations.personalized}
             title="Personalized Recommendations"
             icon={Sparkles}
-            description="Products curated based on your preferences and browsing history"
+            description={personalized
+              ? "Products curated based on your preferences and browsing history"
+              : "Popular products. Allow personalization under Preferences for suggestions tailored to you"}
             isLoading={loadingStates.personalized}
+            error={errors.personalized}
           />
         </TabsContent>
 
         <TabsContent value="trending" className="space-y-4">
           <RecommendationSection
+            type="trending"
             recommendations={recommendations.trending}
             title="Trending Products"
             icon={TrendingUp}
             description="Popular products that are trending right now"
             isLoading={loadingStates.trending}
+            error={errors.trending}
           />
         </TabsContent>
 
         <TabsContent value="similar" className="space-y-4">
           <RecommendationSection
+            type="similar"
             recommendations={recommendations.similar}
             title="Similar Products"
             icon={Lightbulb}
             description="Products similar to what you've been looking at"
             isLoading={loadingStates.similar}
+            error={errors.similar}
           />
         </TabsContent>
       </Tabs>
@@ -2,6 +2,7 @@
 
 import { cn } from "@/lib/utils";
 import { createClient } from "@/lib/supabase/client";
+import { interactionTracker } from "@/lib/interaction-tracker";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -40,7 +41,7 @@ export function SignUpForm({
     }
 
     try {
-      const { error } = await supabase.auth.signUp({
+      const { data, error } = await supabase.auth.signUp({
         email,
         password,
         options: {
@@ -48,6 +49,11 @@ export function SignUpForm({
         },
       });
       if (error) throw error;
+      // Without email confirmation the user is signed in right away; otherwise
+      // /auth/confirm merges the anonymous history once the email is verified
+      if (data.session) {
+        await interactionTracker.claimAnonymousHistory();
+      }
       router.push("/auth/sign-up-success");
     } catch (error: unknown) {
       setError(error instanceof Error ? error.message : "An error occurred");
@@ -4,13 +4,16 @@
 -- User interactions table
 CREATE TABLE user_interactions (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    event_id UUID UNIQUE, -- client idempotency key; replayed events are ignored
     user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    anonymous_id TEXT, -- visitor cookie ID for events recorded before sign-in
     product_id TEXT NOT NULL,
-    interaction_type TEXT NOT NULL CHECK (interaction_type IN ('view', 'like', 'purchase', 'cart_add', 'wishlist_add')),
+    interaction_type TEXT NOT NULL CHECK (interaction_type IN ('view', 'like', 'purchase', 'cart_add', 'wishlist_add', 'dismiss', 'not_interested', 'already_own')),
     session_id TEXT,
     timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     metadata JSONB DEFAULT '{}'::jsonb,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (user_id IS NOT NULL OR anonymous_id IS NOT NULL)
 );
 
 -- User preferences table
@@ -22,6 +25,17 @@ CREATE TABLE user_preferences (
     price_range_min DECIMAL(10,2) DEFAULT 0,
     price_range_max DECIMAL(10,2) DEFAULT 3000,
     preferred_features TEXT[] DEFAULT '{}',
+    -- Never recommended, whatever the strategy
+    blocked_categories TEXT[] DEFAULT '{}',
+    blocked_brands TEXT[] DEFAULT '{}',
+    -- Derived from interaction history; kept apart from the explicit values above
+    inferred_categories TEXT[] DEFAULT '{}',
+    inferred_brands TEXT[] DEFAULT '{}',
+    inferred_price_min DECIMAL(10,2),
+    inferred_price_max DECIMAL(10,2),
+    inferred_features TEXT[] DEFAULT '{}',
+    inferred_at TIMESTAMP WITH TIME ZONE,
+    inference_reset_at TIMESTAMP WITH TIME ZONE, -- interactions before this are not used for inference
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -32,30 +46,71 @@ CREATE TABLE product_recommendations (
     user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
     product_id TEXT NOT NULL,
     recommendation_type TEXT NOT NULL CHECK (recommendation_type IN ('personalized', 'trending', 'similar')),
+    source_product_id TEXT, -- product a "similar" list was generated for
+    experiment_id TEXT, -- experiment and variant the list was generated under, if any
+    variant TEXT,
     score DECIMAL(3,2) DEFAULT 0,
     reason TEXT,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     expires_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() + INTERVAL '24 hours')
 );
 
+-- Per-product daily counts of events recorded without tracking consent.
+-- Nothing here identifies a shopper.
+CREATE TABLE aggregate_interactions (
+    product_id TEXT NOT NULL,
+    interaction_type TEXT NOT NULL CHECK (interaction_type IN ('view', 'like', 'purchase', 'cart_add', 'wishlist_add', 'dismiss', 'not_interested', 'already_own')),
+    day DATE NOT NULL DEFAULT CURRENT_DATE,
+    category TEXT,
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (product_id, interaction_type, day)
+);
+
+CREATE TABLE aggregate_event_ids (
+    event_id UUID PRIMARY KEY,
+    seen_on DATE NOT NULL DEFAULT CURRENT_DATE
+);
+
+-- Each user's tracking consent (none / essential / personalization).
+-- Visitors keep theirs in the tracking_consent cookie.
+CREATE TABLE user_consent (
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+    consent_mode TEXT NOT NULL CHECK (consent_mode IN ('none', 'essential', 'personalization')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create indexes for better performance
 CREATE INDEX idx_user_interactions_user_id ON user_interactions(user_id);
 CREATE INDEX idx_user_interactions_product_id ON user_interactions(product_id);
 CREATE INDEX idx_user_interactions_timestamp ON user_interactions(timestamp);
+CREATE INDEX idx_user_interactions_negative ON user_interactions(user_id)
+    WHERE interaction_type IN ('dismiss', 'not_interested', 'already_own');
 
 CREATE INDEX idx_user_preferences_user_id ON user_preferences(user_id);
+CREATE INDEX idx_aggregate_event_ids_seen_on ON aggregate_event_ids(seen_on);
 
 CREATE INDEX idx_product_recommendations_user_id ON product_recommendations(user_id);
 CREATE INDEX idx_product_recommendations_type ON product_recommendations(recommendation_type);
+CREATE INDEX idx_product_recommendations_lookup ON product_recommendations(user_id, recommendation_type, expires_at);
 
 -- Enable RLS (Row Level Security) on tables
 ALTER TABLE user_interactions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
 ALTER TABLE product_recommendations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE aggregate_interactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE aggregate_event_ids ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_consent ENABLE ROW LEVEL SECURITY;
 
 -- Simple RLS policies (users can only access their own data)
-CREATE POLICY "Users can manage their own interactions" ON user_interactions
-    FOR ALL USING (auth.uid() = user_id);
+-- Only /api/events writes interactions, through the service role after
+-- validating them, since experiment, position and bandit reports count them;
+-- users may read and erase their own
+CREATE POLICY "Users can read their own interactions" ON user_interactions
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own interactions" ON user_interactions
+    FOR DELETE USING (auth.uid() = user_id);
 
 CREATE POLICY "Users can manage their own preferences" ON user_preferences
     FOR ALL USING (auth.uid() = user_id);
@@ -63,5 +118,529 @@ CREATE POLICY "Users can manage their own preferences" ON user_preferences
 CREATE POLICY "Users can manage their own recommendations" ON product_recommendations
     FOR ALL USING (auth.uid() = user_id);
 
+CREATE POLICY "Users can manage their own consent" ON user_consent
+    FOR ALL USING (auth.uid() = user_id);
+
+-- Remove expired cached recommendations for all users.
+-- SECURITY DEFINER lets the cleanup job bypass the per-user RLS policy.
+CREATE OR REPLACE FUNCTION cleanup_expired_recommendations()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    removed INTEGER;
+BEGIN
+    DELETE FROM product_recommendations WHERE expires_at <= NOW();
+    GET DIAGNOSTICS removed = ROW_COUNT;
+    RETURN removed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION cleanup_expired_recommendations() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cleanup_expired_recommendations() TO service_role;
+
+-- Time-decayed trending scores across all users.
+-- RLS only lets a user read their own interactions, so this aggregate runs as
+-- SECURITY DEFINER and returns per-product totals only, never user-level rows.
+-- Each interaction contributes its type weight halved every p_half_life_hours.
+CREATE OR REPLACE FUNCTION get_trending_products(
+    p_limit INTEGER DEFAULT 10,
+    p_category TEXT DEFAULT NULL,
+    p_window_days INTEGER DEFAULT 7,
+    p_half_life_hours NUMERIC DEFAULT 48
+)
+RETURNS TABLE (product_id TEXT, category TEXT, score NUMERIC, interactions BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH events AS (
+        SELECT ui.product_id, ui.metadata->>'category' AS category, ui.interaction_type, ui.created_at, 1 AS n
+        FROM user_interactions ui
+        WHERE ui.created_at >= NOW() - make_interval(days => p_window_days)
+        UNION ALL
+        -- Events recorded without consent only exist as daily counts; date them at midday
+        SELECT ai.product_id, ai.category, ai.interaction_type, ai.day + INTERVAL '12 hours', ai.count
+        FROM aggregate_interactions ai
+        WHERE ai.day >= (NOW() - make_interval(days => p_window_days))::DATE
+    )
+    SELECT
+        e.product_id,
+        MAX(e.category) AS category,
+        ROUND(SUM(
+            CASE e.interaction_type
+                WHEN 'purchase' THEN 10
+                WHEN 'cart_add' THEN 5
+                WHEN 'like' THEN 3
+                WHEN 'wishlist_add' THEN 2
+                ELSE 1
+            END
+            * e.n
+            * POWER(0.5, GREATEST(EXTRACT(EPOCH FROM (NOW() - e.created_at)), 0) / 3600 / p_half_life_hours)
+        )::NUMERIC, 4) AS score,
+        SUM(e.n)::BIGINT AS interactions
+    FROM events e
+    -- Negative feedback is not activity worth trending on
+    WHERE e.interaction_type NOT IN ('dismiss', 'not_interested', 'already_own')
+      AND (p_category IS NULL OR e.category = p_category)
+    GROUP BY e.product_id
+    ORDER BY score DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_trending_products(INTEGER, TEXT, INTEGER, NUMERIC) TO authenticated;
+
+-- Item-item co-occurrence across all users: for each of p_product_ids, the
+-- products that shared a basket (session, else shopper) with it most often.
+-- Like get_trending_products it returns counts only; pairs seen in a single
+-- basket are left out so no one shopper's history can be read back.
+CREATE OR REPLACE FUNCTION get_co_occurrence(
+    p_product_ids TEXT[],
+    p_limit INTEGER DEFAULT 20,
+    p_window_days INTEGER DEFAULT 90
+)
+RETURNS TABLE (product_id TEXT, related_product_id TEXT, baskets BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH items AS (
+        SELECT DISTINCT COALESCE(ui.session_id, ui.user_id::TEXT, ui.anonymous_id) AS basket, ui.product_id
+        FROM user_interactions ui
+        WHERE ui.created_at >= NOW() - make_interval(days => p_window_days)
+          AND ui.interaction_type NOT IN ('dismiss', 'not_interested', 'already_own')
+    ),
+    anchors AS (
+        SELECT basket, product_id FROM items WHERE product_id = ANY(p_product_ids[1:50])
+    ),
+    pairs AS (
+        SELECT a.product_id, i.product_id AS related_product_id, COUNT(*) AS baskets
+        FROM anchors a
+        JOIN items i ON i.basket = a.basket AND i.product_id <> a.product_id
+        GROUP BY a.product_id, i.product_id
+        HAVING COUNT(*) >= 2
+    ),
+    ranked AS (
+        SELECT p.*, ROW_NUMBER() OVER (PARTITION BY p.product_id ORDER BY p.baskets DESC, p.related_product_id) AS position
+        FROM pairs p
+    )
+    SELECT r.product_id, r.related_product_id, r.baskets
+    FROM ranked r
+    WHERE r.position <= LEAST(GREATEST(p_limit, 1), 100)
+    ORDER BY r.product_id, r.position;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_co_occurrence(TEXT[], INTEGER, INTEGER) TO authenticated;
+
+CREATE INDEX idx_user_interactions_created_at ON user_interactions(created_at);
+CREATE INDEX idx_user_interactions_anonymous_id ON user_interactions(anonymous_id) WHERE anonymous_id IS NOT NULL;
+
+-- Store events from signed-out visitors, keyed by their visitor cookie.
+-- They have no auth.uid(), so RLS would reject the insert; the function only
+-- ever writes rows without a user_id. Only /api/events calls it, with the
+-- service role, once it has validated the events and checked consent.
+CREATE OR REPLACE FUNCTION record_anonymous_interactions(p_anonymous_id TEXT, p_events JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    inserted INTEGER;
+BEGIN
+    INSERT INTO user_interactions (event_id, anonymous_id, product_id, interaction_type, session_id, timestamp, metadata)
+    SELECT e.event_id, p_anonymous_id, e.product_id, e.interaction_type, e.session_id, e.timestamp, COALESCE(e.metadata, '{}'::jsonb)
+    FROM jsonb_to_recordset(p_events) AS e(
+        event_id UUID,
+        product_id TEXT,
+        interaction_type TEXT,
+        session_id TEXT,
+        timestamp TIMESTAMP WITH TIME ZONE,
+        metadata JSONB
+    )
+    ON CONFLICT (event_id) DO NOTHING;
+    GET DIAGNOSTICS inserted = ROW_COUNT;
+    RETURN inserted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_anonymous_interactions(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_anonymous_interactions(TEXT, JSONB) TO service_role;
+
+-- Count events from shoppers who have not consented to tracking.
+-- Only product, type and category are kept; no policy allows direct writes.
+-- Event IDs are random and remembered for a week on their own, so a replayed
+-- event is not counted twice. Only /api/events calls it, with the service
+-- role, once it has validated the events.
+CREATE OR REPLACE FUNCTION record_aggregate_interactions(p_events JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    counted INTEGER;
+BEGIN
+    DELETE FROM aggregate_event_ids WHERE seen_on < CURRENT_DATE - 8;
+
+    WITH incoming AS (
+        SELECT * FROM jsonb_to_recordset(p_events) AS e(event_id UUID, product_id TEXT, interaction_type TEXT, category TEXT)
+    ),
+    fresh AS (
+        INSERT INTO aggregate_event_ids (event_id)
+        SELECT DISTINCT event_id FROM incoming WHERE event_id IS NOT NULL
+        ON CONFLICT (event_id) DO NOTHING
+        RETURNING event_id
+    ),
+    kept AS (
+        SELECT i.* FROM incoming i
+        WHERE i.event_id IS NULL OR i.event_id IN (SELECT event_id FROM fresh)
+    ),
+    counts AS (
+        INSERT INTO aggregate_interactions AS ai (product_id, interaction_type, category, count)
+        SELECT k.product_id, k.interaction_type, MAX(k.category), COUNT(*)
+        FROM kept k
+        GROUP BY k.product_id, k.interaction_type
+        ON CONFLICT (product_id, interaction_type, day)
+        DO UPDATE SET count = ai.count + EXCLUDED.count, category = COALESCE(EXCLUDED.category, ai.category)
+    )
+    SELECT COUNT(*) INTO counted FROM kept;
+
+    RETURN counted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_aggregate_interactions(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_aggregate_interactions(JSONB) TO service_role;
+
+-- Attach a visitor's anonymous events to the signed-in caller.
+-- Only rows that no account has claimed yet are moved.
+CREATE OR REPLACE FUNCTION merge_anonymous_history(p_anonymous_id TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    merged INTEGER;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'merge_anonymous_history requires a signed-in user';
+    END IF;
+
+    UPDATE user_interactions
+    SET user_id = auth.uid(), anonymous_id = NULL
+    WHERE anonymous_id = p_anonymous_id AND user_id IS NULL;
+    GET DIAGNOSTICS merged = ROW_COUNT;
+    RETURN merged;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_anonymous_history(TEXT) TO authenticated;
+
+-- Audit log of data exports and erasures.
+-- user_id has no foreign key so the record outlives the data (and the account)
+-- it describes. Users can read their own entries; only record_data_request
+-- writes them.
+CREATE TABLE data_requests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL,
+    request_type TEXT NOT NULL CHECK (request_type IN ('export', 'erasure')),
+    format TEXT CHECK (format IN ('json', 'csv')),
+    record_counts JSONB DEFAULT '{}'::jsonb,
+    requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_data_requests_user_id ON data_requests(user_id, requested_at);
+
+ALTER TABLE data_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own data requests" ON data_requests
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION record_data_request(p_request_type TEXT, p_format TEXT, p_record_counts JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    request_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'record_data_request requires a signed-in user';
+    END IF;
+
+    INSERT INTO data_requests (user_id, request_type, format, record_counts)
+    VALUES (auth.uid(), p_request_type, p_format, COALESCE(p_record_counts, '{}'::jsonb))
+    RETURNING id INTO request_id;
+    RETURN request_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_data_request(TEXT, TEXT, JSONB) TO authenticated;
+
+-- Every recommendation list served to a user enrolled in an experiment, with
+-- the variant they were assigned. Clicks and cart adds carry the same
+-- experiment_id and variant in their metadata. Only the server writes serves,
+-- through the service role, so a report counts only lists actually served.
+CREATE TABLE recommendation_serves (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    experiment_id TEXT NOT NULL,
+    variant TEXT NOT NULL,
+    recommendation_type TEXT NOT NULL CHECK (recommendation_type IN ('personalized', 'trending', 'similar')),
+    product_ids TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_recommendation_serves_user_id ON recommendation_serves(user_id);
+CREATE INDEX idx_recommendation_serves_experiment ON recommendation_serves(experiment_id, variant);
+CREATE INDEX idx_user_interactions_experiment ON user_interactions((metadata->>'experimentId'))
+    WHERE metadata ? 'experimentId';
+
+ALTER TABLE recommendation_serves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own recommendation serves" ON recommendation_serves
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recommendation serves" ON recommendation_serves
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Per-variant totals for an experiment report: users served, distinct
+-- user/product pairs served, and distinct pairs clicked or added to cart from
+-- a recommendation list. Reads every user's rows, so it runs as SECURITY
+-- DEFINER and only the service role may call it.
+CREATE OR REPLACE FUNCTION get_experiment_counts(
+    p_experiment_id TEXT,
+    p_recommendation_type TEXT DEFAULT 'personalized'
+)
+RETURNS TABLE (variant TEXT, users BIGINT, served BIGINT, clicks BIGINT, cart_adds BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH served AS (
+        SELECT rs.variant, COUNT(DISTINCT rs.user_id) AS users, COUNT(DISTINCT (rs.user_id, p.product_id)) AS served
+        FROM recommendation_serves rs
+        CROSS JOIN LATERAL unnest(rs.product_ids) AS p(product_id)
+        WHERE rs.experiment_id = p_experiment_id
+          AND rs.recommendation_type = p_recommendation_type
+        GROUP BY rs.variant
+    ),
+    actions AS (
+        SELECT
+            ui.metadata->>'variant' AS variant,
+            COUNT(DISTINCT (ui.user_id, ui.product_id)) FILTER (WHERE ui.interaction_type = 'view') AS clicks,
+            COUNT(DISTINCT (ui.user_id, ui.product_id)) FILTER (WHERE ui.interaction_type = 'cart_add') AS cart_adds
+        FROM user_interactions ui
+        WHERE ui.metadata->>'experimentId' = p_experiment_id
+          AND ui.metadata->>'referrer' = 'recommendations'
+          AND ui.metadata->>'recommendationType' = p_recommendation_type
+        GROUP BY ui.metadata->>'variant'
+    )
+    SELECT s.variant, s.users, s.served, COALESCE(a.clicks, 0), COALESCE(a.cart_adds, 0)
+    FROM served s
+    LEFT JOIN actions a ON a.variant = s.variant
+    ORDER BY s.variant;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_experiment_counts(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_experiment_counts(TEXT, TEXT) TO service_role;
+
+-- Recommendation cards that came into view, one row per slot of a served list.
+-- Clicks and cart adds on a card carry the same requestId and slot in their
+-- metadata, which links them back to the impression.
+CREATE TABLE recommendation_impressions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    request_id UUID NOT NULL, -- requestId of the /api/recommendations response
+    slot INTEGER NOT NULL CHECK (slot > 0), -- 1-based position in the list
+    recommendation_type TEXT NOT NULL CHECK (recommendation_type IN ('personalized', 'trending', 'similar')),
+    product_id TEXT NOT NULL,
+    session_id TEXT,
+    shown_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (user_id, request_id, slot)
+);
+
+CREATE INDEX idx_recommendation_impressions_shown_at ON recommendation_impressions(shown_at);
+CREATE INDEX idx_user_interactions_request_id ON user_interactions((metadata->>'requestId'))
+    WHERE metadata ? 'requestId';
+
+ALTER TABLE recommendation_impressions ENABLE ROW LEVEL SECURITY;
+
+-- Only /api/events writes impressions, through the service role, since the
+-- bandit learns from them; users may read and erase their own
+CREATE POLICY "Users can read their own recommendation impressions" ON recommendation_impressions
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recommendation impressions" ON recommendation_impressions
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Impressions, clicks and cart adds per recommendation type and slot since
+-- p_since. An impression counts as clicked or converted when the same user
+-- viewed or added the product to their cart from that list and slot. Reads
+-- every user's rows, so only the service role may call it.
+CREATE OR REPLACE FUNCTION get_position_report(
+    p_since TIMESTAMP WITH TIME ZONE DEFAULT NOW() - INTERVAL '30 days',
+    p_recommendation_type TEXT DEFAULT NULL
+)
+RETURNS TABLE (recommendation_type TEXT, slot INTEGER, impressions BIGINT, clicks BIGINT, cart_adds BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH actions AS (
+        SELECT
+            ui.user_id,
+            ui.metadata->>'requestId' AS request_id,
+            (ui.metadata->>'slot')::INTEGER AS slot,
+            ui.product_id,
+            BOOL_OR(ui.interaction_type = 'view') AS clicked,
+            BOOL_OR(ui.interaction_type = 'cart_add') AS converted
+        FROM user_interactions ui
+        WHERE ui.metadata ? 'requestId'
+          AND ui.metadata->>'slot' ~ '^[0-9]+$'
+          AND ui.created_at >= p_since
+        GROUP BY 1, 2, 3, 4
+    )
+    SELECT
+        ri.recommendation_type,
+        ri.slot,
+        COUNT(*) AS impressions,
+        COUNT(*) FILTER (WHERE a.clicked) AS clicks,
+        COUNT(*) FILTER (WHERE a.converted) AS cart_adds
+    FROM recommendation_impressions ri
+    LEFT JOIN actions a
+        ON a.user_id = ri.user_id AND a.request_id = ri.request_id::TEXT AND a.slot = ri.slot
+        AND a.product_id = ri.product_id
+    WHERE ri.shown_at >= p_since
+      AND (p_recommendation_type IS NULL OR ri.recommendation_type = p_recommendation_type)
+    GROUP BY ri.recommendation_type, ri.slot
+    ORDER BY ri.recommendation_type, ri.slot;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_position_report(TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_position_report(TIMESTAMP WITH TIME ZONE, TEXT) TO service_role;
+
+-- State of the bandit that blends recommendation sources: per shopper segment
+-- and source, the impressions seen and the reward they earned. Aggregate
+-- only, so every signed-in shopper may read it; only update_bandit_arms writes.
+CREATE TABLE bandit_arms (
+    segment TEXT NOT NULL CHECK (segment IN ('new', 'browsing', 'buying')),
+    source TEXT NOT NULL CHECK (source IN ('content', 'collaborative', 'trending', 'similar')),
+    trials NUMERIC NOT NULL DEFAULT 0,
+    rewards NUMERIC NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (segment, source)
+);
+
+-- Lists blended by the bandit, with the product and source that filled each
+-- slot. Only /api/recommendations writes them, through the service role.
+CREATE TABLE bandit_serves (
+    request_id UUID PRIMARY KEY, -- requestId of the /api/recommendations response
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    segment TEXT NOT NULL,
+    product_ids TEXT[] NOT NULL, -- product_ids[n] was served in slot n
+    sources TEXT[] NOT NULL, -- sources[n] filled slot n
+    processed_at TIMESTAMP WITH TIME ZONE, -- set once its feedback is in bandit_arms
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_bandit_serves_user_id ON bandit_serves(user_id);
+CREATE INDEX idx_bandit_serves_pending ON bandit_serves(created_at) WHERE processed_at IS NULL;
+
+ALTER TABLE bandit_arms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bandit_serves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read bandit arms" ON bandit_arms
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Users can read their own bandit serves" ON bandit_serves
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own bandit serves" ON bandit_serves
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Credit the sources of lists served at least p_settle_minutes ago (never
+-- less than 10), so their clicks and cart adds have had time to arrive. Every
+-- impression is a trial; it earns 1 when the card was added to the cart and
+-- 0.5 when it was only clicked. Only impressions of the product the server
+-- recorded in that slot count, and only actions on that product, which only
+-- /api/events can have written. Each list is processed once. SECURITY DEFINER lets the scheduled job read every user's
+-- rows; only the service role may run it.
+CREATE OR REPLACE FUNCTION update_bandit_arms(p_settle_minutes INTEGER DEFAULT 60)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    learned INTEGER;
+BEGIN
+    WITH processed AS (
+        UPDATE bandit_serves
+        SET processed_at = NOW()
+        WHERE processed_at IS NULL
+          AND created_at < NOW() - make_interval(mins => GREATEST(p_settle_minutes, 10))
+        RETURNING request_id, user_id, segment, product_ids, sources
+    ),
+    shown AS (
+        SELECT p.segment, p.sources[ri.slot] AS source, ri.user_id, ri.request_id, ri.slot, ri.product_id
+        FROM processed p
+        JOIN recommendation_impressions ri
+            ON ri.user_id = p.user_id
+           AND ri.request_id = p.request_id
+           AND ri.product_id = p.product_ids[ri.slot]
+        WHERE p.sources[ri.slot] IN ('content', 'collaborative', 'trending', 'similar')
+    ),
+    outcomes AS (
+        SELECT
+            s.segment,
+            s.source,
+            CASE
+                WHEN BOOL_OR(ui.interaction_type = 'cart_add') THEN 1
+                WHEN BOOL_OR(ui.interaction_type = 'view') THEN 0.5
+                ELSE 0
+            END AS reward
+        FROM shown s
+        LEFT JOIN user_interactions ui
+            ON ui.user_id = s.user_id
+           AND ui.product_id = s.product_id
+           AND ui.metadata->>'requestId' = s.request_id::TEXT
+           AND ui.metadata->>'slot' = s.slot::TEXT
+        GROUP BY s.segment, s.source, s.user_id, s.request_id, s.slot
+    ),
+    -- Runs to completion even though nothing below reads it
+    credited AS (
+        INSERT INTO bandit_arms AS ba (segment, source, trials, rewards)
+        SELECT segment, source, COUNT(*), SUM(reward)
+        FROM outcomes
+        GROUP BY segment, source
+        ON CONFLICT (segment, source) DO UPDATE
+        SET trials = ba.trials + EXCLUDED.trials,
+            rewards = ba.rewards + EXCLUDED.rewards,
+            updated_at = NOW()
+    )
+    SELECT COUNT(*) INTO learned FROM outcomes;
+    RETURN learned;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION update_bandit_arms(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION update_bandit_arms(INTEGER) TO service_role;
+
+-- Optional: schedule the cleanup hourly with pg_cron instead of /api/recommendations/cleanup
+-- SELECT cron.schedule('cleanup-expired-recommendations', '0 * * * *', 'SELECT cleanup_expired_recommendations()');
+-- Likewise for the bandit instead of /api/recommendations/bandit
+-- SELECT cron.schedule('update-bandit-arms', '*/15 * * * *', 'SELECT update_bandit_arms()');
+
 -- Success message
 SELECT 'Database schema created successfully!' as message; 
\ No newline at end of file
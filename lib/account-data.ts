@@ -0,0 +1,225 @@
+// Data subject requests: export and erasure of a user's stored data, with an audit trail
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type ExportFormat = 'json' | 'csv';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv'];
+
+export type DataRequestType = 'export' | 'erasure';
+
+// Tables holding personal data, in the order they are exported and erased
+export const USER_DATA_TABLES = [
+  'user_interactions',
+  'user_preferences',
+  'product_recommendations',
+  'recommendation_serves',
+  'recommendation_impressions',
+  'bandit_serves',
+  'user_consent'
+] as const;
+
+export type UserDataTable = typeof USER_DATA_TABLES[number];
+
+// The phrase a user must type before their data is erased
+export const ERASURE_CONFIRMATION = 'DELETE MY DATA';
+
+export type DataRecord = Record<string, unknown>;
+
+export interface UserDataExport {
+  userId: string;
+  exportedAt: string;
+  user_interactions: DataRecord[];
+  user_preferences: DataRecord[];
+  product_recommendations: DataRecord[];
+  recommendation_serves: DataRecord[];
+  recommendation_impressions: DataRecord[];
+  bandit_serves: DataRecord[];
+  user_consent: DataRecord[];
+}
+
+export type RecordCounts = Record<UserDataTable, number>;
+
+export interface ErasureRequest {
+  confirmation: string;
+}
+
+export interface ErasureResponse {
+  deleted: RecordCounts;
+  erasedAt: string;
+}
+
+// One row of data_requests as shown to the user
+export interface DataRequestRecord {
+  id: string;
+  requestType: DataRequestType;
+  format: ExportFormat | null;
+  recordCounts: RecordCounts;
+  requestedAt: string;
+}
+
+export interface AccountDataErrorResponse {
+  error: string;
+}
+
+// Rows fetched per request when paging through a table
+const PAGE_SIZE = 1000;
+
+async function fetchAll(supabase: SupabaseClient, table: UserDataTable, userId: string): Promise<DataRecord[]> {
+  const rows: DataRecord[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to export ${table}: ${error.message}`);
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * Everything stored about a user across the personal data tables
+ */
+export async function exportUserData(supabase: SupabaseClient, userId: string): Promise<UserDataExport> {
+  const [interactions, preferences, recommendations, serves, impressions, banditServes, consent] = await Promise.all(
+    USER_DATA_TABLES.map(table => fetchAll(supabase, table, userId))
+  );
+
+  return {
+    userId,
+    exportedAt: new Date().toISOString(),
+    user_interactions: interactions,
+    user_preferences: preferences,
+    product_recommendations: recommendations,
+    recommendation_serves: serves,
+    recommendation_impressions: impressions,
+    bandit_serves: banditServes,
+    user_consent: consent
+  };
+}
+
+export function countRecords(data: UserDataExport): RecordCounts {
+  return {
+    user_interactions: data.user_interactions.length,
+    user_preferences: data.user_preferences.length,
+    product_recommendations: data.product_recommendations.length,
+    recommendation_serves: data.recommendation_serves.length,
+    recommendation_impressions: data.recommendation_impressions.length,
+    bandit_serves: data.bandit_serves.length,
+    user_consent: data.user_consent.length
+  };
+}
+
+function csvField(value: unknown): string {
+  const text = value == null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Flatten an export into one CSV. Each row is tagged with its table, and the
+ * columns are the union of all tables' columns, so spreadsheet tools can
+ * filter by table without losing fields.
+ */
+export function toCsv(data: UserDataExport): string {
+  const columns = new Set<string>();
+  USER_DATA_TABLES.forEach(table => data[table].forEach(row => Object.keys(row).forEach(key => columns.add(key))));
+  const header = ['table', ...columns];
+
+  const lines = [header.join(',')];
+  USER_DATA_TABLES.forEach(table => {
+    data[table].forEach(row => {
+      lines.push([table, ...Array.from(columns, column => row[column])].map(csvField).join(','));
+    });
+  });
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Delete a user's rows from every personal data table
+ * @returns Number of rows deleted per table
+ */
+export async function eraseUserData(supabase: SupabaseClient, userId: string): Promise<RecordCounts> {
+  const deleted = {} as RecordCounts;
+
+  // Sequential so a failure reports exactly which table was not erased
+  for (const table of USER_DATA_TABLES) {
+    const { count, error } = await supabase
+      .from(table)
+      .delete({ count: 'exact' })
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to erase ${table}: ${error.message}`);
+    }
+    deleted[table] = count ?? 0;
+  }
+
+  return deleted;
+}
+
+/**
+ * Record an export or erasure in the audit log. The row is written by a
+ * database function so users can read their own audit trail but not edit it.
+ */
+export async function recordDataRequest(
+  supabase: SupabaseClient,
+  requestType: DataRequestType,
+  recordCounts: RecordCounts,
+  format?: ExportFormat
+): Promise<void> {
+  const { error } = await supabase.rpc('record_data_request', {
+    p_request_type: requestType,
+    p_format: format ?? null,
+    p_record_counts: recordCounts
+  });
+
+  if (error) {
+    throw new Error(`Failed to record ${requestType} request: ${error.message}`);
+  }
+}
+
+interface DataRequestRow {
+  id: string;
+  request_type: DataRequestType;
+  format: ExportFormat | null;
+  record_counts: RecordCounts;
+  requested_at: string;
+}
+
+/**
+ * A user's most recent export and erasure requests
+ */
+export async function listDataRequests(
+  supabase: SupabaseClient,
+  userId: string,
+  limit: number = 20
+): Promise<DataRequestRecord[]> {
+  const { data, error } = await supabase
+    .from('data_requests')
+    .select('id, request_type, format, record_counts, requested_at')
+    .eq('user_id', userId)
+    .order('requested_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load data requests: ${error.message}`);
+  }
+
+  return ((data || []) as DataRequestRow[]).map(row => ({
+    id: row.id,
+    requestType: row.request_type,
+    format: row.format,
+    recordCounts: row.record_counts,
+    requestedAt: row.requested_at
+  }));
+}
@@ -1,44 +1,41 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-// Initialize Gemini AI with API key
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-
-// Product interface
-interface Product {
-  id: string;
-  name: string;
-  category: string;
-  subcategory: string;
-  price: number;
-  originalPrice: number;
-  description: string;
-  features: string[];
-  tags: string[];
-  brand: string;
-  ratings: {
-    average: number;
-    count: number;
-  };
-}
+import {
+  createLLMProvider,
+  InvalidJSONError,
+  ResilientProvider,
+  type JSONShape,
+  type LLMCallMetrics,
+  type LLMProvider
+} from "@/lib/llm";
+import {
+  validateRecommendations,
+  validateUserAnalysis,
+  type Recommendation,
+  type UserAnalysis,
+  type ValidationResult
+} from "@/lib/recommendation-schema";
+import { HybridRanker, INTERACTION_WEIGHTS, type CoOccurrenceCount, type InteractionEvent } from "@/lib/hybrid-ranker";
+import type { TrendingScore } from "@/lib/trending";
+import { popularity, type Product } from "@/lib/catalog";
+import { CandidateGenerator, DEFAULT_MAX_CANDIDATES } from "@/lib/candidate-generation";
+import { estimateTokens, fitToTokenBudget, type TokenLedger } from "@/lib/token-budget";
+import { PipelineRun, type PipelineMetrics } from "@/lib/pipeline";
+import { withoutBlocked } from "@/lib/preference-filters";
+import {
+  applyFeedbackPenalties,
+  collectFeedbackPenalties,
+  type FeedbackEvent,
+  type NegativeInteractionType
+} from "@/lib/negative-feedback";
+import { blendSources, uniformWeights, type BlendWeights } from "@/lib/bandit";
 
 // User interaction interface
 interface UserInteraction {
   productId: string;
-  interactionType: 'view' | 'like' | 'purchase' | 'cart_add' | 'wishlist_add';
+  interactionType: 'view' | 'like' | 'purchase' | 'cart_add' | 'wishlist_add' | NegativeInteractionType;
   timestamp: Date;
   metadata?: Record<string, unknown>;
 }
 
-// User behavior analysis interface
-interface UserAnalysis {
-  intent: string;
-  categoryStrength: number;
-  brandLoyalty: number;
-  priceSensitivity: number;
-  topFeatures: string[];
-  behaviorPatterns: string[];
-}
-
 // User preference interface
 interface UserPreference {
   userId: string;
@@ -46,22 +43,135 @@ interface UserPreference {
   preferredBrands: string[];
   priceRange: [number, number];
   preferredFeatures: string[];
+  blockedCategories?: string[];
+  blockedBrands?: string[];
   interactionHistory: UserInteraction[];
+  // All negative feedback, loaded apart from the capped history
+  negativeFeedback?: FeedbackEvent[];
 }
 
-// Recommendation interface
-interface Recommendation {
-  productId: string;
-  score: number;
-  reason: string;
-  category: string;
+/**
+ * How personalized recommendations are produced:
+ * - llm: the multi-prompt LLM pipeline
+ * - hybrid: the deterministic content + co-occurrence ranker only
+ * - hybrid_llm: the hybrid ranker picks candidates, the LLM re-ranks them and writes the reasons
+ * - bandit: the llm pipeline's content and collaborative lists, trending and similar products,
+ *   interleaved by weights a bandit learned from feedback instead of the combine prompt
+ */
+export type RecommendationStrategy = 'llm' | 'hybrid' | 'hybrid_llm' | 'bandit';
+
+export const RECOMMENDATION_STRATEGIES: RecommendationStrategy[] = ['llm', 'hybrid', 'hybrid_llm', 'bandit'];
+
+export interface RecommendationOptions {
+  strategy?: RecommendationStrategy;
+  // Interactions from other shoppers, used for item-item co-occurrence
+  interactionLog?: InteractionEvent[];
+  // Basket co-occurrence across all shoppers for the user's products, from get_co_occurrence
+  coOccurrence?: CoOccurrenceCount[];
+  // Share of the list each source gets with the bandit strategy; equal shares when omitted
+  blendWeights?: BlendWeights;
+  // Time-decayed activity across all users, for the bandit's trending source
+  trendingScores?: TrendingScore[];
+}
+
+export interface RecommendationResult {
+  recommendations: Recommendation[];
+  metrics: PipelineMetrics;
+}
+
+// Model-backed stages, each with its own timeout
+export type PipelineStage = 'analysis' | 'content' | 'collaborative' | 'combine' | 'rerank' | 'trending' | 'similar';
+
+// Limits applied to every LLM stage
+export interface PipelineBudget {
+  // Products shortlisted from the catalog before any prompt is built
+  maxCandidates: number;
+  // Estimated prompt tokens allowed per model call
+  maxPromptTokens: number;
+  // Wall-clock limit for one personalized request; later stages are skipped once it is spent
+  latencyBudgetMs: number;
+  stageTimeoutsMs: Record<PipelineStage, number>;
+}
+
+export type PipelineBudgetOptions = Partial<Omit<PipelineBudget, 'stageTimeoutsMs'>> & {
+  stageTimeoutsMs?: Partial<Record<PipelineStage, number>>;
+};
+
+const DEFAULT_BUDGET: PipelineBudget = {
+  maxCandidates: DEFAULT_MAX_CANDIDATES,
+  maxPromptTokens: 6000,
+  latencyBudgetMs: Number(process.env.RECOMMENDATION_LATENCY_BUDGET_MS) || 8000,
+  stageTimeoutsMs: {
+    analysis: 3000,
+    content: 5000,
+    collaborative: 4000,
+    combine: 3000,
+    rerank: 5000,
+    trending: 5000,
+    similar: 5000
+  }
+};
+
+// Interacted products described in content-based prompts
+const MAX_HISTORY_PRODUCTS = 10;
+
+function getDefaultStrategy(): RecommendationStrategy {
+  const configured = process.env.RECOMMENDATION_STRATEGY as RecommendationStrategy | undefined;
+  return configured && RECOMMENDATION_STRATEGIES.includes(configured) ? configured : 'llm';
 }
 
 /**
- * AI-powered recommendation service using Gemini API
+ * AI-powered recommendation service backed by a configurable LLM provider
  */
 export class AIRecommendationService {
-  private model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
+  private llm: LLMProvider;
+  private strategy: RecommendationStrategy;
+  private budget: PipelineBudget;
+  // Appended to every model prompt, e.g. by a prompt experiment
+  private promptInstructions?: string;
+
+  /**
+   * @param llm - Language model backend; defaults to the one configured in the environment
+   * @param strategy - Default strategy; defaults to RECOMMENDATION_STRATEGY or "llm"
+   * @param budget - Candidate, prompt token and latency limits
+   */
+  constructor(
+    llm: LLMProvider = createLLMProvider(),
+    strategy: RecommendationStrategy = getDefaultStrategy(),
+    budget: PipelineBudgetOptions = {}
+  ) {
+    this.llm = llm;
+    this.strategy = strategy;
+    this.budget = {
+      ...DEFAULT_BUDGET,
+      ...budget,
+      stageTimeoutsMs: { ...DEFAULT_BUDGET.stageTimeoutsMs, ...budget.stageTimeoutsMs }
+    };
+  }
+  
+  /**
+   * A service sharing this one's model, default strategy and budget whose
+   * prompts end with extra instructions, for prompt experiments
+   */
+  withPromptInstructions(instructions: string): AIRecommendationService {
+    const service = new AIRecommendationService(this.llm, this.strategy, this.budget);
+    service.promptInstructions = instructions;
+    return service;
+  }
+  
+  /**
+   * The strategy used when a request does not choose one
+   */
+  getStrategy(): RecommendationStrategy {
+    return this.strategy;
+  }
+  
+  /**
+   * Retry and circuit breaker counters, when the provider is wrapped with them
+   */
+  getLLMMetrics(): LLMCallMetrics | undefined {
+    return this.llm instanceof ResilientProvider ? this.llm.getMetrics() : undefined;
+  }
   
   /**
    * Generate personalized product recommendations for a user
@@ -69,53 +179,359 @@ export class AIRecommendationService {
    * @param products - All available products
    * @param userPreferences - User preferences and interaction history
    * @param maxRecommendations - Maximum number of recommendations to return
+   * @param options - Strategy override and population interaction log
    * @returns Array of recommended products with scores and reasons
    */
   async generateRecommendations(
     userId: string,
     products: Product[],
     userPreferences: UserPreference,
-    maxRecommendations: number = 10
+    maxRecommendations: number = 10,
+    options: RecommendationOptions = {}
   ): Promise<Recommendation[]> {
+    const result = await this.generateRecommendationsWithMetrics(
+      userId,
+      products,
+      userPreferences,
+      maxRecommendations,
+      options
+    );
+    return result.recommendations;
+  }
+  
+  /**
+   * Generate personalized recommendations and report per-stage timing.
+   *
+   * Content-based generation runs alongside the analysis -> collaborative
+   * chain, and every model call is bounded by its stage timeout and the
+   * overall latency budget. Stages that do not finish in time fall back, and
+   * the list is topped up from the deterministic ranker so a partial run
+   * still returns a full set. Products in categories or brands the user
+   * blocked, or that they dismissed, are never considered, whatever the
+   * strategy; the final list is re-ranked with the brand and subcategory
+   * penalties from their negative feedback. With the bandit strategy each
+   * source's list is penalized on its own, then the lists are interleaved.
+   */
+  async generateRecommendationsWithMetrics(
+    userId: string,
+    catalogProducts: Product[],
+    userPreferences: UserPreference,
+    maxRecommendations: number = 10,
+    options: RecommendationOptions = {}
+  ): Promise<RecommendationResult> {
+    const productsById = new Map(catalogProducts.map(p => [p.id, p]));
+    const feedback = collectFeedbackPenalties(
+      userPreferences.negativeFeedback ?? userPreferences.interactionHistory,
+      productsById
+    );
+    const products = withoutBlocked(catalogProducts, userPreferences).filter(p => !feedback.suppressed.has(p.id));
+    const applyFeedback = (recommendations: Recommendation[]) =>
+      applyFeedbackPenalties(recommendations, productsById, feedback);
+    const strategy = options.strategy || this.strategy;
+    const run = new PipelineRun(strategy, this.budget.latencyBudgetMs);
+    const timeouts = this.budget.stageTimeoutsMs;
+    
+    if (strategy === 'hybrid') {
+      // Over-fetch so down-weighted products can drop below the cut
+      const recommendations = run.measure('hybrid', () =>
+        this.getHybridRecommendations(products, userPreferences, maxRecommendations * 2, options)
+      );
+      return {
+        recommendations: applyFeedback(recommendations).slice(0, maxRecommendations),
+        metrics: run.finish(this.getLLMMetrics())
+      };
+    }
+    
+    if (strategy === 'hybrid_llm') {
+      // Give the model a wider shortlist than we return so re-ranking matters
+      const candidates = run.measure('hybrid', () =>
+        this.getHybridRecommendations(products, userPreferences, maxRecommendations * 2, options)
+      );
+      const reranked = await run.stage(
+        'rerank',
+        timeouts.rerank,
+        signal => this.rerankWithLLM(candidates, products, userPreferences, signal, run.tokens),
+        () => candidates
+      );
+      return {
+        recommendations: applyFeedback(reranked).slice(0, maxRecommendations),
+        metrics: run.finish(this.getLLMMetrics())
+      };
+    }
+    
+    const fallback = () =>
+      this.getFallbackRecommendations(products, userPreferences, maxRecommendations, options);
+    
     try {
-      // Analyze user behavior and preferences
-      const userAnalysis = await this.analyzeUserBehavior(userPreferences);
-      
-      // Get content-based recommendations
-      const contentRecommendations = await this.getContentBasedRecommendations(
-        products,
-        userPreferences,
-        userAnalysis
+      // Narrow the catalog to a bounded shortlist before building any prompt
+      const candidates = run.measure('candidates', () =>
+        new CandidateGenerator(
+          products,
+          [...(options.interactionLog || []), ...userPreferences.interactionHistory],
+          options.coOccurrence
+        ).forUser(userPreferences, this.budget.maxCandidates)
       );
       
-      // Get collaborative filtering recommendations
-      const collaborativeRecommendations = await this.getCollaborativeRecommendations(
-        products,
-        userPreferences,
-        userAnalysis
-      );
+      // Content similarity only needs the interaction history, so it does not
+      // wait for the behavior analysis that collaborative filtering uses
+      const [contentRecommendations, collaborativeRecommendations] = await Promise.all([
+        run.stage(
+          'content',
+          timeouts.content,
+          signal => this.getContentBasedRecommendations(products, candidates, userPreferences, signal, run.tokens),
+          () => [] as Recommendation[]
+        ),
+        run
+          .stage(
+            'analysis',
+            timeouts.analysis,
+            signal => this.analyzeUserBehavior(userPreferences, signal, run.tokens),
+            () => getDefaultAnalysis(userPreferences)
+          )
+          .then(userAnalysis => run.stage(
+            'collaborative',
+            timeouts.collaborative,
+            signal => this.getCollaborativeRecommendations(candidates, userPreferences, userAnalysis, signal, run.tokens)
+              .then(recommendations => ({ userAnalysis, recommendations })),
+            () => ({ userAnalysis, recommendations: [] as Recommendation[] })
+          ))
+      ]);
+      
+      if (strategy === 'bandit') {
+        const blended = run.measure('blend', () => blendSources(
+          {
+            content: applyFeedback(contentRecommendations),
+            collaborative: applyFeedback(collaborativeRecommendations.recommendations),
+            trending: applyFeedback(
+              this.getNonPersonalizedRecommendations(products, maxRecommendations, options.trendingScores)
+            ),
+            similar: applyFeedback(
+              this.getRecentlySimilar(products, userPreferences, maxRecommendations, options.coOccurrence)
+            )
+          },
+          options.blendWeights || uniformWeights(),
+          maxRecommendations
+        ));
+        const recommendations = topUp(blended, applyFeedback(fallback()), maxRecommendations);
+        return { recommendations, metrics: run.finish(this.getLLMMetrics()) };
+      }
+      
+      const merged = mergeByScore(contentRecommendations, collaborativeRecommendations.recommendations);
       
       // Combine and rank recommendations
-      const combinedRecommendations = await this.combineAndRankRecommendations(
-        contentRecommendations,
-        collaborativeRecommendations,
-        userAnalysis
-      );
+      const combinedRecommendations = merged.length > 0
+        ? await run.stage(
+            'combine',
+            timeouts.combine,
+            signal => this.combineAndRankRecommendations(merged, collaborativeRecommendations.userAnalysis, signal, run.tokens),
+            () => merged
+          )
+        : [];
       
-      return combinedRecommendations.slice(0, maxRecommendations);
+      const recommendations = topUp(applyFeedback(combinedRecommendations), applyFeedback(fallback()), maxRecommendations);
+      return { recommendations, metrics: run.finish(this.getLLMMetrics()) };
     } catch (error) {
       console.error('Error generating recommendations:', error);
-      // Fall back to simple category-based recommendations
-      return this.getFallbackRecommendations(products, userPreferences, maxRecommendations);
+      // Fall back to the deterministic ranker
+      return { recommendations: applyFeedback(fallback()), metrics: { ...run.finish(this.getLLMMetrics()), partial: true } };
     }
   }
   
   /**
-   * Analyze user behavior patterns using Gemini AI
+   * Rank products with the deterministic hybrid ranker
+   */
+  private getHybridRecommendations(
+    products: Product[],
+    userPreferences: UserPreference,
+    maxRecommendations: number,
+    { interactionLog = [], coOccurrence = [] }: RecommendationOptions = {}
+  ): Recommendation[] {
+    const ranker = new HybridRanker(products, [...interactionLog, ...userPreferences.interactionHistory])
+      .withCoOccurrence(coOccurrence);
+    return ranker.recommend(userPreferences, maxRecommendations);
+  }
+  
+  /**
+   * Products like the one the user most recently showed interest in, from
+   * the deterministic ranker
    */
-  private async analyzeUserBehavior(userPreferences: UserPreference): Promise<UserAnalysis> {
-    const recentInteractions = userPreferences.interactionHistory
-      .slice(-20) // Get last 20 interactions
+  private getRecentlySimilar(
+    products: Product[],
+    userPreferences: UserPreference,
+    maxRecommendations: number,
+    coOccurrence: CoOccurrenceCount[] = []
+  ): Recommendation[] {
+    const recent = userPreferences.interactionHistory.find(i => INTERACTION_WEIGHTS[i.interactionType] !== 0);
+    return recent
+      ? new HybridRanker(products).withCoOccurrence(coOccurrence).similar(recent.productId, maxRecommendations)
+      : [];
+  }
+  
+  /**
+   * Let the model re-order a fixed candidate list and rewrite the reasons.
+   * The model cannot introduce new products; candidates it leaves out keep
+   * their ranker order after the re-ranked ones.
+   */
+  private async rerankWithLLM(
+    candidates: Recommendation[],
+    products: Product[],
+    userPreferences: UserPreference,
+    signal?: AbortSignal,
+    tokens?: TokenLedger
+  ): Promise<Recommendation[]> {
+    if (candidates.length === 0) {
+      return candidates;
+    }
+    
+    const productsById = new Map(products.map(p => [p.id, p]));
+    const prompt = `
+      Re-rank these product recommendations for a shopper and explain each one.
+      
+      User Profile:
+      - Categories: ${userPreferences.preferredCategories.join(', ')}
+      - Brands: ${userPreferences.preferredBrands.join(', ')}
+      - Price Range: $${userPreferences.priceRange[0]} - $${userPreferences.priceRange[1]}
+      - Recently interacted with: ${recentProducts(userPreferences, productsById).map(p => p.name).join(', ')}
+      
+      Candidates:
+      ${candidates.map(rec => {
+        const p = productsById.get(rec.productId)!;
+        return `
+        ID: ${rec.productId}
+        Name: ${p.name}
+        Category: ${p.category}/${p.subcategory}
+        Brand: ${p.brand}
+        Price: $${p.price}
+        Ranker Score: ${rec.score}
+        Ranker Reason: ${rec.reason}
+      `;
+      }).join('\n')}
+      
+      Reorder the candidates from best to worst for this shopper. Keep every
+      product ID unchanged, adjust scores, and write a short, specific reason
+      for each recommendation.
+      
+      Format response as JSON array:
+      [
+        {
+          "productId": "string",
+          "score": number (0-100),
+          "reason": "string",
+          "category": "hybrid_llm"
+        }
+      ]
+    `;
+    
+    const reranked = await this.generateStructured(
+      'rerank',
+      prompt,
+      value => validateRecommendations(value, new Set(candidates.map(rec => rec.productId))),
+      { shape: 'array', signal, tokens }
+    );
+    const returned = new Set(reranked.map(rec => rec.productId));
+    return [...reranked, ...candidates.filter(rec => !returned.has(rec.productId))];
+  }
+  
+  /**
+   * Ask the model for JSON and validate it against a schema.
+   * An invalid answer is sent back once with the validation errors so the
+   * model can repair it; a second failure throws. Every attempt, repairs
+   * included, is recorded in the run's token ledger when one is passed.
+   */
+  private async generateStructured<T>(
+    stage: string,
+    prompt: string,
+    validate: (value: unknown) => ValidationResult<T>,
+    options: { shape: JSONShape; droppedItems?: number; signal?: AbortSignal; tokens?: TokenLedger }
+  ): Promise<T> {
+    let errors: string[] = [];
+    const basePrompt = this.promptInstructions
+      ? `${prompt}
+      Additional instructions:
+      ${this.promptInstructions}
+    `
+      : prompt;
+    
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const attemptPrompt = attempt === 0 ? basePrompt : this.buildRepairPrompt(basePrompt, errors);
+      
+      const record = (completionTokens: number) => options.tokens?.record({
+        stage,
+        promptTokens: estimateTokens(attemptPrompt),
+        completionTokens,
+        budget: this.budget.maxPromptTokens,
+        droppedItems: attempt === 0 ? options.droppedItems || 0 : 0,
+        repair: attempt > 0
+      });
+      
+      let value: unknown;
+      try {
+        value = await this.llm.generateJSON(attemptPrompt, { shape: options.shape, signal: options.signal });
+        record(estimateTokens(JSON.stringify(value)));
+      } catch (error) {
+        if (!(error instanceof InvalidJSONError)) {
+          throw error;
+        }
+        // The unparseable text is not returned, so only the prompt is counted
+        record(0);
+        errors = [error.message];
+        continue;
+      }
+      
+      const result = validate(value);
+      if (result.success) {
+        if (result.warnings.length > 0) {
+          console.warn('Discarded invalid model output:', result.warnings);
+        }
+        return result.data;
+      }
+      errors = result.errors;
+    }
+    
+    throw new Error(`Model output failed validation: ${errors.join('; ')}`);
+  }
+  
+  /**
+   * Build a prompt whose catalog section holds as many products as fit in
+   * the per-call token budget, in priority order
+   */
+  private buildBudgetedPrompt(
+    products: Product[],
+    renderProduct: (product: Product) => string,
+    template: (catalogSection: string) => string
+  ): { prompt: string; items: Product[]; dropped: number } {
+    const overhead = estimateTokens(template(''));
+    const section = fitToTokenBudget(products, renderProduct, this.budget.maxPromptTokens - overhead);
+    
+    if (section.dropped > 0) {
+      console.warn(`Prompt budget exceeded, dropped ${section.dropped} of ${products.length} products`);
+    }
+    
+    return { prompt: template(section.text), items: section.items, dropped: section.dropped };
+  }
+  
+  private buildRepairPrompt(prompt: string, errors: string[]): string {
+    return `${prompt}
+      
+      Your previous answer was rejected because:
+      ${errors.slice(0, 10).map(e => `- ${e}`).join('\n')}
+      
+      Answer again with only valid JSON in the requested format.
+      Only use product IDs that appear in the data above.
+    `;
+  }
+  
+  /**
+   * Analyze user behavior patterns using the language model
+   */
+  private async analyzeUserBehavior(
+    userPreferences: UserPreference,
+    signal?: AbortSignal,
+    tokens?: TokenLedger
+  ): Promise<UserAnalysis> {
+    const recentInteractions = [...userPreferences.interactionHistory]
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .slice(0, 20) // Get the 20 most recent interactions
       .map(interaction => ({
         type: interaction.interactionType,
         timestamp: interaction.timestamp,
@@ -153,29 +569,7 @@ export class AIRecommendationService {
       }
     `;
     
-    const result = await this.model.generateContent(prompt);
-    const response = result.response;
-    const text = response.text();
-    
-    try {
-      // Extract JSON from response
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-    } catch (error) {
-      console.error('Error parsing AI response:', error);
-    }
-    
-    // Return default analysis if parsing fails
-    return {
-      intent: "browsing",
-      categoryStrength: 5,
-      brandLoyalty: 5,
-      priceSensitivity: 5,
-      topFeatures: userPreferences.preferredFeatures.slice(0, 3),
-      behaviorPatterns: ["general_browsing"]
-    };
+    return this.generateStructured('analysis', prompt, validateUserAnalysis, { shape: 'object', signal, tokens });
   }
   
   /**
@@ -183,19 +577,31 @@ export class AIRecommendationService {
    */
   private async getContentBasedRecommendations(
     products: Product[],
+    candidateProducts: Product[],
     userPreferences: UserPreference,
-    userAnalysis: UserAnalysis
+    signal?: AbortSignal,
+    tokens?: TokenLedger
   ): Promise<Recommendation[]> {
-    // Get products the user has interacted with
-    const interactedProductIds = userPreferences.interactionHistory.map(i => i.productId);
-    const interactedProducts = products.filter(p => interactedProductIds.includes(p.id));
+    const interactedProducts = recentProducts(userPreferences, new Map(products.map(p => [p.id, p])));
     
     if (interactedProducts.length === 0) {
       return [];
     }
     
     // Create product similarity analysis prompt
-    const prompt = `
+    const { prompt, items: promptProducts, dropped } = this.buildBudgetedPrompt(
+      candidateProducts,
+      p => `
+          ID: ${p.id}
+          Name: ${p.name}
+          Category: ${p.category}/${p.subcategory}
+          Brand: ${p.brand}
+          Price: $${p.price}
+          Features: ${p.features.join(', ')}
+          Tags: ${p.tags.join(', ')}
+          Description: ${p.description}
+        `,
+      catalogSection => `
       Based on these products the user has interacted with:
       ${interactedProducts.map(p => `
         - ${p.name} (${p.category}/${p.subcategory})
@@ -206,25 +612,13 @@ export class AIRecommendationService {
       `).join('\n')}
       
       From this catalog of available products:
-      ${products.filter(p => !interactedProductIds.includes(p.id))
-        .slice(0, 50) // Limit for API efficiency
-        .map(p => `
-          ID: ${p.id}
-          Name: ${p.name}
-          Category: ${p.category}/${p.subcategory}
-          Brand: ${p.brand}
-          Price: $${p.price}
-          Features: ${p.features.join(', ')}
-          Tags: ${p.tags.join(', ')}
-          Description: ${p.description}
-        `).join('\n')}
+      ${catalogSection}
       
-      User Analysis:
-      - Shopping Intent: ${userAnalysis.intent}
-      - Category Strength: ${userAnalysis.categoryStrength}/10
-      - Brand Loyalty: ${userAnalysis.brandLoyalty}/10
-      - Price Sensitivity: ${userAnalysis.priceSensitivity}/10
-      - Top Features: ${userAnalysis.topFeatures.join(', ')}
+      User Preferences:
+      - Categories: ${userPreferences.preferredCategories.join(', ')}
+      - Brands: ${userPreferences.preferredBrands.join(', ')}
+      - Price Range: $${userPreferences.priceRange[0]} - $${userPreferences.priceRange[1]}
+      - Features: ${userPreferences.preferredFeatures.join(', ')}
       
       Please recommend 15 products that are most similar to the user's preferences.
       Consider:
@@ -243,34 +637,40 @@ export class AIRecommendationService {
           "category": "content_based"
         }
       ]
-    `;
-    
-    const result = await this.model.generateContent(prompt);
-    const response = result.response;
-    const text = response.text();
-    
-    try {
-      const jsonMatch = text.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-    } catch (error) {
-      console.error('Error parsing content-based recommendations:', error);
-    }
+    `
+    );
     
-    return [];
+    return this.generateStructured(
+      'content',
+      prompt,
+      value => validateRecommendations(value, new Set(promptProducts.map(p => p.id))),
+      { shape: 'array', droppedItems: dropped, signal, tokens }
+    );
   }
   
   /**
    * Get collaborative filtering recommendations
    */
   private async getCollaborativeRecommendations(
-    products: Product[],
+    candidateProducts: Product[],
     userPreferences: UserPreference,
-    userAnalysis: UserAnalysis
+    userAnalysis: UserAnalysis,
+    signal?: AbortSignal,
+    tokens?: TokenLedger
   ): Promise<Recommendation[]> {
     // For now, simulate collaborative filtering with category and brand patterns
-    const prompt = `
+    const { prompt, items: promptProducts, dropped } = this.buildBudgetedPrompt(
+      candidateProducts,
+      p => `
+        ID: ${p.id}
+        Name: ${p.name}
+        Category: ${p.category}
+        Brand: ${p.brand}
+        Price: $${p.price}
+        Rating: ${p.ratings.average}
+        Features: ${p.features.join(', ')}
+      `,
+      catalogSection => `
       Based on user behavior patterns and preferences:
       
       User Profile:
@@ -280,16 +680,8 @@ export class AIRecommendationService {
       - Shopping Intent: ${userAnalysis.intent}
       - Behavior Patterns: ${userAnalysis.behaviorPatterns.join(', ')}
       
-      Product Catalog (sample):
-      ${products.slice(0, 30).map(p => `
-        ID: ${p.id}
-        Name: ${p.name}
-        Category: ${p.category}
-        Brand: ${p.brand}
-        Price: $${p.price}
-        Rating: ${p.ratings.average}
-        Features: ${p.features.join(', ')}
-      `).join('\n')}
+      Product Catalog (shortlist):
+      ${catalogSection}
       
       Using collaborative filtering logic, recommend products that:
       1. Are popular in the user's preferred categories
@@ -307,38 +699,26 @@ export class AIRecommendationService {
           "category": "collaborative"
         }
       ]
-    `;
-    
-    const result = await this.model.generateContent(prompt);
-    const response = result.response;
-    const text = response.text();
-    
-    try {
-      const jsonMatch = text.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-    } catch (error) {
-      console.error('Error parsing collaborative recommendations:', error);
-    }
+    `
+    );
     
-    return [];
+    return this.generateStructured(
+      'collaborative',
+      prompt,
+      value => validateRecommendations(value, new Set(promptProducts.map(p => p.id))),
+      { shape: 'array', droppedItems: dropped, signal, tokens }
+    );
   }
   
   /**
-   * Combine and rank recommendations from different sources
+   * Let the model rank the merged recommendations from the different sources
    */
   private async combineAndRankRecommendations(
-    contentRecommendations: Recommendation[],
-    collaborativeRecommendations: Recommendation[],
-    userAnalysis: UserAnalysis
+    uniqueRecommendations: Recommendation[],
+    userAnalysis: UserAnalysis,
+    signal?: AbortSignal,
+    tokens?: TokenLedger
   ): Promise<Recommendation[]> {
-    // Combine recommendations and remove duplicates
-    const allRecommendations = [...contentRecommendations, ...collaborativeRecommendations];
-    const uniqueRecommendations = allRecommendations.filter(
-      (rec, index, self) => self.findIndex(r => r.productId === rec.productId) === index
-    );
-    
     // Use AI to rank the combined recommendations
     const prompt = `
       Rank these product recommendations based on the user analysis:
@@ -375,21 +755,12 @@ export class AIRecommendationService {
       ]
     `;
     
-    const result = await this.model.generateContent(prompt);
-    const response = result.response;
-    const text = response.text();
-    
-    try {
-      const jsonMatch = text.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-    } catch (error) {
-      console.error('Error parsing ranked recommendations:', error);
-    }
-    
-    // Fall back to simple score-based ranking
-    return uniqueRecommendations.sort((a, b) => b.score - a.score);
+    return this.generateStructured(
+      'combine',
+      prompt,
+      value => validateRecommendations(value, new Set(uniqueRecommendations.map(rec => rec.productId))),
+      { shape: 'array', signal, tokens }
+    );
   }
   
   /**
@@ -398,46 +769,84 @@ export class AIRecommendationService {
   private getFallbackRecommendations(
     products: Product[],
     userPreferences: UserPreference,
-    maxRecommendations: number
+    maxRecommendations: number,
+    options: RecommendationOptions = {}
   ): Recommendation[] {
-    const interactedProductIds = userPreferences.interactionHistory.map(i => i.productId);
-    const availableProducts = products.filter(p => !interactedProductIds.includes(p.id));
-    
-    // Simple category-based recommendations
-    const categoryRecommendations = availableProducts
-      .filter(p => userPreferences.preferredCategories.includes(p.category))
-      .sort((a, b) => b.ratings.average - a.ratings.average)
-      .slice(0, maxRecommendations)
-      .map(p => ({
-        productId: p.id,
-        score: p.ratings.average * 20, // Convert 5-star to 100-point scale
-        reason: `Recommended based on your interest in ${p.category}`,
-        category: 'fallback'
+    return this.getHybridRecommendations(products, userPreferences, maxRecommendations, options)
+      .map(rec => ({ ...rec, category: 'fallback' }));
+  }
+  
+  /**
+   * Recommendations for shoppers who have not consented to personalization:
+   * recent activity across all shoppers, then rating quality. Nothing about
+   * the shopper is used, and no model is called.
+   * @param products - Products to choose from
+   * @param trendingScores - Time-decayed activity across all users, from get_trending_products
+   */
+  getNonPersonalizedRecommendations(
+    products: Product[],
+    maxRecommendations: number = 10,
+    trendingScores: TrendingScore[] = []
+  ): Recommendation[] {
+    const available = new Set(products.map(p => p.id));
+    const topScore = Math.max(0, ...trendingScores.map(t => t.score));
+    const trending = trendingScores
+      .filter(t => available.has(t.productId))
+      .map(t => ({
+        productId: t.productId,
+        score: topScore > 0 ? Math.round((t.score / topScore) * 100) : 0,
+        reason: `Popular with shoppers right now (${t.interactions} recent interactions)`,
+        category: 'popular'
       }));
-    
-    return categoryRecommendations;
+    const popular = new HybridRanker(products)
+      .popular(maxRecommendations)
+      .map(rec => ({ ...rec, category: 'popular' }));
+
+    return topUp(trending, popular, maxRecommendations);
   }
   
   /**
    * Get trending products across categories
+   * @param products - Products to choose from (pre-filter for per-category trending)
+   * @param maxResults - Maximum number of products to return
+   * @param trendingScores - Time-decayed activity across all users, from get_trending_products
    */
-  async getTrendingProducts(products: Product[], maxResults: number = 10): Promise<Recommendation[]> {
-    const prompt = `
+  async getTrendingProducts(
+    products: Product[],
+    maxResults: number = 10,
+    trendingScores: TrendingScore[] = []
+  ): Promise<Recommendation[]> {
+    const activity = new Map(trendingScores.map(t => [t.productId, t]));
+    
+    // Products with real recent activity first, then by rating quality
+    const rankedProducts = [...products].sort((a, b) =>
+      (activity.get(b.id)?.score || 0) - (activity.get(a.id)?.score || 0) ||
+      popularity(b) - popularity(a)
+    );
+    const candidateProducts = new CandidateGenerator(products)
+      .forTrending(trendingScores, this.budget.maxCandidates);
+    
+    const { prompt, items: promptProducts, dropped } = this.buildBudgetedPrompt(
+      candidateProducts,
+      p => `
+        ID: ${p.id}
+        Name: ${p.name}
+        Category: ${p.category}
+        Price: $${p.price}
+        Rating: ${p.ratings.average}${p.ratings.count > 0 ? ` (${p.ratings.count} reviews)` : ''}
+        Recent Activity: ${activity.get(p.id)?.score.toFixed(1) ?? 0} (${activity.get(p.id)?.interactions ?? 0} interactions this week)
+        Features: ${p.features.join(', ')}
+      `,
+      catalogSection => `
       Analyze these products and identify trending items based on:
+      - Recent shopper activity (time-decayed, higher is hotter)
       - High ratings and review counts
       - Popular categories
       - Competitive pricing
       - Modern features
       
       Products:
-      ${products.slice(0, 50).map(p => `
-        ID: ${p.id}
-        Name: ${p.name}
-        Category: ${p.category}
-        Price: $${p.price}
-        Rating: ${p.ratings.average} (${p.ratings.count} reviews)
-        Features: ${p.features.join(', ')}
-      `).join('\n')}
+      ${catalogSection}
       
       Return top ${maxResults} trending products as JSON:
       [
@@ -448,43 +857,73 @@ export class AIRecommendationService {
           "category": "trending"
         }
       ]
-    `;
+    `
+    );
     
-    try {
-      const result = await this.model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-      
-      const jsonMatch = text.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-    } catch (error) {
-      console.error('Error getting trending products:', error);
+    const trending = await new PipelineRun('trending', this.budget.stageTimeoutsMs.trending).stage<Recommendation[] | null>(
+      'trending',
+      this.budget.stageTimeoutsMs.trending,
+      signal => this.generateStructured(
+        'trending',
+        prompt,
+        value => validateRecommendations(value, new Set(promptProducts.map(p => p.id))),
+        { shape: 'array', droppedItems: dropped, signal }
+      ),
+      () => null
+    );
+    if (trending) {
+      return trending;
     }
     
-    // Fallback to high-rated products
-    return products
-      .sort((a, b) => (b.ratings.average * Math.log(b.ratings.count + 1)) - 
-                     (a.ratings.average * Math.log(a.ratings.count + 1)))
+    // Fallback to recent activity, then high-rated products
+    const maxActivity = Math.max(0, ...trendingScores.map(t => t.score));
+    return rankedProducts
       .slice(0, maxResults)
-      .map(p => ({
-        productId: p.id,
-        score: p.ratings.average * 20,
-        reason: `Trending due to high rating (${p.ratings.average}) and ${p.ratings.count} reviews`,
-        category: 'trending'
-      }));
+      .map(p => {
+        const recent = activity.get(p.id);
+        return recent && maxActivity > 0
+          ? {
+              productId: p.id,
+              score: Math.round(50 + 50 * recent.score / maxActivity),
+              reason: `Trending with ${recent.interactions} shopper interactions this week`,
+              category: 'trending'
+            }
+          : {
+              productId: p.id,
+              score: p.ratings.average * 20,
+              reason: p.ratings.count > 0
+                ? `Trending due to high rating (${p.ratings.average}) and ${p.ratings.count} reviews`
+                : `Trending due to high rating (${p.ratings.average})`,
+              category: 'trending'
+            };
+      });
   }
   
   /**
    * Get similar products to a specific product
+   * @param coOccurrence - Basket co-occurrence across all shoppers for the target, from get_co_occurrence
    */
   async getSimilarProducts(
     targetProduct: Product,
     allProducts: Product[],
-    maxResults: number = 5
+    maxResults: number = 5,
+    coOccurrence: CoOccurrenceCount[] = []
   ): Promise<Recommendation[]> {
-    const prompt = `
+    const candidateProducts = new CandidateGenerator(allProducts, [], coOccurrence)
+      .forProduct(targetProduct, this.budget.maxCandidates);
+    
+    const { prompt, items: promptProducts, dropped } = this.buildBudgetedPrompt(
+      candidateProducts,
+      p => `
+          ID: ${p.id}
+          Name: ${p.name}
+          Category: ${p.category}/${p.subcategory}
+          Brand: ${p.brand}
+          Price: $${p.price}
+          Features: ${p.features.join(', ')}
+          Description: ${p.description}
+        `,
+      catalogSection => `
       Find products similar to this target product:
       
       Target Product:
@@ -496,18 +935,7 @@ export class AIRecommendationService {
       Description: ${targetProduct.description}
       
       Available Products:
-      ${allProducts
-        .filter(p => p.id !== targetProduct.id)
-        .slice(0, 30)
-        .map(p => `
-          ID: ${p.id}
-          Name: ${p.name}
-          Category: ${p.category}/${p.subcategory}
-          Brand: ${p.brand}
-          Price: $${p.price}
-          Features: ${p.features.join(', ')}
-          Description: ${p.description}
-        `).join('\n')}
+      ${catalogSection}
       
       Find the ${maxResults} most similar products considering:
       1. Same or related category
@@ -525,36 +953,75 @@ export class AIRecommendationService {
           "category": "similar"
         }
       ]
-    `;
+    `
+    );
     
-    try {
-      const result = await this.model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-      
-      const jsonMatch = text.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-    } catch (error) {
-      console.error('Error getting similar products:', error);
+    const similar = await new PipelineRun('similar', this.budget.stageTimeoutsMs.similar).stage<Recommendation[] | null>(
+      'similar',
+      this.budget.stageTimeoutsMs.similar,
+      signal => this.generateStructured(
+        'similar',
+        prompt,
+        value => validateRecommendations(value, new Set(promptProducts.map(p => p.id))),
+        { shape: 'array', droppedItems: dropped, signal }
+      ),
+      () => null
+    );
+    if (similar) {
+      return similar;
     }
     
-    // Fallback to category-based similarity
-    return allProducts
-      .filter(p => p.id !== targetProduct.id && 
-                   p.category === targetProduct.category)
-      .sort((a, b) => Math.abs(a.price - targetProduct.price) - 
-                     Math.abs(b.price - targetProduct.price))
-      .slice(0, maxResults)
-      .map(p => ({
-        productId: p.id,
-        score: 80 - Math.abs(p.price - targetProduct.price) / 10,
-        reason: `Similar ${p.category} product from ${p.brand}`,
-        category: 'similar'
-      }));
+    // Fallback to content similarity from the deterministic ranker
+    return new HybridRanker(allProducts).withCoOccurrence(coOccurrence).similar(targetProduct.id, maxResults);
   }
 }
 
+/**
+ * The most recent distinct products the user has interacted with, newest
+ * first, whatever order the history arrives in
+ */
+function recentProducts(userPreferences: UserPreference, productsById: Map<string, Product>): Product[] {
+  const newestFirst = [...userPreferences.interactionHistory]
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  return Array.from(new Set(newestFirst.map(i => i.productId)))
+    .map(id => productsById.get(id))
+    .filter((p): p is Product => !!p)
+    .slice(0, MAX_HISTORY_PRODUCTS);
+}
+
+/**
+ * Neutral analysis used when the model cannot analyze the user in time
+ */
+function getDefaultAnalysis(userPreferences: UserPreference): UserAnalysis {
+  return {
+    intent: "browsing",
+    categoryStrength: 5,
+    brandLoyalty: 5,
+    priceSensitivity: 5,
+    topFeatures: userPreferences.preferredFeatures.slice(0, 3),
+    behaviorPatterns: ["general_browsing"]
+  };
+}
+
+/**
+ * Merge recommendation lists, keeping the first occurrence of each product,
+ * ordered by score
+ */
+function mergeByScore(...lists: Recommendation[][]): Recommendation[] {
+  const seen = new Set<string>();
+  return lists
+    .flat()
+    .filter(rec => !seen.has(rec.productId) && !!seen.add(rec.productId))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Fill a short list up to the requested size from a backup list
+ */
+function topUp(primary: Recommendation[], backup: Recommendation[], max: number): Recommendation[] {
+  const included = new Set(primary.map(rec => rec.productId));
+  return [...primary, ...backup.filter(rec => !included.has(rec.productId))].slice(0, max);
+}
+
 // Export singleton instance
 export const aiRecommendationService = new AIRecommendationService(); 
\ No newline at end of file
@@ -0,0 +1,142 @@
+// Merging a signed-out visitor's interactions and preferences into their account
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { UserPreference } from '@/lib/interaction-tracker';
+import { RecommendationCache } from '@/lib/recommendation-cache';
+
+// Preferences a visitor built up before signing in (kept in localStorage)
+export type AnonymousPreferences = Partial<Pick<
+  UserPreference,
+  'preferredCategories' | 'preferredBrands' | 'priceRange' | 'preferredFeatures'
+>>;
+
+export interface MergeAnonymousRequest {
+  preferences?: AnonymousPreferences;
+}
+
+export interface MergeAnonymousResponse {
+  mergedInteractions: number;
+  mergedPreferences: boolean;
+}
+
+interface PreferenceRow {
+  preferred_categories: string[] | null;
+  preferred_brands: string[] | null;
+  price_range_min: number | null;
+  price_range_max: number | null;
+  preferred_features: string[] | null;
+}
+
+// Longest list kept per preference field after merging
+const MAX_PREFERENCE_VALUES = 20;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Keep only well-formed fields of client-supplied preferences
+ */
+export function sanitizePreferences(value: unknown): AnonymousPreferences {
+  if (typeof value !== 'object' || value === null) {
+    return {};
+  }
+
+  const p = value as Record<string, unknown>;
+  const result: AnonymousPreferences = {};
+
+  for (const field of ['preferredCategories', 'preferredBrands', 'preferredFeatures'] as const) {
+    if (isStringArray(p[field])) {
+      result[field] = p[field].slice(0, MAX_PREFERENCE_VALUES);
+    }
+  }
+
+  const range = p.priceRange;
+  if (Array.isArray(range) && range.length === 2 && range.every(n => typeof n === 'number' && n >= 0) && range[0] <= range[1]) {
+    result.priceRange = [range[0], range[1]];
+  }
+
+  return result;
+}
+
+const union = (first: string[] | null | undefined, second: string[] | undefined) =>
+  Array.from(new Set([...(first || []), ...(second || [])])).slice(0, MAX_PREFERENCE_VALUES);
+
+const hasPreferences = (preferences: AnonymousPreferences) =>
+  !!(preferences.preferredCategories?.length ||
+    preferences.preferredBrands?.length ||
+    preferences.preferredFeatures?.length ||
+    preferences.priceRange);
+
+/**
+ * Combine stored account preferences with anonymous ones. Account values come
+ * first; an explicitly stored price range wins over the anonymous one.
+ */
+export function mergePreferences(existing: PreferenceRow | null, anonymous: AnonymousPreferences): PreferenceRow {
+  const hasStoredRange = existing?.price_range_min != null && existing?.price_range_max != null;
+
+  return {
+    preferred_categories: union(existing?.preferred_categories, anonymous.preferredCategories),
+    preferred_brands: union(existing?.preferred_brands, anonymous.preferredBrands),
+    preferred_features: union(existing?.preferred_features, anonymous.preferredFeatures),
+    price_range_min: hasStoredRange ? existing!.price_range_min : anonymous.priceRange?.[0] ?? 0,
+    price_range_max: hasStoredRange ? existing!.price_range_max : anonymous.priceRange?.[1] ?? 3000
+  };
+}
+
+/**
+ * Move a visitor's anonymous interactions to the signed-in user and fold in
+ * their anonymous preferences, then drop cached recommendations so the next
+ * request is built from the merged history.
+ * @param supabase - Server client with the user's session
+ * @param userId - Signed-in user receiving the history
+ * @param anonymousId - Visitor cookie ID; interactions are skipped without it
+ * @param preferences - Anonymous preferences sent by the browser
+ */
+export async function mergeAnonymousHistory(
+  supabase: SupabaseClient,
+  userId: string,
+  anonymousId: string | undefined,
+  preferences: AnonymousPreferences = {}
+): Promise<MergeAnonymousResponse> {
+  let mergedInteractions = 0;
+
+  if (anonymousId) {
+    const { data, error } = await supabase.rpc('merge_anonymous_history', { p_anonymous_id: anonymousId });
+    if (error) {
+      throw new Error(`Failed to merge anonymous interactions: ${error.message}`);
+    }
+    mergedInteractions = Number(data) || 0;
+  }
+
+  let mergedPreferences = false;
+
+  if (hasPreferences(preferences)) {
+    const { data: existing } = await supabase
+      .from('user_preferences')
+      .select('preferred_categories, preferred_brands, price_range_min, price_range_max, preferred_features')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert(
+        {
+          user_id: userId,
+          ...mergePreferences(existing as PreferenceRow | null, preferences),
+          updated_at: new Date().toISOString()
+        },
+        { onConflict: 'user_id' }
+      );
+
+    if (error) {
+      throw new Error(`Failed to merge anonymous preferences: ${error.message}`);
+    }
+    mergedPreferences = true;
+  }
+
+  if (mergedInteractions > 0 || mergedPreferences) {
+    await new RecommendationCache(supabase).invalidate(userId);
+  }
+
+  return { mergedInteractions, mergedPreferences };
+}
@@ -0,0 +1,47 @@
+// Anonymous visitor ID kept in a cookie so signed-out activity can be merged into an account later
+
+import type { NextRequest, NextResponse } from 'next/server';
+
+export const ANONYMOUS_ID_COOKIE = 'anon_visitor_id';
+
+const ANONYMOUS_ID_MAX_AGE_S = 60 * 60 * 24 * 365;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface CookieReader {
+  get(name: string): { value: string } | undefined;
+}
+
+/**
+ * The visitor ID from a request's cookies, or undefined when missing or malformed
+ */
+export function readAnonymousId(cookies: CookieReader): string | undefined {
+  const value = cookies.get(ANONYMOUS_ID_COOKIE)?.value;
+  return value && UUID_PATTERN.test(value) ? value : undefined;
+}
+
+/**
+ * Give a signed-out visitor an ID cookie if they do not have one yet.
+ * The cookie is httpOnly because only the server needs it.
+ */
+export function ensureAnonymousId(request: NextRequest, response: NextResponse): void {
+  if (readAnonymousId(request.cookies)) {
+    return;
+  }
+
+  response.cookies.set(ANONYMOUS_ID_COOKIE, crypto.randomUUID(), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: ANONYMOUS_ID_MAX_AGE_S
+  });
+}
+
+/**
+ * Forget the visitor ID once its history belongs to an account, so a later
+ * signed-out session starts fresh
+ */
+export function clearAnonymousId(response: NextResponse): void {
+  response.cookies.delete(ANONYMOUS_ID_COOKIE);
+}
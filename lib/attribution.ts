@@ -0,0 +1,109 @@
+// Impression and click attribution: CTR and conversion by list position
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { wilsonInterval, type RateEstimate } from '@/lib/experiments';
+import type { RecommendationType } from '@/lib/recommendation-api';
+
+// Per-slot totals, as returned by get_position_report
+export interface PositionCounts {
+  recommendationType: RecommendationType;
+  // 1-based position in the list
+  slot: number;
+  impressions: number;
+  // Impressions the shopper clicked through from
+  clicks: number;
+  // Impressions that led to a cart add from the same card
+  cartAdds: number;
+}
+
+export interface PositionResult extends PositionCounts {
+  ctr: RateEstimate;
+  conversionRate: RateEstimate;
+}
+
+export interface PositionReport {
+  since: Date;
+  positions: PositionResult[];
+}
+
+export interface PositionReportOptions {
+  since: Date;
+  // All list types when omitted
+  recommendationType?: RecommendationType;
+}
+
+interface PositionReportRow {
+  recommendation_type: RecommendationType;
+  slot: number;
+  impressions: number | string;
+  clicks: number | string;
+  cart_adds: number | string;
+}
+
+/**
+ * CTR and conversion (cart adds per impression) for every list type and
+ * slot, with 95% intervals, ordered by type and then position
+ */
+export function computePositionReport(counts: PositionCounts[], since: Date): PositionReport {
+  return {
+    since,
+    positions: [...counts]
+      .sort((a, b) => a.recommendationType.localeCompare(b.recommendationType) || a.slot - b.slot)
+      .map(count => ({
+        ...count,
+        ctr: wilsonInterval(count.clicks, count.impressions),
+        conversionRate: wilsonInterval(count.cartAdds, count.impressions)
+      }))
+  };
+}
+
+/**
+ * Load per-slot totals and build the report. Needs a client with the service
+ * role key, since the counts span every user.
+ */
+export async function loadPositionReport(
+  supabase: SupabaseClient,
+  options: PositionReportOptions
+): Promise<PositionReport> {
+  const { data, error } = await supabase.rpc('get_position_report', {
+    p_since: options.since.toISOString(),
+    p_recommendation_type: options.recommendationType ?? null
+  });
+
+  if (error) {
+    throw new Error(`Failed to load position report: ${error.message}`);
+  }
+
+  const counts = ((data || []) as PositionReportRow[]).map(row => ({
+    recommendationType: row.recommendation_type,
+    slot: Number(row.slot),
+    impressions: Number(row.impressions),
+    clicks: Number(row.clicks),
+    cartAdds: Number(row.cart_adds)
+  }));
+  return computePositionReport(counts, options.since);
+}
+
+/**
+ * Render a report as a fixed-width table
+ */
+export function formatPositionReport(report: PositionReport): string {
+  const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+  const estimate = (value: RateEstimate) => `${percent(value.rate)} [${percent(value.low)}, ${percent(value.high)}]`;
+  const rows = [
+    ['type', 'slot', 'impressions', 'clicks', 'CTR (95% CI)', 'cart adds', 'conversion (95% CI)'],
+    ...report.positions.map(p => [
+      p.recommendationType,
+      String(p.slot),
+      String(p.impressions),
+      String(p.clicks),
+      estimate(p.ctr),
+      String(p.cartAdds),
+      estimate(p.conversionRate)
+    ])
+  ];
+  const widths = rows[0].map((_, index) => Math.max(...rows.map(row => row[index].length)));
+  return rows
+    .map(row => row.map((cell, index) => (index === 0 ? cell.padEnd(widths[index]) : cell.padStart(widths[index]))).join('  '))
+    .join('\n');
+}
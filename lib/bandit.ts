@@ -0,0 +1,254 @@
+// Multi-armed bandit that learns how much of a personalized list each recommendation source gets, per shopper segment
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Recommendation } from '@/lib/recommendation-schema';
+
+/**
+ * Sources the bandit blends:
+ * - content: the model's content-based list
+ * - collaborative: the model's collaborative list
+ * - trending: recent activity across all shoppers
+ * - similar: products like the one the shopper interacted with most recently
+ */
+export const BANDIT_SOURCES = ['content', 'collaborative', 'trending', 'similar'] as const;
+
+export type BanditSource = typeof BANDIT_SOURCES[number];
+
+/**
+ * Segments learned separately, since what works for a first visit rarely
+ * works for a returning buyer:
+ * - new: fewer than NEW_SHOPPER_INTERACTIONS interactions
+ * - browsing: no cart adds or purchases yet
+ * - buying: has added to cart or purchased
+ */
+export type ShopperSegment = 'new' | 'browsing' | 'buying';
+
+export const SHOPPER_SEGMENTS: ShopperSegment[] = ['new', 'browsing', 'buying'];
+
+export type BanditAlgorithm = 'thompson' | 'ucb';
+
+export const BANDIT_ALGORITHMS: BanditAlgorithm[] = ['thompson', 'ucb'];
+
+export interface BanditConfig {
+  algorithm: BanditAlgorithm;
+  // 1 is the textbook algorithm; higher explores more, 0 always exploits
+  exploration: number;
+}
+
+// Share of the list each source gets; sums to 1
+export type BlendWeights = Record<BanditSource, number>;
+
+// One source's running totals in a segment, from bandit_arms
+export interface BanditArm {
+  segment: ShopperSegment;
+  source: BanditSource;
+  // Impressions of the source's recommendations
+  trials: number;
+  // 1 per impression that led to a cart add, 0.5 per one that was only clicked
+  rewards: number;
+}
+
+interface BanditArmRow {
+  segment: ShopperSegment;
+  source: BanditSource;
+  trials: number | string;
+  rewards: number | string;
+}
+
+const NEW_SHOPPER_INTERACTIONS = 5;
+
+const DEFAULT_CONFIG: BanditConfig = {
+  algorithm: 'thompson',
+  exploration: 1
+};
+
+// How long impressions wait for their clicks and cart adds before they are learned from
+const DEFAULT_SETTLE_MINUTES = 60;
+
+/**
+ * Algorithm and exploration rate from BANDIT_ALGORITHM and BANDIT_EXPLORATION
+ */
+export function getBanditConfig(): BanditConfig {
+  const algorithm = process.env.BANDIT_ALGORITHM as BanditAlgorithm | undefined;
+  const exploration = Number(process.env.BANDIT_EXPLORATION);
+  return {
+    algorithm: algorithm && BANDIT_ALGORITHMS.includes(algorithm) ? algorithm : DEFAULT_CONFIG.algorithm,
+    exploration: process.env.BANDIT_EXPLORATION && exploration >= 0 ? exploration : DEFAULT_CONFIG.exploration
+  };
+}
+
+export function segmentOf(history: { interactionType: string }[]): ShopperSegment {
+  if (history.length < NEW_SHOPPER_INTERACTIONS) return 'new';
+  return history.some(i => i.interactionType === 'cart_add' || i.interactionType === 'purchase') ? 'buying' : 'browsing';
+}
+
+export function uniformWeights(): BlendWeights {
+  return Object.fromEntries(BANDIT_SOURCES.map(source => [source, 1 / BANDIT_SOURCES.length])) as BlendWeights;
+}
+
+// Standard normal via Box-Muller
+function sampleNormal(random: () => number): number {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+// Marsaglia-Tsang; shapes below 1 are boosted and scaled back down
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(1 - random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const x = sampleNormal(random);
+    const v = Math.pow(1 + c * x, 3);
+    if (v > 0 && Math.log(1 - random()) < 0.5 * x * x + d - d * v + d * Math.log(v)) {
+      return d * v;
+    }
+  }
+}
+
+function sampleBeta(alpha: number, beta: number, random: () => number): number {
+  const x = sampleGamma(alpha, random);
+  return x / (x + sampleGamma(beta, random));
+}
+
+/**
+ * Blend weights for one segment's arms. Thompson sampling draws each source's
+ * reward rate from its Beta posterior, with the evidence divided by the
+ * exploration rate so a higher rate widens the posterior. UCB scores each
+ * source by its mean reward plus the exploration rate times the UCB1 bonus,
+ * with half a success of prior so untried sources are finite. Either way the
+ * scores are normalized into shares of the list.
+ * @param arms - The segment's arms; missing sources start from the prior
+ * @param random - Uniform [0, 1) source, for reproducible tests
+ */
+export function sampleWeights(
+  arms: Pick<BanditArm, 'source' | 'trials' | 'rewards'>[],
+  config: BanditConfig = getBanditConfig(),
+  random: () => number = Math.random
+): BlendWeights {
+  const bySource = new Map(arms.map(arm => [arm.source, arm]));
+  const stats = BANDIT_SOURCES.map(source => {
+    const trials = Math.max(0, bySource.get(source)?.trials ?? 0);
+    const rewards = Math.min(trials, Math.max(0, bySource.get(source)?.rewards ?? 0));
+    return { source, trials, rewards };
+  });
+  const totalTrials = stats.reduce((sum, arm) => sum + arm.trials + 1, 0);
+
+  const scores = stats.map(({ trials, rewards }) => {
+    if (config.algorithm === 'ucb') {
+      const mean = (rewards + 0.5) / (trials + 1);
+      return mean + config.exploration * Math.sqrt((2 * Math.log(totalTrials)) / (trials + 1));
+    }
+    if (config.exploration === 0) {
+      return (rewards + 1) / (trials + 2);
+    }
+    return sampleBeta(1 + rewards / config.exploration, 1 + (trials - rewards) / config.exploration, random);
+  });
+
+  const total = scores.reduce((sum, score) => sum + score, 0);
+  if (!(total > 0)) {
+    return uniformWeights();
+  }
+  return Object.fromEntries(stats.map(({ source }, index) => [source, scores[index] / total])) as BlendWeights;
+}
+
+/**
+ * Interleave the sources' lists so each gets its weighted share of the
+ * slots: every slot goes to the source furthest behind its share so far.
+ * Products already placed are skipped, and each recommendation is labeled
+ * with the source that placed it.
+ */
+export function blendSources(
+  lists: Partial<Record<BanditSource, Recommendation[]>>,
+  weights: BlendWeights,
+  max: number
+): Recommendation[] {
+  const queues = BANDIT_SOURCES.map(source => ({ source, items: [...(lists[source] || [])], taken: 0 }));
+  const placed = new Set<string>();
+  const blended: Recommendation[] = [];
+
+  while (blended.length < max) {
+    queues.forEach(queue => {
+      while (queue.items.length > 0 && placed.has(queue.items[0].productId)) queue.items.shift();
+    });
+    const open = queues.filter(queue => queue.items.length > 0);
+    if (open.length === 0) break;
+
+    const deficit = (queue: typeof queues[number]) => weights[queue.source] * (blended.length + 1) - queue.taken;
+    const next = open.reduce((best, queue) => (deficit(queue) > deficit(best) ? queue : best));
+    const recommendation = next.items.shift()!;
+    next.taken++;
+    placed.add(recommendation.productId);
+    blended.push({ ...recommendation, category: next.source });
+  }
+
+  return blended;
+}
+
+/**
+ * A segment's arms. Failures are logged and treated as no evidence, so the
+ * bandit falls back to its prior rather than failing the request.
+ */
+export async function loadBanditArms(supabase: SupabaseClient, segment: ShopperSegment): Promise<BanditArm[]> {
+  const { data, error } = await supabase
+    .from('bandit_arms')
+    .select('segment, source, trials, rewards')
+    .eq('segment', segment);
+
+  if (error) {
+    console.error('Error loading bandit arms:', error);
+    return [];
+  }
+
+  return ((data || []) as BanditArmRow[]).map(row => ({
+    segment: row.segment,
+    source: row.source,
+    trials: Number(row.trials),
+    rewards: Number(row.rewards)
+  }));
+}
+
+/**
+ * Log which product and source filled each slot of a served list, so its
+ * impressions, clicks and cart adds can be credited later. Needs a service
+ * role client, since shoppers may not write bandit_serves themselves.
+ * Failures are logged, not thrown.
+ * @param requestId - The response's requestId, which impressions quote
+ */
+export async function recordBanditServe(
+  supabase: SupabaseClient,
+  userId: string,
+  requestId: string,
+  segment: ShopperSegment,
+  recommendations: Recommendation[]
+): Promise<void> {
+  const { error } = await supabase.from('bandit_serves').insert({
+    request_id: requestId,
+    user_id: userId,
+    segment,
+    product_ids: recommendations.map(rec => rec.productId),
+    sources: recommendations.map(rec => rec.category)
+  });
+
+  if (error) {
+    console.error('Error recording bandit serve:', error);
+  }
+}
+
+/**
+ * Fold the feedback on lists served at least settleMinutes ago into
+ * bandit_arms. Each list is only counted once. Needs a service role client.
+ * @returns Number of impressions learned from
+ */
+export async function updateBanditArms(
+  supabase: SupabaseClient,
+  settleMinutes: number = DEFAULT_SETTLE_MINUTES
+): Promise<number> {
+  const { data, error } = await supabase.rpc('update_bandit_arms', { p_settle_minutes: settleMinutes });
+  if (error) {
+    throw new Error(`Failed to update bandit arms: ${error.message}`);
+  }
+  return Number(data) || 0;
+}
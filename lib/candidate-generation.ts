@@ -0,0 +1,125 @@
+// Narrows a large catalog to a bounded shortlist before any prompt is built
+
+import { popularity, type Product } from '@/lib/catalog';
+import type { TrendingScore } from '@/lib/trending';
+import {
+  HybridRanker,
+  INTERACTION_WEIGHTS,
+  type CoOccurrenceCount,
+  type InteractionEvent,
+  type RankerProfile
+} from '@/lib/hybrid-ranker';
+
+export const DEFAULT_MAX_CANDIDATES = 40;
+
+// Widen the user's price range so near-misses still qualify
+const PRICE_TOLERANCE = 0.2;
+
+/**
+ * Builds candidate shortlists for the LLM stages.
+ *
+ * Each shortlist interleaves several deterministic sources (content
+ * similarity, category and price fit, popularity) so a single signal cannot
+ * crowd out the others, and is capped at a fixed size regardless of how
+ * large the catalog is.
+ */
+export class CandidateGenerator {
+  private products: Product[];
+  private ranker: HybridRanker;
+
+  constructor(products: Product[], interactionLog: InteractionEvent[] = [], coOccurrence: CoOccurrenceCount[] = []) {
+    this.products = products;
+    this.ranker = new HybridRanker(products, interactionLog).withCoOccurrence(coOccurrence);
+  }
+
+  /**
+   * Shortlist for personalized recommendations
+   */
+  forUser(profile: RankerProfile, maxCandidates: number = DEFAULT_MAX_CANDIDATES): Product[] {
+    const seen = new Set(profile.interactionHistory.map(i => i.productId));
+    const byId = new Map(this.products.map(p => [p.id, p]));
+
+    const interactedCategories = new Set(
+      profile.interactionHistory
+        .filter(i => INTERACTION_WEIGHTS[i.interactionType] !== 0)
+        .map(i => byId.get(i.productId)?.category)
+        .filter(Boolean)
+    );
+    const categories = new Set([...profile.preferredCategories, ...interactedCategories]);
+    const [minPrice, maxPrice] = profile.priceRange;
+
+    const similar = this.ranker
+      .recommend(profile, maxCandidates)
+      .map(rec => byId.get(rec.productId)!);
+
+    const categoryFit = this.products
+      .filter(p => !seen.has(p.id) && categories.has(p.category))
+      .filter(p => p.price >= minPrice * (1 - PRICE_TOLERANCE) && p.price <= maxPrice * (1 + PRICE_TOLERANCE))
+      .sort((a, b) => popularity(b) - popularity(a));
+
+    const popular = this.products
+      .filter(p => !seen.has(p.id))
+      .sort((a, b) => popularity(b) - popularity(a));
+
+    return interleave([similar, categoryFit, popular], maxCandidates);
+  }
+
+  /**
+   * Shortlist of products related to a target product
+   */
+  forProduct(target: Product, maxCandidates: number = DEFAULT_MAX_CANDIDATES): Product[] {
+    const byId = new Map(this.products.map(p => [p.id, p]));
+    const similar = this.ranker
+      .similar(target.id, maxCandidates)
+      .map(rec => byId.get(rec.productId)!);
+    const sameSubcategory = this.products
+      .filter(p => p.id !== target.id && p.subcategory === target.subcategory)
+      .sort((a, b) => Math.abs(a.price - target.price) - Math.abs(b.price - target.price));
+    const sameCategory = this.products
+      .filter(p => p.id !== target.id && p.category === target.category)
+      .sort((a, b) => popularity(b) - popularity(a));
+
+    return interleave([similar, sameSubcategory, sameCategory], maxCandidates);
+  }
+
+  /**
+   * Shortlist for trending products, led by recent population activity
+   */
+  forTrending(trendingScores: TrendingScore[], maxCandidates: number = DEFAULT_MAX_CANDIDATES): Product[] {
+    const byId = new Map(this.products.map(p => [p.id, p]));
+    const active = [...trendingScores]
+      .sort((a, b) => b.score - a.score)
+      .map(t => byId.get(t.productId))
+      .filter((p): p is Product => !!p);
+    const popular = [...this.products].sort((a, b) => popularity(b) - popularity(a));
+
+    return interleave([active, popular], maxCandidates);
+  }
+}
+
+/**
+ * Round-robin merge of ranked lists, skipping duplicates
+ */
+function interleave(lists: Product[][], max: number): Product[] {
+  const result: Product[] = [];
+  const seen = new Set<string>();
+  const positions = lists.map(() => 0);
+
+  while (result.length < max) {
+    let progressed = false;
+    lists.forEach((list, index) => {
+      while (positions[index] < list.length && result.length < max) {
+        const product = list[positions[index]++];
+        if (!seen.has(product.id)) {
+          seen.add(product.id);
+          result.push(product);
+          progressed = true;
+          break;
+        }
+      }
+    });
+    if (!progressed) break;
+  }
+
+  return result;
+}
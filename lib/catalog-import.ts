@@ -0,0 +1,162 @@
+// Normalization of external product feeds (mcp.json format) onto the Product model
+
+import { validateProduct, type Product } from '@/lib/catalog';
+
+// One row of the mcp.json product feed
+export interface FeedProduct {
+  product_id: number | string;
+  product_name: string;
+  category: string;
+  subcategory: string;
+  price: number;
+  quantity_in_stock: number;
+  manufacturer: string;
+  description: string;
+  weight?: number;
+  dimensions?: string;
+  release_date?: string;
+  rating?: number;
+  // Not in mcp.json itself, but imported when a feed carries it
+  review_count?: number;
+  is_featured?: boolean;
+  is_on_sale?: boolean;
+  sale_price?: number;
+  image_url: string;
+}
+
+export interface RejectedFeedRow {
+  index: number;
+  productId?: string;
+  errors: string[];
+}
+
+export interface FeedImportResult {
+  products: Product[];
+  rejected: RejectedFeedRow[];
+  // Rows that were imported with an adjustment worth knowing about
+  warnings: string[];
+}
+
+const REQUIRED_STRINGS = ['product_name', 'category', 'subcategory', 'manufacturer', 'image_url'] as const;
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function checkFeedRow(row: unknown): string[] {
+  if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+    return ['must be an object'];
+  }
+
+  const r = row as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof r.product_id !== 'number' && (typeof r.product_id !== 'string' || r.product_id === '')) {
+    errors.push('product_id must be a number or non-empty string');
+  }
+  for (const field of REQUIRED_STRINGS) {
+    if (typeof r[field] !== 'string' || r[field] === '') errors.push(`${field} must be a non-empty string`);
+  }
+  if (typeof r.price !== 'number' || !Number.isFinite(r.price) || r.price < 0) {
+    errors.push('price must be a non-negative number');
+  }
+  if (typeof r.quantity_in_stock !== 'number' || r.quantity_in_stock < 0) {
+    errors.push('quantity_in_stock must be a non-negative number');
+  }
+  if (r.rating !== undefined && (typeof r.rating !== 'number' || r.rating < 0 || r.rating > 5)) {
+    errors.push('rating must be between 0 and 5');
+  }
+  if (r.review_count !== undefined && (!Number.isInteger(r.review_count) || (r.review_count as number) < 0)) {
+    errors.push('review_count must be a non-negative integer');
+  }
+
+  return errors;
+}
+
+/**
+ * Map one feed row onto a Product.
+ * - brand comes from manufacturer and inStock from quantity_in_stock
+ * - an active sale below list price becomes price, with the list price as originalPrice
+ * - tags are derived from category, subcategory and the featured/sale flags
+ */
+export function normalizeFeedProduct(row: FeedProduct, warnings: string[] = []): Product {
+  const id = String(row.product_id);
+  let price = row.price;
+  const originalPrice = row.price;
+
+  if (row.is_on_sale && typeof row.sale_price === 'number') {
+    if (row.sale_price < row.price) {
+      price = row.sale_price;
+    } else {
+      warnings.push(`product ${id}: sale_price ${row.sale_price} is not below price ${row.price}, sale ignored`);
+    }
+  }
+
+  const onSale = price < originalPrice;
+  const tags = Array.from(new Set([
+    slug(row.category),
+    slug(row.subcategory),
+    ...(row.is_featured ? ['featured'] : []),
+    ...(onSale ? ['sale'] : [])
+  ].filter(Boolean)));
+
+  return {
+    id,
+    name: row.product_name,
+    category: row.category,
+    subcategory: row.subcategory,
+    price: Math.round(price * 100) / 100,
+    originalPrice: Math.round(originalPrice * 100) / 100,
+    description: row.description || row.product_name,
+    image: row.image_url,
+    // 0 when the feed has no review count; popularity then rests on the average
+    ratings: { average: row.rating ?? 0, count: row.review_count ?? 0 },
+    features: row.is_featured ? ['Featured product'] : [],
+    inStock: row.quantity_in_stock > 0,
+    tags,
+    brand: row.manufacturer
+  };
+}
+
+/**
+ * Import a full feed, keeping rows that normalize into valid products and
+ * reporting every rejected row with its reasons
+ */
+export function importFeed(data: unknown): FeedImportResult {
+  if (!Array.isArray(data)) {
+    return { products: [], rejected: [{ index: -1, errors: ['feed must be an array'] }], warnings: [] };
+  }
+
+  const products: Product[] = [];
+  const rejected: RejectedFeedRow[] = [];
+  const warnings: string[] = [];
+  const seen = new Set<string>();
+
+  data.forEach((row, index) => {
+    const productId = row && typeof row === 'object' && 'product_id' in row
+      ? String((row as FeedProduct).product_id)
+      : undefined;
+
+    const rowErrors = checkFeedRow(row);
+    if (rowErrors.length > 0) {
+      rejected.push({ index, productId, errors: rowErrors });
+      return;
+    }
+
+    const product = normalizeFeedProduct(row as FeedProduct, warnings);
+    const productErrors = validateProduct(product);
+    if (productErrors.length > 0) {
+      rejected.push({ index, productId, errors: productErrors });
+      return;
+    }
+    if (seen.has(product.id)) {
+      rejected.push({ index, productId, errors: [`duplicate product_id "${product.id}"`] });
+      return;
+    }
+
+    seen.add(product.id);
+    products.push(product);
+  });
+
+  return { products, rejected, warnings };
+}
@@ -0,0 +1,237 @@
+// Shared product model, catalog validation and indexed catalog loading
+
+// Product interface based on our JSON structure
+export interface Product {
+  id: string;
+  name: string;
+  category: string;
+  subcategory: string;
+  price: number;
+  originalPrice: number;
+  description: string;
+  image: string;
+  ratings: {
+    average: number;
+    count: number;
+  };
+  features: string[];
+  inStock: boolean;
+  tags: string[];
+  brand: string;
+  sizes?: string[];
+  author?: string;
+}
+
+/**
+ * Rating quality weighted by review volume. Volume adds to the average
+ * rather than scaling it, so catalogs without review counts still rank by
+ * rating. Every strategy ranks by this one definition.
+ */
+export function popularity(product: Pick<Product, 'ratings'>): number {
+  return product.ratings.average * (1 + Math.log(product.ratings.count + 1));
+}
+
+export interface CatalogValidationResult {
+  products: Product[];
+  // One message per rejected row
+  errors: string[];
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+/**
+ * Check one raw catalog entry against the Product model
+ * @returns A list of problems; empty when the entry is valid
+ */
+export function validateProduct(value: unknown): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['must be an object'];
+  }
+
+  const p = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const field of ['id', 'name', 'category', 'subcategory', 'description', 'image', 'brand'] as const) {
+    if (!isString(p[field]) || p[field] === '') errors.push(`${field} must be a non-empty string`);
+  }
+  for (const field of ['price', 'originalPrice'] as const) {
+    if (!isNumber(p[field]) || p[field] < 0) errors.push(`${field} must be a non-negative number`);
+  }
+  for (const field of ['features', 'tags'] as const) {
+    if (!isStringArray(p[field])) errors.push(`${field} must be an array of strings`);
+  }
+  if (typeof p.inStock !== 'boolean') errors.push('inStock must be a boolean');
+
+  const ratings = p.ratings as Record<string, unknown> | undefined;
+  if (!ratings || !isNumber(ratings.average) || !isNumber(ratings.count)) {
+    errors.push('ratings must have numeric average and count');
+  }
+
+  if (p.sizes !== undefined && !isStringArray(p.sizes)) errors.push('sizes must be an array of strings');
+  if (p.author !== undefined && !isString(p.author)) errors.push('author must be a string');
+
+  return errors;
+}
+
+/**
+ * Validate raw catalog data, keeping valid products and reporting the rest
+ */
+export function validateCatalog(data: unknown): CatalogValidationResult {
+  if (!Array.isArray(data)) {
+    return { products: [], errors: ['catalog must be an array of products'] };
+  }
+
+  const products: Product[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  data.forEach((entry, index) => {
+    const problems = validateProduct(entry);
+    if (problems.length > 0) {
+      errors.push(`product[${index}]: ${problems.join(', ')}`);
+      return;
+    }
+
+    const product = entry as Product;
+    if (seen.has(product.id)) {
+      errors.push(`product[${index}]: duplicate id "${product.id}"`);
+      return;
+    }
+
+    seen.add(product.id);
+    products.push(product);
+  });
+
+  return { products, errors };
+}
+
+function addToIndex(index: Map<string, Product[]>, key: string, product: Product): void {
+  const bucket = index.get(key);
+  if (bucket) {
+    bucket.push(product);
+  } else {
+    index.set(key, [product]);
+  }
+}
+
+/**
+ * Validated, read-only product catalog with lookups by id, category, brand and tag
+ */
+export class Catalog {
+  readonly products: Product[];
+  private byId = new Map<string, Product>();
+  private byCategory = new Map<string, Product[]>();
+  private byBrand = new Map<string, Product[]>();
+  private byTag = new Map<string, Product[]>();
+
+  constructor(products: Product[]) {
+    this.products = products;
+    products.forEach(product => {
+      this.byId.set(product.id, product);
+      addToIndex(this.byCategory, product.category, product);
+      addToIndex(this.byBrand, product.brand, product);
+      product.tags.forEach(tag => addToIndex(this.byTag, tag.toLowerCase(), product));
+    });
+  }
+
+  get size(): number {
+    return this.products.length;
+  }
+
+  has(id: string): boolean {
+    return this.byId.has(id);
+  }
+
+  get(id: string): Product | undefined {
+    return this.byId.get(id);
+  }
+
+  inCategory(category: string): Product[] {
+    return this.byCategory.get(category) || [];
+  }
+
+  fromBrand(brand: string): Product[] {
+    return this.byBrand.get(brand) || [];
+  }
+
+  withTag(tag: string): Product[] {
+    return this.byTag.get(tag.toLowerCase()) || [];
+  }
+
+  categories(): string[] {
+    return Array.from(this.byCategory.keys());
+  }
+
+  brands(): string[] {
+    return Array.from(this.byBrand.keys());
+  }
+}
+
+/**
+ * Build a catalog from raw data, dropping and logging invalid entries
+ */
+export function createCatalog(data: unknown): Catalog {
+  const { products, errors } = validateCatalog(data);
+  if (errors.length > 0) {
+    console.warn(`Rejected ${errors.length} invalid catalog entries:`, errors);
+  }
+  return new Catalog(products);
+}
+
+export type CatalogSource = 'products' | 'mcp';
+
+/**
+ * Which product data the server loads: CATALOG_SOURCE=mcp imports the
+ * 1000-product mcp.json feed, anything else uses data/products.json
+ */
+export function getCatalogSource(): CatalogSource {
+  return process.env.CATALOG_SOURCE === 'mcp' ? 'mcp' : 'products';
+}
+
+let catalogPromise: Promise<Catalog> | null = null;
+
+/**
+ * Load the product catalog once per process (server) or page (browser).
+ * The server reads the configured source from the bundle; the browser asks
+ * /api/catalog so both always see the same products.
+ */
+export function loadCatalog(): Promise<Catalog> {
+  if (!catalogPromise) {
+    catalogPromise = fetchCatalogData()
+      .then(createCatalog)
+      .catch(error => {
+        // Allow a later call to retry instead of caching the failure
+        catalogPromise = null;
+        throw error;
+      });
+  }
+  return catalogPromise;
+}
+
+async function fetchCatalogData(): Promise<unknown> {
+  if (typeof window === 'undefined') {
+    if (getCatalogSource() === 'mcp') {
+      const [{ importFeed }, feed] = await Promise.all([
+        import('@/lib/catalog-import'),
+        import('@/mcp.json')
+      ]);
+      const { products, rejected, warnings } = importFeed(feed.default);
+      if (rejected.length > 0) {
+        console.warn(`Rejected ${rejected.length} feed rows:`, rejected);
+      }
+      if (warnings.length > 0) {
+        console.warn(`Imported feed with ${warnings.length} adjustments`);
+      }
+      return products;
+    }
+    return (await import('@/data/products.json')).default;
+  }
+
+  const response = await fetch('/api/catalog');
+  if (!response.ok) {
+    throw new Error(`Failed to load products: ${response.status}`);
+  }
+  return response.json();
+}
@@ -0,0 +1,47 @@
+// Population-wide basket co-occurrence counts computed by the get_co_occurrence RPC
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CoOccurrenceCount } from '@/lib/hybrid-ranker';
+
+export interface CoOccurrenceQuery {
+  // Related products returned per anchor product
+  limit?: number;
+  windowDays?: number;
+}
+
+interface CoOccurrenceRow {
+  product_id: string;
+  related_product_id: string;
+  baskets: number | string;
+}
+
+/**
+ * Fetch how often other products shared a session with the given products,
+ * across all users. Like fetchTrendingScores this runs in a security definer
+ * function, since RLS only lets the caller read their own interactions.
+ */
+export async function fetchCoOccurrence(
+  supabase: SupabaseClient,
+  productIds: string[],
+  { limit = 20, windowDays = 90 }: CoOccurrenceQuery = {}
+): Promise<CoOccurrenceCount[]> {
+  if (productIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase.rpc('get_co_occurrence', {
+    p_product_ids: productIds,
+    p_limit: limit,
+    p_window_days: windowDays
+  });
+
+  if (error) {
+    throw new Error(`Failed to load co-occurrence: ${error.message}`);
+  }
+
+  return ((data as CoOccurrenceRow[] | null) || []).map(row => ({
+    productId: row.product_id,
+    relatedProductId: row.related_product_id,
+    baskets: Number(row.baskets)
+  }));
+}
@@ -0,0 +1,149 @@
+// Tracking consent: what may be recorded about a shopper and whether recommendations may use it
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NextResponse } from 'next/server';
+import type { InteractionEventInput } from '@/lib/events';
+
+/**
+ * - none: only aggregate, non-identifying product counts are recorded
+ * - essential: deliberate actions (likes, cart, purchases, feedback) are kept
+ *   on the account, without browsing details; views are only counted
+ * - personalization: full interaction history, used to personalize recommendations
+ */
+export type ConsentMode = 'none' | 'essential' | 'personalization';
+
+export const CONSENT_MODES: ConsentMode[] = ['none', 'essential', 'personalization'];
+
+export const CONSENT_COOKIE = 'tracking_consent';
+
+const CONSENT_MAX_AGE_S = 60 * 60 * 24 * 365;
+
+// Metadata still stored for identified events under essential consent
+const ESSENTIAL_METADATA_KEYS = ['category', 'reason'];
+
+export interface ConsentRequest {
+  mode: ConsentMode;
+}
+
+export interface ConsentResponse {
+  // null until the shopper has made a choice
+  mode: ConsentMode | null;
+}
+
+interface CookieReader {
+  get(name: string): { value: string } | undefined;
+}
+
+export function isConsentMode(value: unknown): value is ConsentMode {
+  return CONSENT_MODES.includes(value as ConsentMode);
+}
+
+/**
+ * The consent stored in a request's cookies, or null when none was given
+ */
+export function readConsent(cookies: CookieReader): ConsentMode | null {
+  const value = cookies.get(CONSENT_COOKIE)?.value;
+  return isConsentMode(value) ? value : null;
+}
+
+/**
+ * The consent stored in this browser's cookie, or null when none was given
+ */
+export function readBrowserConsent(): ConsentMode | null {
+  if (typeof document === 'undefined') {
+    return null;
+  }
+  const value = document.cookie
+    .split('; ')
+    .find(cookie => cookie.startsWith(`${CONSENT_COOKIE}=`))
+    ?.slice(CONSENT_COOKIE.length + 1);
+  return isConsentMode(value) ? value : null;
+}
+
+/**
+ * Remember a choice in a cookie. It is readable by the page so tracking can
+ * be minimized before anything is sent.
+ */
+export function setConsentCookie(response: NextResponse, mode: ConsentMode): void {
+  response.cookies.set(CONSENT_COOKIE, mode, {
+    httpOnly: false,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: CONSENT_MAX_AGE_S
+  });
+}
+
+export const allowsPersonalization = (mode: ConsentMode | null) => mode === 'personalization';
+
+// Whether any event may be stored against a user or visitor ID
+export const allowsIdentifiedTracking = (mode: ConsentMode | null) =>
+  mode === 'essential' || mode === 'personalization';
+
+/**
+ * Whether an event may be stored against the user or visitor, or only
+ * counted per product
+ */
+export function isIdentifiedEvent(event: Pick<InteractionEventInput, 'interactionType'>, mode: ConsentMode | null): boolean {
+  if (mode === 'personalization') return true;
+  if (mode === 'essential') return event.interactionType !== 'view';
+  return false;
+}
+
+/**
+ * Strip what the consent mode does not allow from an event: without
+ * personalization consent, search queries, prices, referrers and the session
+ * ID are not kept
+ */
+export function minimizeEvent<T extends InteractionEventInput>(event: T, mode: ConsentMode | null): T {
+  if (mode === 'personalization') {
+    return event;
+  }
+
+  const metadata = Object.fromEntries(
+    Object.entries(event.metadata || {}).filter(([key]) => ESSENTIAL_METADATA_KEYS.includes(key))
+  );
+  return { ...event, sessionId: undefined, metadata };
+}
+
+/**
+ * A user's stored choice, or null when they have not made one on their account
+ */
+export async function loadUserConsent(supabase: SupabaseClient, userId: string): Promise<ConsentMode | null> {
+  const { data, error } = await supabase
+    .from('user_consent')
+    .select('consent_mode')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading consent:', error);
+    return null;
+  }
+  return data && isConsentMode(data.consent_mode) ? data.consent_mode : null;
+}
+
+/**
+ * A signed-in user's stored choice, falling back to the browser's cookie
+ */
+export async function loadConsent(
+  supabase: SupabaseClient,
+  userId: string | undefined,
+  cookies: CookieReader
+): Promise<ConsentMode | null> {
+  const stored = userId ? await loadUserConsent(supabase, userId) : null;
+  return stored ?? readConsent(cookies);
+}
+
+export async function saveConsent(supabase: SupabaseClient, userId: string, mode: ConsentMode): Promise<void> {
+  const { error } = await supabase
+    .from('user_consent')
+    .upsert(
+      { user_id: userId, consent_mode: mode, updated_at: new Date().toISOString() },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) {
+    throw new Error(`Failed to save consent: ${error.message}`);
+  }
+}
@@ -0,0 +1,418 @@
+// Offline evaluation of recommendation strategies against held-out interaction logs
+
+import type { Product } from '@/lib/catalog';
+import { INTERACTION_TYPES, type InteractionType } from '@/lib/events';
+import { INTERACTION_WEIGHTS, type InteractionEvent } from '@/lib/hybrid-ranker';
+import { DEFAULT_PRICE_RANGE, inferPreferences, type PreferenceValues } from '@/lib/preference-inference';
+import type { AIRecommendationService, RecommendationStrategy } from '@/lib/ai-recommendations';
+import type { TrendingScore } from '@/lib/trending';
+
+export interface LoggedInteraction {
+  userId: string;
+  productId: string;
+  interactionType: InteractionType;
+  timestamp: Date;
+}
+
+// A user_interactions row as exported from the database or written by the simulator
+interface InteractionLogRow {
+  user_id?: string | null;
+  anonymous_id?: string | null;
+  product_id?: string;
+  interaction_type?: string;
+  timestamp?: string | null;
+  created_at?: string;
+}
+
+export interface HoldoutSplit {
+  // Everything recommenders may see
+  train: LoggedInteraction[];
+  // Each evaluated user's held-out interactions
+  test: Map<string, LoggedInteraction[]>;
+}
+
+export interface SplitOptions {
+  // Share of each user's most recent interactions held out
+  testFraction: number;
+  // Users with fewer training interactions are only used as population data
+  minTrainInteractions: number;
+}
+
+// What a strategy sees when asked for one user's recommendations
+export interface StrategyContext {
+  userId: string;
+  // The user's training interactions, oldest first
+  history: LoggedInteraction[];
+  // Preferences inferred from that history, as production would
+  profile: PreferenceValues;
+  // Training interactions of every other user
+  interactionLog: InteractionEvent[];
+  products: Product[];
+  k: number;
+}
+
+export interface EvaluationStrategy {
+  name: string;
+  // Product IDs, best first
+  recommend(context: StrategyContext): Promise<string[]>;
+}
+
+export interface EvaluationOptions {
+  k: number;
+  // Held-out interactions below this weight do not make a product relevant
+  minRelevanceWeight: number;
+}
+
+export interface StrategyReport {
+  strategy: string;
+  k: number;
+  // Users with at least one relevant held-out product
+  users: number;
+  precision: number;
+  recall: number;
+  ndcg: number;
+  map: number;
+  // Share of the catalog recommended to at least one user
+  coverage: number;
+  // Mean pairwise category distance within a list, 0-1
+  diversity: number;
+  // Mean self-information of recommended products, in bits
+  novelty: number;
+  avgLatencyMs: number;
+  // Users for whom the strategy threw
+  failures: number;
+}
+
+const DEFAULT_SPLIT_OPTIONS: SplitOptions = {
+  testFraction: 0.2,
+  minTrainInteractions: 3
+};
+
+const DEFAULT_EVALUATION_OPTIONS: EvaluationOptions = {
+  k: 10,
+  minRelevanceWeight: 1
+};
+
+/**
+ * Parse a JSONL interaction log with one user_interactions row per line
+ * @throws When a line is not valid JSON or misses a user, product, type or time
+ */
+export function parseInteractionLog(jsonl: string): LoggedInteraction[] {
+  return jsonl
+    .split('\n')
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line !== '')
+    .map(({ line, lineNumber }) => {
+      let row: InteractionLogRow;
+      try {
+        row = JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${lineNumber}: invalid JSON`);
+      }
+
+      // Signed-out visitors and simulated shoppers only have an anonymous ID
+      const userId = row.user_id ?? row.anonymous_id;
+      const time = row.timestamp ?? row.created_at;
+      const timestamp = time ? new Date(time) : null;
+      if (!userId || !row.product_id || !timestamp || isNaN(timestamp.getTime())) {
+        throw new Error(`Line ${lineNumber}: user_id or anonymous_id, product_id and timestamp or created_at are required`);
+      }
+      if (!INTERACTION_TYPES.includes(row.interaction_type as InteractionType)) {
+        throw new Error(`Line ${lineNumber}: unknown interaction_type "${row.interaction_type}"`);
+      }
+
+      return {
+        userId,
+        productId: row.product_id,
+        interactionType: row.interaction_type as InteractionType,
+        timestamp
+      };
+    });
+}
+
+/**
+ * Hold out the most recent interactions of each user. Splitting by time
+ * rather than at random keeps the future out of what recommenders see.
+ */
+export function splitByTime(interactions: LoggedInteraction[], options: Partial<SplitOptions> = {}): HoldoutSplit {
+  const settings = { ...DEFAULT_SPLIT_OPTIONS, ...options };
+  const byUser = new Map<string, LoggedInteraction[]>();
+  interactions.forEach(interaction => {
+    if (!byUser.has(interaction.userId)) byUser.set(interaction.userId, []);
+    byUser.get(interaction.userId)!.push(interaction);
+  });
+
+  const train: LoggedInteraction[] = [];
+  const test = new Map<string, LoggedInteraction[]>();
+
+  byUser.forEach((events, userId) => {
+    const sorted = [...events].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const held = Math.ceil(sorted.length * settings.testFraction);
+    const cut = sorted.length - held;
+
+    if (held === 0 || cut < settings.minTrainInteractions) {
+      train.push(...sorted);
+      return;
+    }
+    train.push(...sorted.slice(0, cut));
+    test.set(userId, sorted.slice(cut));
+  });
+
+  return { train, test };
+}
+
+export function precisionAtK(recommended: string[], relevant: Set<string>, k: number): number {
+  if (k <= 0) return 0;
+  return recommended.slice(0, k).filter(id => relevant.has(id)).length / k;
+}
+
+export function recallAtK(recommended: string[], relevant: Set<string>, k: number): number {
+  if (relevant.size === 0) return 0;
+  return recommended.slice(0, k).filter(id => relevant.has(id)).length / relevant.size;
+}
+
+/**
+ * Average of precision at each rank holding a relevant product, over the
+ * number of relevant products reachable in k slots
+ */
+export function averagePrecisionAtK(recommended: string[], relevant: Set<string>, k: number): number {
+  const reachable = Math.min(relevant.size, k);
+  if (reachable === 0) return 0;
+
+  let hits = 0;
+  let sum = 0;
+  recommended.slice(0, k).forEach((id, index) => {
+    if (relevant.has(id)) {
+      hits++;
+      sum += hits / (index + 1);
+    }
+  });
+  return sum / reachable;
+}
+
+/**
+ * Normalized discounted cumulative gain with graded relevance
+ * @param gains - Relevance per product; products not listed have none
+ */
+export function ndcgAtK(recommended: string[], gains: Map<string, number>, k: number): number {
+  const dcg = (values: number[]) => values.reduce((sum, gain, index) => sum + gain / Math.log2(index + 2), 0);
+  const ideal = dcg(Array.from(gains.values()).sort((a, b) => b - a).slice(0, k));
+  if (ideal === 0) return 0;
+  return dcg(recommended.slice(0, k).map(id => gains.get(id) || 0)) / ideal;
+}
+
+/**
+ * Mean pairwise distance within a list: 0 for products in the same
+ * subcategory, 0.5 for the same category, 1 otherwise
+ */
+export function intraListDiversity(products: Product[]): number {
+  let pairs = 0;
+  let distance = 0;
+  for (let i = 0; i < products.length; i++) {
+    for (let j = i + 1; j < products.length; j++) {
+      pairs++;
+      if (products[i].category !== products[j].category) {
+        distance += 1;
+      } else if (products[i].subcategory !== products[j].subcategory) {
+        distance += 0.5;
+      }
+    }
+  }
+  return pairs > 0 ? distance / pairs : 0;
+}
+
+/**
+ * Mean self-information -log2(p) of the recommended products, where p is the
+ * smoothed share of training users who interacted with the product. Less
+ * popular products are more novel.
+ * @param userCounts - Training users per product
+ */
+export function novelty(recommended: string[], userCounts: Map<string, number>, totalUsers: number): number {
+  if (recommended.length === 0) return 0;
+  const bits = recommended.map(id => -Math.log2(((userCounts.get(id) || 0) + 1) / (totalUsers + 1)));
+  return bits.reduce((sum, value) => sum + value, 0) / recommended.length;
+}
+
+/**
+ * Graded relevance of held-out interactions: each new product counts with the
+ * weight of the strongest thing the user did with it. Products the user had
+ * already interacted with in training are left out, since strategies do not
+ * recommend them again.
+ */
+function heldOutGains(held: LoggedInteraction[], seen: Set<string>, minWeight: number): Map<string, number> {
+  const gains = new Map<string, number>();
+  held.forEach(interaction => {
+    const weight = INTERACTION_WEIGHTS[interaction.interactionType] ?? 1;
+    if (seen.has(interaction.productId) || weight < minWeight) return;
+    gains.set(interaction.productId, Math.max(gains.get(interaction.productId) || 0, weight));
+  });
+  return gains;
+}
+
+function inferProfile(history: LoggedInteraction[], products: Map<string, Product>): PreferenceValues {
+  const now = history.length > 0 ? history[history.length - 1].timestamp : new Date();
+  return inferPreferences(history, products, { now }) || {
+    preferredCategories: [],
+    preferredBrands: [],
+    priceRange: DEFAULT_PRICE_RANGE,
+    preferredFeatures: []
+  };
+}
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+/**
+ * Replay the held-out split against each strategy and score what it
+ * recommends. Users are evaluated one at a time so strategies calling a model
+ * are not rate limited; a strategy that throws for a user scores zero for them.
+ */
+export async function evaluateStrategies(
+  strategies: EvaluationStrategy[],
+  split: HoldoutSplit,
+  products: Product[],
+  options: Partial<EvaluationOptions> = {}
+): Promise<StrategyReport[]> {
+  const settings = { ...DEFAULT_EVALUATION_OPTIONS, ...options };
+  const productsById = new Map(products.map(p => [p.id, p]));
+
+  const historyByUser = new Map<string, LoggedInteraction[]>();
+  const usersByProduct = new Map<string, Set<string>>();
+  split.train.forEach(interaction => {
+    if (!historyByUser.has(interaction.userId)) historyByUser.set(interaction.userId, []);
+    historyByUser.get(interaction.userId)!.push(interaction);
+    if (!usersByProduct.has(interaction.productId)) usersByProduct.set(interaction.productId, new Set());
+    usersByProduct.get(interaction.productId)!.add(interaction.userId);
+  });
+  const userCounts = new Map(Array.from(usersByProduct, ([id, users]) => [id, users.size]));
+
+  const cases = Array.from(split.test.entries())
+    .map(([userId, held]) => {
+      const history = historyByUser.get(userId) || [];
+      const seen = new Set(history.map(interaction => interaction.productId));
+      return { userId, history, gains: heldOutGains(held, seen, settings.minRelevanceWeight) };
+    })
+    .filter(({ gains }) => gains.size > 0);
+
+  const reports: StrategyReport[] = [];
+  for (const strategy of strategies) {
+    const scores = { precision: [] as number[], recall: [] as number[], ndcg: [] as number[], map: [] as number[] };
+    const diversity: number[] = [];
+    const noveltyScores: number[] = [];
+    const latencies: number[] = [];
+    const recommendedIds = new Set<string>();
+    let failures = 0;
+
+    for (const { userId, history, gains } of cases) {
+      const relevant = new Set(gains.keys());
+      const startedAt = Date.now();
+      let recommended: string[] = [];
+      try {
+        recommended = (await strategy.recommend({
+          userId,
+          history,
+          profile: inferProfile(history, productsById),
+          interactionLog: split.train.filter(interaction => interaction.userId !== userId),
+          products,
+          k: settings.k
+        })).slice(0, settings.k);
+      } catch (error) {
+        console.error(`Strategy ${strategy.name} failed for user ${userId}:`, error);
+        failures++;
+      }
+      latencies.push(Date.now() - startedAt);
+
+      recommended.forEach(id => recommendedIds.add(id));
+      scores.precision.push(precisionAtK(recommended, relevant, settings.k));
+      scores.recall.push(recallAtK(recommended, relevant, settings.k));
+      scores.ndcg.push(ndcgAtK(recommended, gains, settings.k));
+      scores.map.push(averagePrecisionAtK(recommended, relevant, settings.k));
+      diversity.push(intraListDiversity(recommended.map(id => productsById.get(id)).filter((p): p is Product => !!p)));
+      noveltyScores.push(novelty(recommended, userCounts, historyByUser.size));
+    }
+
+    reports.push({
+      strategy: strategy.name,
+      k: settings.k,
+      users: cases.length,
+      precision: mean(scores.precision),
+      recall: mean(scores.recall),
+      ndcg: mean(scores.ndcg),
+      map: mean(scores.map),
+      coverage: products.length > 0 ? recommendedIds.size / products.length : 0,
+      diversity: mean(diversity),
+      novelty: mean(noveltyScores),
+      avgLatencyMs: Math.round(mean(latencies)),
+      failures
+    });
+  }
+
+  return reports;
+}
+
+/**
+ * A personalized strategy of the recommendation service, given the same
+ * profile and population log it would see in production
+ */
+export function serviceStrategy(service: AIRecommendationService, strategy: RecommendationStrategy): EvaluationStrategy {
+  return {
+    name: strategy,
+    async recommend({ userId, history, profile, interactionLog, products, k }) {
+      const recommendations = await service.generateRecommendations(
+        userId,
+        products,
+        { userId, ...profile, interactionHistory: history },
+        k,
+        { strategy, interactionLog }
+      );
+      return recommendations.map(rec => rec.productId);
+    }
+  };
+}
+
+/**
+ * The non-personalized list shown without consent, ranked by weighted
+ * activity in the training log. A baseline every personalized strategy
+ * should beat.
+ */
+export function popularStrategy(service: AIRecommendationService): EvaluationStrategy {
+  return {
+    name: 'popular',
+    async recommend({ interactionLog, products, k }) {
+      const scores = new Map<string, TrendingScore>();
+      interactionLog.forEach(({ productId, interactionType }) => {
+        const entry = scores.get(productId) || { productId, score: 0, interactions: 0 };
+        entry.score += INTERACTION_WEIGHTS[interactionType] ?? 1;
+        entry.interactions++;
+        scores.set(productId, entry);
+      });
+      return service
+        .getNonPersonalizedRecommendations(products, k, Array.from(scores.values()))
+        .map(rec => rec.productId);
+    }
+  };
+}
+
+/**
+ * Render reports as a fixed-width table
+ */
+export function formatReport(reports: StrategyReport[]): string {
+  const columns: Array<[string, (report: StrategyReport) => string]> = [
+    ['strategy', r => r.strategy],
+    ['users', r => String(r.users)],
+    [`P@${reports[0]?.k ?? ''}`, r => r.precision.toFixed(4)],
+    [`R@${reports[0]?.k ?? ''}`, r => r.recall.toFixed(4)],
+    ['NDCG', r => r.ndcg.toFixed(4)],
+    ['MAP', r => r.map.toFixed(4)],
+    ['coverage', r => r.coverage.toFixed(3)],
+    ['diversity', r => r.diversity.toFixed(3)],
+    ['novelty', r => r.novelty.toFixed(2)],
+    ['ms/user', r => String(r.avgLatencyMs)],
+    ['failures', r => String(r.failures)]
+  ];
+
+  const rows = [columns.map(([header]) => header), ...reports.map(report => columns.map(([, cell]) => cell(report)))];
+  const widths = columns.map((_, index) => Math.max(...rows.map(row => row[index].length)));
+  return rows
+    .map(row => row.map((cell, index) => (index === 0 ? cell.padEnd(widths[index]) : cell.padStart(widths[index]))).join('  '))
+    .join('\n');
+}
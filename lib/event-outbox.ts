@@ -0,0 +1,93 @@
+// IndexedDB-backed outbox that keeps interaction events until the server has them
+
+import type { InteractionEventInput } from '@/lib/events';
+
+const DB_NAME = 'interaction-outbox';
+const STORE = 'events';
+const DB_VERSION = 1;
+
+// Owner of events recorded while signed out
+export const ANONYMOUS_OWNER = 'anonymous';
+
+// An event waiting for upload; eventId is the idempotency key and owner the
+// user ID (or ANONYMOUS_OWNER) it was recorded for. Entries stored before
+// owners were recorded have none and are never sent.
+export type OutboxEvent = InteractionEventInput & { eventId: string; owner?: string };
+
+export interface EventStore {
+  put(events: OutboxEvent[]): Promise<void>;
+  remove(eventIds: string[]): Promise<void>;
+  all(): Promise<OutboxEvent[]>;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Persistent store of not-yet-acknowledged events. Events stay here across
+ * reloads, network loss and signed-out periods until the server confirms
+ * them, so nothing is stranded. Without IndexedDB (server rendering, private
+ * modes that disable it) every method is a no-op.
+ */
+export class EventOutbox implements EventStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  put(events: OutboxEvent[]): Promise<void> {
+    return this.write(store => events.forEach(event => store.put(event)));
+  }
+
+  remove(eventIds: string[]): Promise<void> {
+    return this.write(store => eventIds.forEach(id => store.delete(id)));
+  }
+
+  async all(): Promise<OutboxEvent[]> {
+    const db = await this.open();
+    if (!db) return [];
+    return promisify(db.transaction(STORE, 'readonly').objectStore(STORE).getAll() as IDBRequest<OutboxEvent[]>);
+  }
+
+  private async write(apply: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+    const transaction = db.transaction(STORE, 'readwrite');
+    apply(transaction.objectStore(STORE));
+    await completion(transaction);
+  }
+
+  private async open(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      return null;
+    }
+
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'eventId' });
+      };
+      this.db = promisify(request).catch(error => {
+        // Allow a later call to retry instead of caching the failure
+        this.db = null;
+        throw error;
+      });
+    }
+
+    try {
+      return await this.db;
+    } catch (error) {
+      console.error('Error opening interaction outbox:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,308 @@
+// Browser-side batching of interaction events for /api/events
+
+import { createEventId, MAX_EVENT_AGE_MS, type EventsResponse, type InteractionEventInput } from '@/lib/events';
+import { ANONYMOUS_OWNER, EventOutbox, type EventStore, type OutboxEvent } from '@/lib/event-outbox';
+
+export interface EventQueueOptions {
+  endpoint: string;
+  // Flush as soon as this many events are waiting
+  maxBatchSize: number;
+  // Flush waiting events at least this often
+  flushIntervalMs: number;
+  // Events held in memory while the server is unreachable; the oldest are dropped first
+  maxQueueSize: number;
+}
+
+const DEFAULT_OPTIONS: EventQueueOptions = {
+  endpoint: '/api/events',
+  maxBatchSize: 20,
+  flushIntervalMs: 5000,
+  maxQueueSize: 500
+};
+
+// Responses meaning "try again later" rather than "this batch is invalid"
+const isRetryable = (status: number) => status === 429 || status >= 500;
+const isUnauthorized = (status: number) => status === 401 || status === 403;
+
+// The server takes the user from the session, so the owner stays local
+function toUpload(event: OutboxEvent): InteractionEventInput & { eventId: string } {
+  const upload = { ...event };
+  delete upload.owner;
+  return upload;
+}
+
+/**
+ * Collects interaction events and sends them to the server in batches.
+ *
+ * A batch goes out when it reaches `maxBatchSize` or after `flushIntervalMs`,
+ * whichever comes first. When the page is hidden or unloaded, whatever is
+ * left is handed to navigator.sendBeacon so it survives navigation.
+ *
+ * Every event gets an idempotency key and is written to the IndexedDB outbox
+ * before it is sent, and only removed once the server has answered for it.
+ * Events that could not be delivered (offline, server errors, signed out, or
+ * a beacon whose outcome is unknown) are replayed on the next page load, when
+ * the browser comes back online, or when `replay` is called after sign-in.
+ * The server ignores event IDs it already stored, so replays never double
+ * count.
+ *
+ * Each event is stored with the account it was recorded for, and only that
+ * account's events are sent, so a shared browser never uploads one user's
+ * activity under another's session. Nothing is sent until `setOwner` says
+ * who is signed in.
+ */
+export class EventQueue {
+  private options: EventQueueOptions;
+  private outbox: EventStore;
+  private queue: OutboxEvent[] = [];
+  // Events sent but not yet acknowledged
+  private inFlight = new Set<string>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
+  private listening = false;
+  // User ID or ANONYMOUS_OWNER; null until the session is known
+  private owner: string | null = null;
+
+  constructor(options: Partial<EventQueueOptions> = {}, outbox: EventStore = new EventOutbox()) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.outbox = outbox;
+  }
+
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Queue an event for upload
+   * @param owner - Account the event was recorded for; defaults to whoever
+   *   is signed in, and is filled in by `setOwner` while that is unknown
+   */
+  enqueue(event: InteractionEventInput, owner: string | null = this.owner): void {
+    const stored: OutboxEvent = {
+      ...event,
+      eventId: event.eventId ?? createEventId(),
+      occurredAt: event.occurredAt ?? new Date().toISOString(),
+      ...(owner !== null && { owner })
+    };
+
+    this.outbox.put([stored]).catch(error => console.error('Error saving interaction to outbox:', error));
+    if (this.owner === null || this.belongs(stored)) {
+      this.push([stored]);
+    }
+    this.listen();
+
+    if (this.queue.length >= this.options.maxBatchSize) {
+      void this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Send everything currently queued
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Record who is signed in, a user ID or ANONYMOUS_OWNER, and send their
+   * stored events. Queued events recorded for anyone else are taken out of
+   * the queue but stay in the outbox until that user signs in again or they
+   * expire. Events recorded while signed out go to the user who signs in,
+   * like the rest of the visitor's history.
+   */
+  async setOwner(owner: string): Promise<void> {
+    if (owner === this.owner) {
+      return;
+    }
+
+    if (this.owner === null) {
+      // Events queued before the session was known were recorded for it
+      const unowned = this.queue.filter(event => event.owner === undefined);
+      unowned.forEach(event => {
+        event.owner = owner;
+      });
+      if (unowned.length > 0) {
+        await this.outbox.put(unowned).catch(error => console.error('Error saving interaction to outbox:', error));
+      }
+    }
+
+    this.owner = owner;
+    this.queue = this.queue.filter(event => this.belongs(event));
+    await this.replay();
+    await this.flush();
+  }
+
+  /**
+   * Re-queue the signed-in user's events left in the outbox by earlier pages
+   * or failed sends and send them. Events older than the server accepts are
+   * discarded, whoever they belong to.
+   */
+  async replay(): Promise<void> {
+    this.listen();
+
+    let stored: OutboxEvent[];
+    try {
+      stored = await this.outbox.all();
+    } catch (error) {
+      console.error('Error reading interaction outbox:', error);
+      return;
+    }
+
+    const cutoff = Date.now() - MAX_EVENT_AGE_MS;
+    const expired = stored.filter(event => Date.parse(event.occurredAt ?? '') < cutoff);
+    if (expired.length > 0) {
+      await this.outbox.remove(expired.map(event => event.eventId)).catch(() => undefined);
+    }
+
+    const queued = new Set(this.queue.map(event => event.eventId));
+    const pending = stored.filter(event =>
+      !expired.includes(event) &&
+      this.belongs(event) &&
+      !queued.has(event.eventId) &&
+      !this.inFlight.has(event.eventId)
+    );
+
+    if (pending.length > 0) {
+      this.push(pending);
+      await this.flush();
+    }
+  }
+
+  /**
+   * Forget every queued and stored event, e.g. after the user's data was
+   * erased, so nothing is uploaded again
+   */
+  async clear(): Promise<void> {
+    this.clearTimer();
+    this.queue = [];
+    try {
+      const stored = await this.outbox.all();
+      await this.outbox.remove(stored.map(event => event.eventId));
+    } catch (error) {
+      console.error('Error clearing interaction outbox:', error);
+    }
+  }
+
+  private async drain(): Promise<void> {
+    this.clearTimer();
+    if (this.owner === null) {
+      // setOwner sends them
+      return;
+    }
+
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.options.maxBatchSize);
+      const ids = batch.map(event => event.eventId);
+      ids.forEach(id => this.inFlight.add(id));
+
+      try {
+        const response = await fetch(this.options.endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ events: batch.map(toUpload) }),
+          keepalive: true
+        });
+
+        if (isRetryable(response.status)) {
+          throw new Error(`Event ingestion failed: ${response.status}`);
+        }
+
+        if (isUnauthorized(response.status)) {
+          // Keep them in the outbox; they are replayed once the user signs in
+          console.warn(`Holding ${batch.length} interaction events until sign-in`);
+          continue;
+        }
+
+        if (!response.ok) {
+          console.warn(`Dropped ${batch.length} interaction events: ${response.status}`);
+        } else {
+          const result = (await response.json()) as EventsResponse;
+          if (result.rejected.length > 0) {
+            console.warn('Server rejected interaction events:', result.rejected);
+          }
+        }
+
+        await this.outbox.remove(ids);
+      } catch (error) {
+        console.error('Error sending interaction events:', error);
+        // Keep the batch for the next attempt
+        this.queue.unshift(...batch);
+        this.scheduleFlush();
+        return;
+      } finally {
+        ids.forEach(id => this.inFlight.delete(id));
+      }
+    }
+  }
+
+  /**
+   * Hand the remaining events to the browser, which delivers them even if
+   * the page is being unloaded. They stay in the outbox because a beacon
+   * gives no answer; the next page load replays them and the server skips
+   * the ones that arrived.
+   */
+  private flushWithBeacon(): void {
+    this.clearTimer();
+
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.options.maxBatchSize);
+      const body = new Blob([JSON.stringify({ events: batch.map(toUpload) })], { type: 'application/json' });
+
+      if (!navigator.sendBeacon(this.options.endpoint, body)) {
+        this.queue.unshift(...batch);
+        return;
+      }
+    }
+  }
+
+  // Whether the signed-in user may send an event
+  private belongs(event: OutboxEvent): boolean {
+    return this.owner !== null && (event.owner === this.owner || event.owner === ANONYMOUS_OWNER);
+  }
+
+  private push(events: OutboxEvent[]): void {
+    this.queue.push(...events);
+    if (this.queue.length > this.options.maxQueueSize) {
+      // Dropped from memory only; the outbox still has them
+      this.queue.splice(0, this.queue.length - this.options.maxQueueSize);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        void this.flush();
+      }, this.options.flushIntervalMs);
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private listen(): void {
+    if (this.listening || typeof window === 'undefined') {
+      return;
+    }
+    this.listening = true;
+
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.flushWithBeacon();
+      }
+    });
+    window.addEventListener('pagehide', () => this.flushWithBeacon());
+    window.addEventListener('online', () => void this.replay());
+  }
+}
@@ -0,0 +1,183 @@
+// Request and response types for /api/events, plus validation of incoming event batches
+
+import type { UserInteraction } from '@/lib/interaction-tracker';
+import { NEGATIVE_INTERACTION_TYPES } from '@/lib/negative-feedback';
+import { RECOMMENDATION_TYPES, type RecommendationType } from '@/lib/recommendation-api';
+
+export type InteractionType = UserInteraction['interactionType'];
+
+export const INTERACTION_TYPES: InteractionType[] = [
+  'view', 'like', 'purchase', 'cart_add', 'wishlist_add', ...NEGATIVE_INTERACTION_TYPES
+];
+
+// Recommendation impressions travel with interaction events but are stored in
+// recommendation_impressions, apart from the interaction history
+export type EventType = InteractionType | 'impression';
+
+export const EVENT_TYPES: EventType[] = [...INTERACTION_TYPES, 'impression'];
+
+// Largest batch the server accepts in one request
+export const MAX_EVENTS_PER_BATCH = 50;
+
+// Serialized metadata beyond this size is rejected
+const MAX_METADATA_BYTES = 2048;
+
+// Client timestamps older than this are replaced by the receive time; the
+// outbox also discards events it could not deliver within this window
+export const MAX_EVENT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// One interaction as sent by the browser
+export interface InteractionEventInput {
+  // Client-generated UUID; the server stores each one at most once
+  eventId?: string;
+  productId: string;
+  interactionType: EventType;
+  sessionId?: string;
+  // ISO timestamp of when the interaction happened on the client
+  occurredAt?: string;
+  metadata?: UserInteraction['metadata'];
+}
+
+export interface EventBatch {
+  events: InteractionEventInput[];
+}
+
+export interface RejectedEvent {
+  index: number;
+  errors: string[];
+}
+
+export interface EventsResponse {
+  accepted: number;
+  // Valid events that had already been stored by an earlier attempt
+  duplicates: number;
+  rejected: RejectedEvent[];
+}
+
+export interface EventsErrorResponse {
+  error: string;
+}
+
+export interface EventBatchValidation {
+  events: InteractionEventInput[];
+  rejected: RejectedEvent[];
+}
+
+/**
+ * Check one event; product IDs must exist in the catalog
+ * @returns A list of problems; empty when the event is valid
+ */
+export function validateEvent(value: unknown, isKnownProduct: (id: string) => boolean): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['must be an object'];
+  }
+
+  const e = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (e.eventId !== undefined && (typeof e.eventId !== 'string' || !UUID_PATTERN.test(e.eventId))) {
+    errors.push('eventId must be a UUID');
+  }
+  if (typeof e.productId !== 'string' || e.productId === '') {
+    errors.push('productId must be a non-empty string');
+  } else if (!isKnownProduct(e.productId)) {
+    errors.push(`unknown product "${e.productId}"`);
+  }
+  if (!EVENT_TYPES.includes(e.interactionType as EventType)) {
+    errors.push(`interactionType must be one of ${EVENT_TYPES.join(', ')}`);
+  }
+  if (e.sessionId !== undefined && (typeof e.sessionId !== 'string' || e.sessionId.length > 64)) {
+    errors.push('sessionId must be a string of at most 64 characters');
+  }
+  if (e.occurredAt !== undefined && (typeof e.occurredAt !== 'string' || Number.isNaN(Date.parse(e.occurredAt)))) {
+    errors.push('occurredAt must be an ISO timestamp');
+  }
+  if (e.metadata !== undefined) {
+    if (typeof e.metadata !== 'object' || e.metadata === null || Array.isArray(e.metadata)) {
+      errors.push('metadata must be an object');
+    } else if (JSON.stringify(e.metadata).length > MAX_METADATA_BYTES) {
+      errors.push(`metadata must serialize to at most ${MAX_METADATA_BYTES} bytes`);
+    }
+  }
+  if (e.interactionType === 'impression') {
+    errors.push(...validateImpressionMetadata(e.metadata));
+  }
+
+  return errors;
+}
+
+// An impression must say which served list and slot the product was shown in
+function validateImpressionMetadata(value: unknown): string[] {
+  const metadata = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof metadata.requestId !== 'string' || !UUID_PATTERN.test(metadata.requestId)) {
+    errors.push('impression metadata.requestId must be a UUID');
+  }
+  if (!Number.isInteger(metadata.slot) || (metadata.slot as number) < 1) {
+    errors.push('impression metadata.slot must be a positive integer');
+  }
+  if (!RECOMMENDATION_TYPES.includes(metadata.recommendationType as RecommendationType)) {
+    errors.push(`impression metadata.recommendationType must be one of ${RECOMMENDATION_TYPES.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a request body, keeping valid events and reporting the rest.
+ * Returns null when the body is not a batch at all.
+ */
+export function validateEventBatch(
+  body: unknown,
+  isKnownProduct: (id: string) => boolean
+): EventBatchValidation | null {
+  const events = (body as EventBatch | null)?.events;
+  if (!Array.isArray(events) || events.length > MAX_EVENTS_PER_BATCH) {
+    return null;
+  }
+
+  const valid: InteractionEventInput[] = [];
+  const rejected: RejectedEvent[] = [];
+
+  events.forEach((event, index) => {
+    const errors = validateEvent(event, isKnownProduct);
+    if (errors.length > 0) {
+      rejected.push({ index, errors });
+    } else {
+      valid.push(event as InteractionEventInput);
+    }
+  });
+
+  return { events: valid, rejected };
+}
+
+/**
+ * Server-side timestamp for an event: the client time when it is plausible,
+ * otherwise the time it was received
+ */
+export function resolveEventTime(occurredAt: string | undefined, receivedAt: Date = new Date()): Date {
+  if (!occurredAt) return receivedAt;
+
+  const time = Date.parse(occurredAt);
+  const age = receivedAt.getTime() - time;
+  return age > MAX_EVENT_AGE_MS || age < -MAX_CLOCK_SKEW_MS ? receivedAt : new Date(time);
+}
+
+/**
+ * New idempotency key for an event
+ */
+export function createEventId(): string {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  // randomUUID is missing outside secure contexts; build a v4 UUID by hand
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
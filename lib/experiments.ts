@@ -0,0 +1,409 @@
+// A/B experiments on recommendation strategies: definitions, sticky assignment and results
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import experimentsData from '@/data/experiments.json';
+import { RECOMMENDATION_STRATEGIES, type RecommendationStrategy } from '@/lib/ai-recommendations';
+import type { RecommendationType } from '@/lib/recommendation-api';
+
+export type ExperimentStatus = 'draft' | 'running' | 'completed';
+
+const EXPERIMENT_STATUSES: ExperimentStatus[] = ['draft', 'running', 'completed'];
+
+export interface ExperimentVariant {
+  name: string;
+  // Relative share of traffic
+  weight: number;
+  // Strategy for personalized lists; the configured default when omitted
+  strategy?: RecommendationStrategy;
+  // Extra instructions appended to every model prompt, for prompt experiments
+  promptInstructions?: string;
+}
+
+export interface Experiment {
+  id: string;
+  description: string;
+  // Only a running experiment assigns variants
+  status: ExperimentStatus;
+  // The first variant is the control the others are compared with
+  variants: ExperimentVariant[];
+}
+
+// Stamped on served lists and on interactions as experimentId / variant
+export interface ExperimentAssignment {
+  experimentId: string;
+  variant: string;
+}
+
+export interface ExperimentValidationResult {
+  experiments: Experiment[];
+  // One message per rejected experiment
+  errors: string[];
+}
+
+export interface RateEstimate {
+  rate: number;
+  // 95% confidence interval
+  low: number;
+  high: number;
+}
+
+export interface VariantResult {
+  variant: string;
+  users: number;
+  // Distinct user/product pairs shown
+  served: number;
+  clicks: number;
+  cartAdds: number;
+  ctr: RateEstimate;
+  addToCartRate: RateEstimate;
+  // Difference from the control's rate; absent for the control itself
+  ctrLift?: RateEstimate;
+  addToCartLift?: RateEstimate;
+}
+
+export interface ExperimentReport {
+  experimentId: string;
+  recommendationType: RecommendationType;
+  variants: VariantResult[];
+}
+
+// Per-variant totals, as returned by get_experiment_counts
+export interface VariantCounts {
+  variant: string;
+  users: number;
+  served: number;
+  clicks: number;
+  cartAdds: number;
+}
+
+interface ExperimentCountsRow {
+  variant: string;
+  users: number | string;
+  served: number | string;
+  clicks: number | string;
+  cart_adds: number | string;
+}
+
+// Metadata keys carrying the assignment; set only by the server
+const ASSIGNMENT_KEYS = ['experimentId', 'variant'];
+
+// Two-sided 95%
+const Z_95 = 1.96;
+
+/**
+ * Check one raw experiment definition
+ * @returns A list of problems; empty when the definition is valid
+ */
+export function validateExperiment(value: unknown): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['must be an object'];
+  }
+
+  const e = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof e.id !== 'string' || e.id === '') errors.push('id must be a non-empty string');
+  if (typeof e.description !== 'string') errors.push('description must be a string');
+  if (!EXPERIMENT_STATUSES.includes(e.status as ExperimentStatus)) {
+    errors.push(`status must be one of ${EXPERIMENT_STATUSES.join(', ')}`);
+  }
+  if (!Array.isArray(e.variants) || e.variants.length < 2) {
+    return [...errors, 'variants must list at least two variants'];
+  }
+
+  const names = new Set<string>();
+  (e.variants as unknown[]).forEach((variant, index) => {
+    const v = (variant ?? {}) as Record<string, unknown>;
+    if (typeof v.name !== 'string' || v.name === '') {
+      errors.push(`variants[${index}].name must be a non-empty string`);
+    } else if (names.has(v.name)) {
+      errors.push(`variants[${index}]: duplicate name "${v.name}"`);
+    } else {
+      names.add(v.name);
+    }
+    if (typeof v.weight !== 'number' || !(v.weight > 0)) {
+      errors.push(`variants[${index}].weight must be a positive number`);
+    }
+    if (v.strategy !== undefined && !RECOMMENDATION_STRATEGIES.includes(v.strategy as RecommendationStrategy)) {
+      errors.push(`variants[${index}].strategy must be one of ${RECOMMENDATION_STRATEGIES.join(', ')}`);
+    }
+    if (v.promptInstructions !== undefined && typeof v.promptInstructions !== 'string') {
+      errors.push(`variants[${index}].promptInstructions must be a string`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate experiment definitions, keeping valid ones and reporting the rest.
+ * Only one experiment may run at a time, since overlapping experiments on the
+ * same lists would confound each other; later running ones are rejected.
+ */
+export function validateExperiments(data: unknown): ExperimentValidationResult {
+  if (!Array.isArray(data)) {
+    return { experiments: [], errors: ['experiments must be an array'] };
+  }
+
+  const experiments: Experiment[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  data.forEach((entry, index) => {
+    const problems = validateExperiment(entry);
+    if (problems.length > 0) {
+      errors.push(`experiment[${index}]: ${problems.join(', ')}`);
+      return;
+    }
+
+    const experiment = entry as Experiment;
+    if (seen.has(experiment.id)) {
+      errors.push(`experiment[${index}]: duplicate id "${experiment.id}"`);
+      return;
+    }
+    if (experiment.status === 'running' && experiments.some(e => e.status === 'running')) {
+      errors.push(`experiment[${index}]: "${experiment.id}" overlaps another running experiment`);
+      return;
+    }
+
+    seen.add(experiment.id);
+    experiments.push(experiment);
+  });
+
+  return { experiments, errors };
+}
+
+let experiments: Experiment[] | null = null;
+
+/**
+ * Experiment definitions from data/experiments.json, dropping and logging invalid ones
+ */
+export function getExperiments(): Experiment[] {
+  if (!experiments) {
+    const result = validateExperiments(experimentsData);
+    if (result.errors.length > 0) {
+      console.warn(`Rejected ${result.errors.length} invalid experiments:`, result.errors);
+    }
+    experiments = result.experiments;
+  }
+  return experiments;
+}
+
+export function getRunningExperiment(definitions: Experiment[] = getExperiments()): Experiment | undefined {
+  return definitions.find(experiment => experiment.status === 'running');
+}
+
+/**
+ * Position of a unit in [0, 1), from a 32-bit hash of the experiment and
+ * unit IDs. Stable across requests and servers, so assignment needs no
+ * storage, and independent between experiments.
+ */
+export function bucket(experimentId: string, unitId: string): number {
+  const input = `${experimentId}:${unitId}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  // FNV alone spreads sequential IDs unevenly; finish with murmur3's mixer
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 4294967296;
+}
+
+/**
+ * The variant a user or visitor sees, in proportion to the variant weights.
+ * The same ID always gets the same variant while the weights are unchanged.
+ */
+export function assignVariant(experiment: Experiment, unitId: string): ExperimentVariant {
+  const total = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let target = bucket(experiment.id, unitId) * total;
+  for (const variant of experiment.variants) {
+    target -= variant.weight;
+    if (target < 0) return variant;
+  }
+  return experiment.variants[experiment.variants.length - 1];
+}
+
+/**
+ * The running experiment's variant for a user or visitor ID, or null when
+ * nothing is running
+ */
+export function getAssignment(
+  unitId: string,
+  definitions: Experiment[] = getExperiments()
+): (ExperimentAssignment & { settings: ExperimentVariant }) | null {
+  const experiment = getRunningExperiment(definitions);
+  if (!experiment) {
+    return null;
+  }
+  const settings = assignVariant(experiment, unitId);
+  return { experimentId: experiment.id, variant: settings.name, settings };
+}
+
+/**
+ * Replace any assignment in event metadata with the server's own, so clients
+ * cannot report a variant they were not assigned
+ */
+export function stampExperiment<T extends Record<string, unknown>>(
+  metadata: T | undefined,
+  assignment: ExperimentAssignment | null
+): T {
+  const stamped = Object.fromEntries(
+    Object.entries(metadata || {}).filter(([key]) => !ASSIGNMENT_KEYS.includes(key))
+  ) as T;
+  return assignment
+    ? { ...stamped, experimentId: assignment.experimentId, variant: assignment.variant }
+    : stamped;
+}
+
+/**
+ * Log a list served under an experiment. Needs a service role client, since
+ * shoppers may not write recommendation_serves themselves. Failures are
+ * logged, not thrown, so they never cost the user their recommendations.
+ * @param requestId - The response's requestId, stored as the serve's ID
+ */
+export async function recordServe(
+  supabase: SupabaseClient,
+  userId: string,
+  assignment: ExperimentAssignment,
+  type: RecommendationType,
+  productIds: string[],
+  requestId?: string
+): Promise<void> {
+  const { error } = await supabase.from('recommendation_serves').insert({
+    ...(requestId && { id: requestId }),
+    user_id: userId,
+    experiment_id: assignment.experimentId,
+    variant: assignment.variant,
+    recommendation_type: type,
+    product_ids: productIds
+  });
+
+  if (error) {
+    console.error('Error recording recommendation serve:', error);
+  }
+}
+
+/**
+ * Wilson score interval for a proportion; well behaved for small samples and
+ * rates near 0
+ */
+export function wilsonInterval(successes: number, trials: number, z: number = Z_95): RateEstimate {
+  if (trials <= 0) {
+    return { rate: 0, low: 0, high: 0 };
+  }
+  const p = Math.min(successes, trials) / trials;
+  const denominator = 1 + (z * z) / trials;
+  const center = (p + (z * z) / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))) / denominator;
+  return { rate: p, low: Math.max(0, center - margin), high: Math.min(1, center + margin) };
+}
+
+/**
+ * Difference between two proportions with a normal-approximation interval
+ */
+export function differenceInterval(
+  successes: number,
+  trials: number,
+  controlSuccesses: number,
+  controlTrials: number,
+  z: number = Z_95
+): RateEstimate {
+  if (trials <= 0 || controlTrials <= 0) {
+    return { rate: 0, low: 0, high: 0 };
+  }
+  const p = Math.min(successes, trials) / trials;
+  const q = Math.min(controlSuccesses, controlTrials) / controlTrials;
+  const margin = z * Math.sqrt((p * (1 - p)) / trials + (q * (1 - q)) / controlTrials);
+  return { rate: p - q, low: p - q - margin, high: p - q + margin };
+}
+
+/**
+ * CTR and add-to-cart rate per variant with 95% intervals, and each
+ * variant's difference from the control. Every served user/product pair is
+ * treated as an independent trial, which makes the intervals somewhat
+ * narrower than they are when users see many lists.
+ */
+export function computeExperimentReport(
+  experiment: Experiment,
+  counts: VariantCounts[],
+  recommendationType: RecommendationType = 'personalized'
+): ExperimentReport {
+  const byName = new Map(counts.map(count => [count.variant, count]));
+  const empty = (variant: string): VariantCounts => ({ variant, users: 0, served: 0, clicks: 0, cartAdds: 0 });
+  const control = byName.get(experiment.variants[0].name) || empty(experiment.variants[0].name);
+
+  return {
+    experimentId: experiment.id,
+    recommendationType,
+    variants: experiment.variants.map((variant, index) => {
+      const count = byName.get(variant.name) || empty(variant.name);
+      return {
+        ...count,
+        ctr: wilsonInterval(count.clicks, count.served),
+        addToCartRate: wilsonInterval(count.cartAdds, count.served),
+        ...(index > 0 && {
+          ctrLift: differenceInterval(count.clicks, count.served, control.clicks, control.served),
+          addToCartLift: differenceInterval(count.cartAdds, count.served, control.cartAdds, control.served)
+        })
+      };
+    })
+  };
+}
+
+/**
+ * Load per-variant totals and build the report. Needs a client with the
+ * service role key, since the counts span every user.
+ */
+export async function loadExperimentReport(
+  supabase: SupabaseClient,
+  experiment: Experiment,
+  recommendationType: RecommendationType = 'personalized'
+): Promise<ExperimentReport> {
+  const { data, error } = await supabase.rpc('get_experiment_counts', {
+    p_experiment_id: experiment.id,
+    p_recommendation_type: recommendationType
+  });
+
+  if (error) {
+    throw new Error(`Failed to load experiment counts: ${error.message}`);
+  }
+
+  const counts = ((data || []) as ExperimentCountsRow[]).map(row => ({
+    variant: row.variant,
+    users: Number(row.users),
+    served: Number(row.served),
+    clicks: Number(row.clicks),
+    cartAdds: Number(row.cart_adds)
+  }));
+  return computeExperimentReport(experiment, counts, recommendationType);
+}
+
+/**
+ * Render a report as a fixed-width table
+ */
+export function formatExperimentReport(report: ExperimentReport): string {
+  const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+  const estimate = (value?: RateEstimate) =>
+    value ? `${percent(value.rate)} [${percent(value.low)}, ${percent(value.high)}]` : '-';
+  const rows = [
+    ['variant', 'users', 'served', 'clicks', 'CTR (95% CI)', 'CTR lift', 'cart adds', 'add-to-cart (95% CI)', 'add-to-cart lift'],
+    ...report.variants.map(v => [
+      v.variant,
+      String(v.users),
+      String(v.served),
+      String(v.clicks),
+      estimate(v.ctr),
+      estimate(v.ctrLift),
+      String(v.cartAdds),
+      estimate(v.addToCartRate),
+      estimate(v.addToCartLift)
+    ])
+  ];
+  const widths = rows[0].map((_, index) => Math.max(...rows.map(row => row[index].length)));
+  return rows
+    .map(row => row.map((cell, index) => (index === 0 ? cell.padEnd(widths[index]) : cell.padStart(widths[index]))).join('  '))
+    .join('\n');
+}
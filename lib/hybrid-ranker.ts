@@ -0,0 +1,384 @@
+// Deterministic content + co-occurrence ranker used alongside the LLM pipeline
+
+import type { Recommendation } from '@/lib/recommendation-schema';
+import { popularity, type Product } from '@/lib/catalog';
+
+// Product fields the ranker reads
+export type RankableProduct = Pick<
+  Product,
+  'id' | 'name' | 'category' | 'subcategory' | 'price' | 'description' | 'features' | 'tags' | 'brand' | 'ratings'
+>;
+
+// A single logged interaction, from this user or from the wider population
+export interface InteractionEvent {
+  productId: string;
+  interactionType: string;
+  userId?: string;
+  sessionId?: string;
+}
+
+// How many baskets across all shoppers held both products, from get_co_occurrence
+export interface CoOccurrenceCount {
+  productId: string;
+  relatedProductId: string;
+  baskets: number;
+}
+
+// Preferences and history the ranker personalizes on
+export interface RankerProfile {
+  preferredCategories: string[];
+  preferredBrands: string[];
+  priceRange: [number, number];
+  preferredFeatures: string[];
+  interactionHistory: InteractionEvent[];
+}
+
+export interface HybridRankerWeights {
+  content: number;
+  coOccurrence: number;
+  popularity: number;
+  preference: number;
+}
+
+type SparseVector = Map<string, number>;
+
+export const INTERACTION_WEIGHTS: Record<string, number> = {
+  view: 1,
+  wishlist_add: 2,
+  like: 3,
+  cart_add: 5,
+  purchase: 10,
+  // Negative feedback keeps a product out of the results but says nothing about what the user likes
+  dismiss: 0,
+  not_interested: 0,
+  already_own: 0
+};
+
+const DEFAULT_WEIGHTS: HybridRankerWeights = {
+  content: 0.5,
+  coOccurrence: 0.3,
+  popularity: 0.1,
+  preference: 0.1
+};
+
+// Structured fields are repeated so they count more than free text
+const FIELD_BOOSTS = {
+  category: 3,
+  subcategory: 3,
+  brand: 2,
+  tags: 2,
+  features: 2,
+  name: 1,
+  description: 1
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'to', 'with', 'your', 'you', 'this', 'all'
+]);
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+function cosine(a: SparseVector, b: SparseVector): number {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((value, term) => {
+    const other = large.get(term);
+    if (other) dot += value * other;
+  });
+  return dot;
+}
+
+function normalize(vector: SparseVector): SparseVector {
+  let norm = 0;
+  vector.forEach(value => { norm += value * value; });
+  norm = Math.sqrt(norm);
+  if (norm === 0) return vector;
+  const result: SparseVector = new Map();
+  vector.forEach((value, term) => result.set(term, value / norm));
+  return result;
+}
+
+/**
+ * Classical recommender combining TF-IDF content similarity with item-item
+ * co-occurrence. Its output is fully deterministic for a given catalog and
+ * interaction log, which makes it usable as a strategy on its own, as a
+ * candidate generator for LLM re-ranking, and as the fallback when the model
+ * is unavailable.
+ */
+export class HybridRanker {
+  private products: RankableProduct[];
+  private productsById = new Map<string, RankableProduct>();
+  private vectors = new Map<string, SparseVector>();
+  private coOccurrence = new Map<string, Map<string, number>>();
+  private maxPopularity = 0;
+  private weights: HybridRankerWeights;
+
+  constructor(
+    products: RankableProduct[],
+    interactionLog: InteractionEvent[] = [],
+    weights: Partial<HybridRankerWeights> = {}
+  ) {
+    this.products = products;
+    this.weights = { ...DEFAULT_WEIGHTS, ...weights };
+    products.forEach(p => this.productsById.set(p.id, p));
+    this.buildVectors();
+    this.buildCoOccurrence(interactionLog);
+    this.maxPopularity = Math.max(0, ...products.map(popularity));
+  }
+
+  /**
+   * Add basket counts aggregated outside the interaction log, e.g. across
+   * every shopper by get_co_occurrence, whose rows RLS would otherwise hide
+   */
+  withCoOccurrence(counts: CoOccurrenceCount[]): this {
+    counts.forEach(({ productId, relatedProductId, baskets }) => {
+      if (productId === relatedProductId || !this.productsById.has(productId) || !this.productsById.has(relatedProductId)) return;
+      if (!this.coOccurrence.has(productId)) this.coOccurrence.set(productId, new Map());
+      const row = this.coOccurrence.get(productId)!;
+      row.set(relatedProductId, (row.get(relatedProductId) || 0) + baskets);
+    });
+    return this;
+  }
+
+  /**
+   * Rank unseen products for a user profile
+   */
+  recommend(profile: RankerProfile, maxResults: number = 10): Recommendation[] {
+    const history = this.weightedHistory(profile.interactionHistory);
+    const profileVector = this.profileVector(profile, history);
+
+    const scored = this.products
+      .filter(p => !history.has(p.id))
+      .map(p => {
+        const content = profileVector.size > 0 ? cosine(profileVector, this.vectors.get(p.id)!) : 0;
+        const { score: coOccurrence, anchor } = this.coOccurrenceScore(p.id, history);
+        const popularity = this.normalizedPopularity(p);
+        const preference = this.preferenceScore(p, profile);
+
+        const score =
+          this.weights.content * content +
+          this.weights.coOccurrence * coOccurrence +
+          this.weights.popularity * popularity +
+          this.weights.preference * preference;
+
+        return {
+          product: p,
+          score,
+          reason: this.explain(p, { content, coOccurrence, popularity, preference }, anchor, history)
+        };
+      })
+      .sort((a, b) => b.score - a.score || a.product.id.localeCompare(b.product.id));
+
+    return scored.slice(0, maxResults).map(({ product, score, reason }) => ({
+      productId: product.id,
+      score: Math.round(Math.min(1, score) * 100),
+      reason,
+      category: 'hybrid'
+    }));
+  }
+
+  /**
+   * Products most similar to a given product
+   */
+  similar(productId: string, maxResults: number = 5): Recommendation[] {
+    const target = this.productsById.get(productId);
+    if (!target) return [];
+
+    const targetVector = this.vectors.get(productId)!;
+    const related = this.coOccurrence.get(productId);
+    const maxRelated = related ? Math.max(...Array.from(related.values())) : 0;
+
+    return this.products
+      .filter(p => p.id !== productId)
+      .map(p => {
+        const content = cosine(targetVector, this.vectors.get(p.id)!);
+        const coOccurrence = maxRelated > 0 ? (related!.get(p.id) || 0) / maxRelated : 0;
+        return { product: p, content, coOccurrence, score: 0.7 * content + 0.3 * coOccurrence };
+      })
+      .sort((a, b) => b.score - a.score || a.product.id.localeCompare(b.product.id))
+      .slice(0, maxResults)
+      .map(({ product, content, coOccurrence, score }) => ({
+        productId: product.id,
+        score: Math.round(Math.min(1, score) * 100),
+        reason: coOccurrence > content
+          ? `Often explored together with ${target.name}`
+          : `Similar to ${target.name}`,
+        category: 'similar'
+      }));
+  }
+
+  /**
+   * Products ranked by rating quality and review volume
+   */
+  popular(maxResults: number = 10): Recommendation[] {
+    return [...this.products]
+      .sort((a, b) => popularity(b) - popularity(a) || a.id.localeCompare(b.id))
+      .slice(0, maxResults)
+      .map(p => ({
+        productId: p.id,
+        score: Math.round(this.normalizedPopularity(p) * 100),
+        reason: p.ratings.count > 0
+          ? `Highly rated (${p.ratings.average}) with ${p.ratings.count} reviews`
+          : `Highly rated (${p.ratings.average})`,
+        category: 'trending'
+      }));
+  }
+
+  private buildVectors(): void {
+    const termFrequencies = new Map<string, Map<string, number>>();
+    const documentFrequency = new Map<string, number>();
+
+    this.products.forEach(p => {
+      const tf = new Map<string, number>();
+      const add = (text: string, boost: number) => {
+        tokenize(text).forEach(token => tf.set(token, (tf.get(token) || 0) + boost));
+      };
+      add(p.category, FIELD_BOOSTS.category);
+      add(p.subcategory, FIELD_BOOSTS.subcategory);
+      add(p.brand, FIELD_BOOSTS.brand);
+      p.tags.forEach(tag => add(tag, FIELD_BOOSTS.tags));
+      p.features.forEach(feature => add(feature, FIELD_BOOSTS.features));
+      add(p.name, FIELD_BOOSTS.name);
+      add(p.description, FIELD_BOOSTS.description);
+
+      termFrequencies.set(p.id, tf);
+      tf.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    });
+
+    const documentCount = this.products.length;
+    termFrequencies.forEach((tf, productId) => {
+      const vector: SparseVector = new Map();
+      tf.forEach((count, term) => {
+        const idf = Math.log((1 + documentCount) / (1 + documentFrequency.get(term)!)) + 1;
+        vector.set(term, (1 + Math.log(count)) * idf);
+      });
+      this.vectors.set(productId, normalize(vector));
+    });
+  }
+
+  private buildCoOccurrence(interactionLog: InteractionEvent[]): void {
+    // Group interactions into baskets by session, falling back to user
+    const baskets = new Map<string, Set<string>>();
+    interactionLog.forEach(event => {
+      const key = event.sessionId || event.userId;
+      if (!key || !this.productsById.has(event.productId) || INTERACTION_WEIGHTS[event.interactionType] === 0) return;
+      if (!baskets.has(key)) baskets.set(key, new Set());
+      baskets.get(key)!.add(event.productId);
+    });
+
+    baskets.forEach(basket => {
+      const items = Array.from(basket);
+      items.forEach(a => {
+        items.forEach(b => {
+          if (a === b) return;
+          if (!this.coOccurrence.has(a)) this.coOccurrence.set(a, new Map());
+          const row = this.coOccurrence.get(a)!;
+          row.set(b, (row.get(b) || 0) + 1);
+        });
+      });
+    });
+  }
+
+  private weightedHistory(history: InteractionEvent[]): Map<string, number> {
+    const weights = new Map<string, number>();
+    history.forEach(event => {
+      if (!this.productsById.has(event.productId)) return;
+      const weight = INTERACTION_WEIGHTS[event.interactionType] ?? 1;
+      weights.set(event.productId, (weights.get(event.productId) || 0) + weight);
+    });
+    return weights;
+  }
+
+  private profileVector(profile: RankerProfile, history: Map<string, number>): SparseVector {
+    const vector: SparseVector = new Map();
+
+    history.forEach((weight, productId) => {
+      this.vectors.get(productId)!.forEach((value, term) => {
+        vector.set(term, (vector.get(term) || 0) + value * weight);
+      });
+    });
+
+    // Explicit preferences act like a single strong interaction
+    const preferenceTerms = [
+      ...profile.preferredCategories,
+      ...profile.preferredBrands,
+      ...profile.preferredFeatures
+    ].flatMap(tokenize);
+    preferenceTerms.forEach(term => {
+      vector.set(term, (vector.get(term) || 0) + INTERACTION_WEIGHTS.cart_add / Math.max(1, preferenceTerms.length));
+    });
+
+    return normalize(vector);
+  }
+
+  private coOccurrenceScore(productId: string, history: Map<string, number>): { score: number; anchor?: string } {
+    let total = 0;
+    let best = 0;
+    let anchor: string | undefined;
+    let totalWeight = 0;
+
+    history.forEach((weight, seenId) => {
+      totalWeight += weight;
+      const count = this.coOccurrence.get(seenId)?.get(productId) || 0;
+      total += count * weight;
+      if (count * weight > best) {
+        best = count * weight;
+        anchor = seenId;
+      }
+    });
+
+    if (totalWeight === 0 || total === 0) return { score: 0 };
+    // Saturating transform keeps a handful of shared baskets from dominating
+    const average = total / totalWeight;
+    return { score: average / (1 + average), anchor };
+  }
+
+  private preferenceScore(product: RankableProduct, profile: RankerProfile): number {
+    let score = 0;
+    if (profile.preferredCategories.includes(product.category)) score += 0.4;
+    if (profile.preferredBrands.includes(product.brand)) score += 0.3;
+    if (product.price >= profile.priceRange[0] && product.price <= profile.priceRange[1]) score += 0.3;
+    return score;
+  }
+
+  private normalizedPopularity(product: RankableProduct): number {
+    return this.maxPopularity > 0 ? popularity(product) / this.maxPopularity : 0;
+  }
+
+  private explain(
+    product: RankableProduct,
+    parts: { content: number; coOccurrence: number; popularity: number; preference: number },
+    anchor: string | undefined,
+    history: Map<string, number>
+  ): string {
+    const contributions = {
+      content: this.weights.content * parts.content,
+      coOccurrence: this.weights.coOccurrence * parts.coOccurrence,
+      popularity: this.weights.popularity * parts.popularity,
+      preference: this.weights.preference * parts.preference
+    };
+    const strongest = (Object.keys(contributions) as Array<keyof typeof contributions>)
+      .reduce((a, b) => (contributions[b] > contributions[a] ? b : a));
+
+    if (strongest === 'coOccurrence' && anchor) {
+      return `Shoppers who viewed ${this.productsById.get(anchor)!.name} also explored this`;
+    }
+    if (strongest === 'content' && history.size > 0) {
+      const closest = Array.from(history.keys()).reduce((a, b) =>
+        cosine(this.vectors.get(b)!, this.vectors.get(product.id)!) >
+        cosine(this.vectors.get(a)!, this.vectors.get(product.id)!) ? b : a
+      );
+      return `Similar to ${this.productsById.get(closest)!.name}`;
+    }
+    if (strongest === 'preference' || strongest === 'content') {
+      return `Matches your interest in ${product.category} from ${product.brand}`;
+    }
+    return `Popular in ${product.category} with a ${product.ratings.average}★ rating`;
+  }
+}
@@ -1,30 +1,80 @@
 // User interaction tracking service for the recommendation system
 
 import { createClient } from '@/lib/supabase/client';
+import { loadUserPreferences } from '@/lib/user-data';
+import { fetchTrendingScores, type TrendingScore } from '@/lib/trending';
+import { EventQueue } from '@/lib/event-queue';
+import { ANONYMOUS_OWNER } from '@/lib/event-outbox';
+import { RecommendationCache } from '@/lib/recommendation-cache';
+import type { MergeAnonymousResponse } from '@/lib/anonymous-history';
+import type { InferredPreferences, PreferenceValues } from '@/lib/preference-inference';
+import type { FeedbackEvent, NegativeFeedbackReason, NegativeInteractionType } from '@/lib/negative-feedback';
+import type { ErasureResponse, ExportFormat, UserDataExport } from '@/lib/account-data';
+import type { UserAnalytics } from '@/lib/user-analytics';
+import type { RecommendationType } from '@/lib/recommendation-api';
+import {
+  allowsPersonalization,
+  minimizeEvent,
+  readBrowserConsent,
+  type ConsentMode,
+  type ConsentResponse
+} from '@/lib/consent';
 
 export interface UserInteraction {
   id: string;
   userId: string;
   productId: string;
-  interactionType: 'view' | 'like' | 'purchase' | 'cart_add' | 'wishlist_add';
+  interactionType: 'view' | 'like' | 'purchase' | 'cart_add' | 'wishlist_add' | NegativeInteractionType;
   timestamp: Date;
   sessionId: string;
   metadata?: {
+    // Why a recommendation was dismissed, for negative feedback
+    reason?: NegativeFeedbackReason;
     searchQuery?: string;
     category?: string;
     price?: number;
+    // "recommendations" for actions taken on a recommendation list
     referrer?: string;
-    durationOnProduct?: number;
+    recommendationType?: RecommendationType;
+    // Response the recommendation came from and its 1-based position in the list
+    requestId?: string;
+    slot?: number;
+    // Set by the server when the shopper is in a running experiment
+    experimentId?: string;
+    variant?: string;
   };
 }
 
+// A recommendation card that became visible
+export interface RecommendationImpression {
+  productId: string;
+  // requestId of the /api/recommendations response the list came from
+  requestId: string;
+  // 1-based position in the list as served
+  slot: number;
+  recommendationType: RecommendationType;
+}
+
 export interface UserPreference {
   userId: string;
+  // Effective values: explicit ones first, then those inferred from activity
   preferredCategories: string[];
   preferredBrands: string[];
   priceRange: [number, number];
   preferredFeatures: string[];
+  // What the user set themselves
+  explicit?: PreferenceValues;
+  // Derived from interaction history; null until first inferred
+  inferred?: InferredPreferences | null;
+  // Never recommended, and dropped from the effective lists above
+  blockedCategories?: string[];
+  blockedBrands?: string[];
+  // Interactions before this are ignored when inferring preferences
+  inferenceResetAt?: Date;
   interactionHistory: UserInteraction[];
+  // All negative feedback, including what is older than interactionHistory
+  // reaches; when absent, the negative feedback in interactionHistory is used
+  negativeFeedback?: FeedbackEvent[];
   lastUpdated: Date;
 }
 
@@ -34,11 +84,26 @@ export interface UserPreference {
  */
 export class InteractionTracker {
   private supabase = createClient();
+  private events = new EventQueue();
   private sessionId: string;
+  // Products already viewed this session, keyed with the recommendation list
+  // they were clicked in; image reloads and re-renders are not new views
+  private viewedProducts = new Set<string>();
+  // requestId:slot pairs already reported as impressions
+  private impressions = new Set<string>();
 
   constructor() {
     // Generate a session ID for this browsing session
     this.sessionId = this.generateSessionId();
+
+    if (typeof window !== 'undefined') {
+      this.migrateLocalInteractions();
+      // Once the session is known, and whenever the account changes, upload
+      // what earlier pages could not deliver for the signed-in account
+      this.supabase.auth.onAuthStateChange((_event, session) => {
+        void this.events.setOwner(session?.user.id ?? ANONYMOUS_OWNER);
+      });
+    }
   }
 
   private generateSessionId(): string {
@@ -46,38 +111,118 @@ export class InteractionTracker {
   }
 
   /**
-   * Track user interaction with a product
+   * Track user interaction with a product.
+   * Events are queued and sent to /api/events in batches; views are counted
+   * once per product per session, and clicks once per recommendation list.
+   * Details the shopper's tracking consent does not cover are stripped before
+   * the event leaves the browser.
    */
   async trackInteraction(interaction: Omit<UserInteraction, 'id' | 'timestamp'>): Promise<void> {
-    try {
-      // Get current user
-      const { data: { user } } = await this.supabase.auth.getUser();
-      
-      if (!user) {
-        console.warn('No authenticated user found for tracking interaction');
+    if (interaction.interactionType === 'view') {
+      const key = `${interaction.productId}:${interaction.metadata?.requestId ?? ''}`;
+      if (this.viewedProducts.has(key)) {
         return;
       }
+      this.viewedProducts.add(key);
+    }
 
-      // Insert interaction into database
-      const { error } = await this.supabase
-        .from('user_interactions')
-        .insert({
-          user_id: user.id,
-          product_id: interaction.productId,
-          interaction_type: interaction.interactionType,
-          session_id: this.sessionId,
-          metadata: interaction.metadata || {}
-        });
+    this.events.enqueue(minimizeEvent({
+      productId: interaction.productId,
+      interactionType: interaction.interactionType,
+      sessionId: this.sessionId,
+      metadata: interaction.metadata
+    }, readBrowserConsent()));
+  }
 
-      if (error) {
-        console.error('Error tracking interaction:', error);
-        // Fallback to localStorage if database fails
-        this.trackInteractionLocal(interaction);
+  /**
+   * Record that a recommendation was on screen. Each slot of a served list is
+   * counted once, however often the card re-renders, and impressions are only
+   * sent when the shopper allowed personalization.
+   */
+  trackImpression(impression: RecommendationImpression): void {
+    const key = `${impression.requestId}:${impression.slot}`;
+    if (this.impressions.has(key) || !allowsPersonalization(readBrowserConsent())) {
+      return;
+    }
+    this.impressions.add(key);
+
+    this.events.enqueue({
+      productId: impression.productId,
+      interactionType: 'impression',
+      sessionId: this.sessionId,
+      metadata: {
+        requestId: impression.requestId,
+        slot: impression.slot,
+        recommendationType: impression.recommendationType
       }
+    });
+  }
+
+  /**
+   * The shopper's tracking consent, or null when they have not chosen yet
+   */
+  async getConsent(): Promise<ConsentMode | null> {
+    try {
+      const response = await fetch('/api/consent');
+      if (!response.ok) {
+        throw new Error(`Failed to load consent: ${response.status}`);
+      }
+      return ((await response.json()) as ConsentResponse).mode;
     } catch (error) {
-      console.error('Error tracking interaction:', error);
-      // Fallback to localStorage if database fails
-      this.trackInteractionLocal(interaction);
+      console.error('Error loading consent:', error);
+      return readBrowserConsent();
+    }
+  }
+
+  /**
+   * Record the shopper's tracking consent for this browser and, when signed
+   * in, their account
+   */
+  async setConsent(mode: ConsentMode): Promise<void> {
+    const response = await fetch('/api/consent', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ mode })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to save consent: ${response.status}`);
+    }
+  }
+
+  /**
+   * Send queued interaction events now, e.g. before reading fresh recommendations
+   */
+  flushInteractions(): Promise<void> {
+    return this.events.flush();
+  }
+
+  /**
+   * Attach what this browser did while signed out to the account that just
+   * signed in: queued events are sent first, then the server moves the
+   * visitor's stored interactions and merges the local anonymous preferences.
+   * Failures are logged and never block the sign-in flow.
+   */
+  async claimAnonymousHistory(): Promise<MergeAnonymousResponse | null> {
+    try {
+      await this.events.flush();
+
+      const storedPreferences = localStorage.getItem('user_preferences_anonymous');
+      const response = await fetch('/api/account/merge-anonymous', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ preferences: storedPreferences ? JSON.parse(storedPreferences) : undefined })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to merge anonymous history: ${response.status}`);
+      }
+
+      localStorage.removeItem('user_preferences_anonymous');
+      return (await response.json()) as MergeAnonymousResponse;
+    } catch (error) {
+      console.error('Error claiming anonymous history:', error);
+      return null;
     }
   }
 
@@ -94,44 +239,7 @@ export class InteractionTracker {
         return this.getDefaultPreferences();
       }
 
-      // Get user preferences from database
-      const { data: preferences } = await this.supabase
-        .from('user_preferences')
-        .select('*')
-        .eq('user_id', targetUserId)
-        .single();
-
-      // Get interaction history
-      const { data: interactions } = await this.supabase
-        .from('user_interactions')
-        .select('*')
-        .eq('user_id', targetUserId)
-        .order('created_at', { ascending: false })
-        .limit(100);
-
-      // Convert database data to UserPreference format
-      const userPreferences: UserPreference = {
-        userId: targetUserId,
-        preferredCategories: preferences?.preferred_categories || [],
-        preferredBrands: preferences?.preferred_brands || [],
-        priceRange: [
-          preferences?.price_range_min || 0,
-          preferences?.price_range_max || 3000
-        ],
-        preferredFeatures: preferences?.preferred_features || [],
-        interactionHistory: interactions?.map((i: { id: string; product_id: string; interaction_type: string; created_at: string; session_id: string; metadata?: Record<string, unknown> }) => ({
-          id: i.id,
-          userId: targetUserId,
-          productId: i.product_id,
-          interactionType: i.interaction_type as 'view' | 'like' | 'purchase' | 'cart_add' | 'wishlist_add',
-          timestamp: new Date(i.created_at),
-          sessionId: i.session_id,
-          metadata: i.metadata || {}
-        })) || [],
-        lastUpdated: new Date(preferences?.updated_at || new Date())
-      };
-
-      return userPreferences;
+      return await loadUserPreferences(this.supabase, targetUserId);
     } catch (error) {
       console.error('Error getting user preferences:', error);
       // Fallback to localStorage if database fails
@@ -140,102 +248,120 @@ export class InteractionTracker {
   }
 
   /**
-   * Update user preferences in database
+   * Update the user's explicit preferences and blocked categories and brands.
+   * Only the fields given are written; the rest keep their stored values.
+   * Cached recommendations are dropped so every list reflects the change.
+   * @param options.resetInferred - Also forget inferred preferences; only
+   *   interactions after now are used to infer them again
+   * @returns Whether the preferences were stored in the database
    */
-  async updateUserPreferences(preferences: Partial<UserPreference>): Promise<void> {
+  async updateUserPreferences(
+    preferences: Partial<UserPreference>,
+    options: { resetInferred?: boolean } = {}
+  ): Promise<boolean> {
     try {
       const { data: { user } } = await this.supabase.auth.getUser();
       
       if (!user) {
         console.warn('No authenticated user found for updating preferences');
-        return;
+        return false;
       }
 
+      const now = new Date().toISOString();
+      const reset = options.resetInferred
+        ? {
+            inferred_categories: [],
+            inferred_brands: [],
+            inferred_price_min: null,
+            inferred_price_max: null,
+            inferred_features: [],
+            inferred_at: now,
+            inference_reset_at: now
+          }
+        : {};
+
+      // Columns left out of the upsert keep their stored values, or take
+      // their defaults for a new row
+      const fields = {
+        ...(preferences.preferredCategories && { preferred_categories: preferences.preferredCategories }),
+        ...(preferences.preferredBrands && { preferred_brands: preferences.preferredBrands }),
+        ...(preferences.priceRange && {
+          price_range_min: preferences.priceRange[0],
+          price_range_max: preferences.priceRange[1]
+        }),
+        ...(preferences.preferredFeatures && { preferred_features: preferences.preferredFeatures }),
+        ...(preferences.blockedCategories && { blocked_categories: preferences.blockedCategories }),
+        ...(preferences.blockedBrands && { blocked_brands: preferences.blockedBrands })
+      };
+
       // Upsert user preferences
       const { error } = await this.supabase
         .from('user_preferences')
-        .upsert({
-          user_id: user.id,
-          preferred_categories: preferences.preferredCategories || [],
-          preferred_brands: preferences.preferredBrands || [],
-          price_range_min: preferences.priceRange?.[0] || 0,
-          price_range_max: preferences.priceRange?.[1] || 3000,
-          preferred_features: preferences.preferredFeatures || [],
-          updated_at: new Date().toISOString()
-        });
+        .upsert(
+          {
+            user_id: user.id,
+            ...fields,
+            ...reset,
+            updated_at: now
+          },
+          { onConflict: 'user_id' }
+        );
 
       if (error) {
         console.error('Error updating preferences:', error);
         // Fallback to localStorage if database fails
         this.updateUserPreferencesLocal(preferences);
+        return false;
       }
+
+      await new RecommendationCache(this.supabase).invalidate(user.id);
+      return true;
     } catch (error) {
       console.error('Error updating preferences:', error);
       // Fallback to localStorage if database fails
       this.updateUserPreferencesLocal(preferences);
+      return false;
     }
   }
 
   /**
-   * Get trending products based on interaction data
+   * Get trending products across all users, optionally within one category
    */
-  async getTrendingProducts(limit: number = 10): Promise<Array<{ productId: string; score: number }>> {
+  async getTrendingProducts(limit: number = 10, category?: string): Promise<TrendingScore[]> {
     try {
-      const { data: interactions } = await this.supabase
-        .from('user_interactions')
-        .select('product_id, interaction_type, created_at')
-        .gte('created_at', new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString()) // Last 7 days
-        .order('created_at', { ascending: false });
-
-      if (!interactions || interactions.length === 0) {
-        return [];
-      }
-
-      // Calculate trending scores
-      const productScores = new Map<string, number>();
-      const weights = { view: 1, like: 3, cart_add: 5, purchase: 10, wishlist_add: 2 };
-
-      interactions.forEach(interaction => {
-        const weight = weights[interaction.interaction_type as keyof typeof weights] || 1;
-        const currentScore = productScores.get(interaction.product_id) || 0;
-        productScores.set(interaction.product_id, currentScore + weight);
-      });
-
-      // Sort and return top products
-      return Array.from(productScores.entries())
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, limit)
-        .map(([productId, score]) => ({ productId, score }));
+      return await fetchTrendingScores(this.supabase, { limit, category });
     } catch (error) {
       console.error('Error getting trending products:', error);
       return [];
     }
   }
 
-  // Fallback localStorage methods (keep existing implementation)
-  private trackInteractionLocal(interaction: Omit<UserInteraction, 'id' | 'timestamp'>): void {
-    const newInteraction: UserInteraction = {
-      id: Math.random().toString(36).substring(2, 15),
-      userId: interaction.userId,
-      productId: interaction.productId,
-      interactionType: interaction.interactionType,
-      timestamp: new Date(),
-      sessionId: this.sessionId,
-      metadata: interaction.metadata || {}
-    };
-
-    const stored = localStorage.getItem('user_interactions');
-    const interactions: UserInteraction[] = stored ? JSON.parse(stored) : [];
-    interactions.push(newInteraction);
-    
-    // Keep only last 1000 interactions
-    if (interactions.length > 1000) {
-      interactions.splice(0, interactions.length - 1000);
+  /**
+   * Move interactions stranded in localStorage by earlier versions into the
+   * upload outbox, each kept for the account that recorded it and stripped
+   * to what the shopper's tracking consent covers
+   */
+  private migrateLocalInteractions(): void {
+    const stranded = this.getAllInteractions();
+    if (stranded.length === 0) {
+      return;
     }
-    
-    localStorage.setItem('user_interactions', JSON.stringify(interactions));
+
+    const consent = readBrowserConsent();
+    stranded.forEach(interaction => this.events.enqueue(
+      minimizeEvent({
+        productId: interaction.productId,
+        interactionType: interaction.interactionType,
+        sessionId: interaction.sessionId,
+        occurredAt: Number.isNaN(interaction.timestamp.getTime()) ? undefined : interaction.timestamp.toISOString(),
+        metadata: interaction.metadata
+      }, consent),
+      interaction.userId || ANONYMOUS_OWNER
+    ));
+    localStorage.removeItem('user_interactions');
   }
 
+  // Fallback localStorage methods (keep existing implementation)
   private getUserPreferencesLocal(userId?: string): UserPreference {
     const stored = localStorage.getItem(`user_preferences_${userId || 'anonymous'}`);
     
@@ -286,58 +412,23 @@ export class InteractionTracker {
   }
 
   /**
-   * Get interaction analytics for a user
+   * Get the signed-in user's shopping analytics, computed on the server from
+   * their stored interactions. Queued interactions are sent first so the
+   * numbers include them.
    */
-  async getUserAnalytics(userId: string) {
-    const interactions = this.getUserInteractions(userId);
-    const preferences = await this.getUserPreferences(userId);
+  async getUserAnalytics(): Promise<UserAnalytics> {
+    await this.events.flush();
 
-    // Calculate interaction patterns
-    const interactionCounts = interactions.reduce((acc, interaction) => {
-      acc[interaction.interactionType] = (acc[interaction.interactionType] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    // Get most viewed categories
-    const categoryViews = interactions
-      .filter(i => i.interactionType === 'view')
-      .reduce((acc, interaction) => {
-        const category = interaction.metadata?.category || 'Unknown';
-        acc[category] = (acc[category] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-
-    // Calculate average session duration
-    const sessionDurations = interactions
-      .filter(i => i.metadata?.durationOnProduct)
-      .map(i => i.metadata!.durationOnProduct!);
-    
-    const avgSessionDuration = sessionDurations.length > 0 
-      ? sessionDurations.reduce((a, b) => a + b, 0) / sessionDurations.length 
-      : 0;
-
-    // Recent activity (last 7 days)
-    const weekAgo = new Date();
-    weekAgo.setDate(weekAgo.getDate() - 7);
-    const recentInteractions = interactions.filter(
-      i => i.timestamp > weekAgo
-    );
-
-    return {
-      totalInteractions: interactions.length,
-      interactionCounts,
-      categoryViews,
-      avgSessionDuration,
-      recentActivity: recentInteractions.length,
-      preferredCategories: preferences.preferredCategories,
-      preferredBrands: preferences.preferredBrands,
-      priceRange: preferences.priceRange,
-      accountAge: preferences.lastUpdated
-    };
+    const response = await fetch('/api/analytics');
+    if (!response.ok) {
+      throw new Error(`Failed to load analytics: ${response.status}`);
+    }
+    return (await response.json()) as UserAnalytics;
   }
 
   /**
-   * Clear user data (for privacy/testing)
+   * Clear data kept in this browser for a user. Stored data is erased with
+   * eraseUserData.
    */
   clearUserData(userId: string): void {
     // Remove user preferences
@@ -354,20 +445,55 @@ export class InteractionTracker {
   }
 
   /**
-   * Export user data for privacy compliance
+   * URL that downloads everything stored about the signed-in user
    */
-  exportUserData(userId: string) {
-    const interactions = this.getUserInteractions(userId);
-    const preferences = this.getUserPreferences(userId);
-    const analytics = this.getUserAnalytics(userId);
+  getExportUrl(format: ExportFormat = 'json'): string {
+    return `/api/account/data?format=${format}`;
+  }
 
-    return {
-      userId,
-      interactions,
-      preferences,
-      analytics,
-      exportDate: new Date().toISOString()
-    };
+  /**
+   * Export everything stored about the signed-in user, for privacy compliance.
+   * Queued interactions are sent first so the export is complete.
+   */
+  async exportUserData(): Promise<UserDataExport> {
+    await this.events.flush();
+
+    const response = await fetch(this.getExportUrl('json'));
+    if (!response.ok) {
+      throw new Error(`Failed to export user data: ${response.status}`);
+    }
+    return (await response.json()) as UserDataExport;
+  }
+
+  /**
+   * Erase the signed-in user's interactions, preferences and cached
+   * recommendations on the server, then everything this browser still holds
+   * for them, including events not yet uploaded.
+   * @param confirmation - Must be ERASURE_CONFIRMATION
+   */
+  async eraseUserData(confirmation: string): Promise<ErasureResponse> {
+    const { data: { user } } = await this.supabase.auth.getUser();
+
+    // Drop pending events first so none are uploaded after the erasure
+    await this.events.clear();
+
+    const response = await fetch('/api/account/data', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ confirmation })
+    });
+
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: undefined }));
+      throw new Error(error || `Failed to erase user data: ${response.status}`);
+    }
+
+    if (user) {
+      this.clearUserData(user.id);
+    }
+    this.viewedProducts.clear();
+    this.impressions.clear();
+    return (await response.json()) as ErasureResponse;
   }
 
   /**
@@ -422,8 +548,10 @@ export const useInteractionTracker = () => {
   return {
     trackInteraction: interactionTracker.trackInteraction.bind(interactionTracker),
     getUserPreferences: interactionTracker.getUserPreferences.bind(interactionTracker),
+    updateUserPreferences: interactionTracker.updateUserPreferences.bind(interactionTracker),
     getUserAnalytics: interactionTracker.getUserAnalytics.bind(interactionTracker),
     clearUserData: interactionTracker.clearUserData.bind(interactionTracker),
-    exportUserData: interactionTracker.exportUserData.bind(interactionTracker)
+    exportUserData: interactionTracker.exportUserData.bind(interactionTracker),
+    eraseUserData: interactionTracker.eraseUserData.bind(interactionTracker)
   };
 }; 
\ No newline at end of file
@@ -0,0 +1,31 @@
+/**
+ * Thrown when the model endpoint answers with an error status.
+ * Carries what the retry policy needs to decide whether and when to retry.
+ */
+export class LLMRequestError extends Error {
+  readonly status?: number;
+  // Server-requested wait before retrying (Retry-After or Gemini RetryInfo)
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LLMRequestError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,68 @@
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+  type ErrorDetails,
+  type GenerativeModel
+} from "@google/generative-ai";
+import type { GenerateOptions, LLMProvider } from './types';
+import { parseJSONResponse } from './parse';
+import { LLMRequestError } from './errors';
+
+/**
+ * Google Gemini backend
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  private client: GoogleGenerativeAI;
+
+  constructor(apiKey: string, model: string = 'gemini-1.5-flash') {
+    this.client = new GoogleGenerativeAI(apiKey);
+    this.model = model;
+  }
+
+  async generateText(prompt: string, options?: GenerateOptions): Promise<string> {
+    return this.complete(prompt, options);
+  }
+
+  async generateJSON<T = unknown>(prompt: string, options?: GenerateOptions): Promise<T> {
+    return parseJSONResponse<T>(await this.complete(prompt, options, 'application/json'));
+  }
+
+  private async complete(prompt: string, options?: GenerateOptions, responseMimeType?: string): Promise<string> {
+    try {
+      const result = await this.getModel(options, responseMimeType).generateContent(prompt, { signal: options?.signal });
+      return result.response.text();
+    } catch (error) {
+      if (error instanceof GoogleGenerativeAIFetchError) {
+        throw new LLMRequestError(error.message, error.status, getRetryDelay(error.errorDetails));
+      }
+      // The SDK wraps network failures in a plain GoogleGenerativeAIError
+      if (error instanceof GoogleGenerativeAIError && /Error fetching from/.test(error.message)) {
+        throw new LLMRequestError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private getModel(options?: GenerateOptions, responseMimeType?: string): GenerativeModel {
+    return this.client.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        temperature: options?.temperature,
+        maxOutputTokens: options?.maxOutputTokens,
+        responseMimeType
+      }
+    });
+  }
+}
+
+/**
+ * Read the server-suggested retry delay ("30s") from a google.rpc.RetryInfo detail
+ */
+function getRetryDelay(details: ErrorDetails[] = []): number | undefined {
+  const retryInfo = details.find(detail => detail['@type']?.endsWith('RetryInfo'));
+  const delay = typeof retryInfo?.retryDelay === 'string' ? parseFloat(retryInfo.retryDelay) : NaN;
+  return Number.isFinite(delay) ? delay * 1000 : undefined;
+}
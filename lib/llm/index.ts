@@ -0,0 +1,95 @@
+import type { LLMConfig, LLMProvider, LLMProviderName } from './types';
+import { GeminiProvider } from './gemini';
+import { OpenAICompatibleProvider } from './openai';
+import { LocalProvider } from './local';
+import { ResilientProvider, type ResilienceOptions } from './resilient';
+
+export type { GenerateOptions, JSONShape, LLMConfig, LLMProvider, LLMProviderName } from './types';
+export { GeminiProvider } from './gemini';
+export { OpenAICompatibleProvider } from './openai';
+export { LocalProvider } from './local';
+export { InvalidJSONError, parseJSONResponse } from './parse';
+export { LLMRequestError } from './errors';
+export {
+  CircuitOpenError,
+  ResilientProvider,
+  type CircuitState,
+  type LLMCallMetrics,
+  type ResilienceOptions
+} from './resilient';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['gemini', 'openai', 'local'];
+
+function readResilience(env: Record<string, string | undefined>): Partial<ResilienceOptions> {
+  const settings: Partial<ResilienceOptions> = {};
+  const read = (name: string) => (env[name] !== undefined && env[name] !== '' ? Number(env[name]) : NaN);
+
+  if (Number.isFinite(read('LLM_MAX_RETRIES'))) settings.maxRetries = read('LLM_MAX_RETRIES');
+  if (Number.isFinite(read('LLM_CIRCUIT_FAILURE_THRESHOLD'))) settings.failureThreshold = read('LLM_CIRCUIT_FAILURE_THRESHOLD');
+  if (Number.isFinite(read('LLM_CIRCUIT_COOLDOWN_MS'))) settings.cooldownMs = read('LLM_CIRCUIT_COOLDOWN_MS');
+
+  return settings;
+}
+
+/**
+ * Read the provider configuration from the environment.
+ *
+ * LLM_PROVIDER selects the backend explicitly. Without it, Gemini is used when
+ * GEMINI_API_KEY is set and the local deterministic provider otherwise, so the
+ * app runs without any API key. LLM_MAX_RETRIES, LLM_CIRCUIT_FAILURE_THRESHOLD
+ * and LLM_CIRCUIT_COOLDOWN_MS tune the retry policy and circuit breaker.
+ */
+export function getLLMConfig(env: Record<string, string | undefined> = process.env): LLMConfig {
+  const requested = env.LLM_PROVIDER?.toLowerCase() as LLMProviderName | undefined;
+
+  if (requested && !PROVIDER_NAMES.includes(requested)) {
+    console.warn(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}", using local provider`);
+    return { provider: 'local' };
+  }
+
+  const provider = requested || (env.GEMINI_API_KEY ? 'gemini' : 'local');
+  const resilience = readResilience(env);
+
+  switch (provider) {
+    case 'gemini':
+      return { provider, model: env.LLM_MODEL, apiKey: env.GEMINI_API_KEY, resilience };
+    case 'openai':
+      return {
+        provider,
+        model: env.LLM_MODEL,
+        apiKey: env.OPENAI_API_KEY,
+        baseUrl: env.OPENAI_BASE_URL,
+        resilience
+      };
+    default:
+      return { provider: 'local', resilience };
+  }
+}
+
+/**
+ * Create the provider described by a configuration (defaults to the environment),
+ * wrapped with retries and a circuit breaker
+ */
+export function createLLMProvider(config: LLMConfig = getLLMConfig()): LLMProvider {
+  return new ResilientProvider(createBaseProvider(config), config.resilience);
+}
+
+function createBaseProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case 'gemini':
+      if (!config.apiKey) {
+        console.warn('GEMINI_API_KEY is not set, using local provider');
+        return new LocalProvider();
+      }
+      return new GeminiProvider(config.apiKey, config.model);
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        model: config.model,
+        apiKey: config.apiKey,
+        baseUrl: config.baseUrl
+      });
+    case 'local':
+    default:
+      return new LocalProvider();
+  }
+}
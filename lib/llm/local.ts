@@ -0,0 +1,62 @@
+import type { LLMProvider } from './types';
+import { parseJSONResponse } from './parse';
+
+export type LocalResponder = (prompt: string) => string;
+
+/**
+ * Deterministic stand-in for a real model, used offline in CI and development.
+ *
+ * Prompts that ask for recommendation objects are answered with the product
+ * IDs listed in the prompt, in the order they appear and with descending
+ * scores. Any other JSON prompt is answered by filling the field template the
+ * prompt describes with neutral values.
+ */
+export class LocalProvider implements LLMProvider {
+  readonly name = 'local';
+  readonly model = 'local-deterministic';
+  private responder: LocalResponder;
+
+  constructor(responder: LocalResponder = defaultResponder) {
+    this.responder = responder;
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    return this.responder(prompt);
+  }
+
+  async generateJSON<T = unknown>(prompt: string): Promise<T> {
+    return parseJSONResponse<T>(this.responder(prompt));
+  }
+}
+
+function defaultResponder(prompt: string): string {
+  if (!/"productId"/.test(prompt)) {
+    if (!/"\w+":\s*(number|"string"|\["string"\])/.test(prompt)) {
+      return 'Recommended based on your recent activity.';
+    }
+    return JSON.stringify(fillTemplate(prompt));
+  }
+
+  const ids = Array.from(prompt.matchAll(/(?:Product )?ID:\s*([^\s,]+)/g), match => match[1]);
+  const uniqueIds = Array.from(new Set(ids));
+  const categoryMatch = prompt.match(/"category":\s*"(\w+)"/);
+  const category = categoryMatch && categoryMatch[1] !== 'string' ? categoryMatch[1] : 'local';
+
+  return JSON.stringify(
+    uniqueIds.map((productId, index) => ({
+      productId,
+      score: Math.max(10, 90 - index * 5),
+      reason: 'Selected by the local recommendation provider',
+      category
+    }))
+  );
+}
+
+function fillTemplate(prompt: string): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [, field, type] of prompt.matchAll(/"(\w+)":\s*(number|"string"|\["string"\])/g)) {
+    if (field in result) continue;
+    result[field] = type === 'number' ? 5 : type === '"string"' ? 'browsing' : [];
+  }
+  return result;
+}
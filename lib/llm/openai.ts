@@ -0,0 +1,70 @@
+import type { GenerateOptions, LLMProvider } from './types';
+import { parseJSONResponse } from './parse';
+import { LLMRequestError, parseRetryAfter } from './errors';
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: { content?: string | null };
+  }>;
+}
+
+/**
+ * Backend for any server exposing the OpenAI chat completions API
+ * (OpenAI itself, Azure, vLLM, Ollama, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(options: { model?: string; apiKey?: string; baseUrl?: string } = {}) {
+    this.model = options.model || 'gpt-4o-mini';
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  }
+
+  async generateText(prompt: string, options?: GenerateOptions): Promise<string> {
+    return this.complete(prompt, options, false);
+  }
+
+  async generateJSON<T = unknown>(prompt: string, options?: GenerateOptions): Promise<T> {
+    return parseJSONResponse<T>(await this.complete(prompt, options, true));
+  }
+
+  private async complete(prompt: string, options: GenerateOptions | undefined, json: boolean): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: options?.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options?.temperature,
+        max_tokens: options?.maxOutputTokens,
+        // json_object mode requires an object at the top level, so only ask for
+        // it when the caller said it expects one
+        ...(json && options?.shape === 'object' ? { response_format: { type: 'json_object' } } : {})
+      })
+    });
+
+    if (!response.ok) {
+      throw new LLMRequestError(
+        `LLM request failed: ${response.status} ${response.statusText}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    const data = (await response.json()) as ChatCompletionResponse;
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error('LLM response contained no content');
+    }
+
+    return content;
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Thrown when a model response does not contain parseable JSON
+ */
+export class InvalidJSONError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidJSONError';
+  }
+}
+
+/**
+ * Extract the first JSON value from a model response and parse it.
+ * Models frequently wrap JSON in markdown fences or add prose around it.
+ */
+export function parseJSONResponse<T = unknown>(text: string): T {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return JSON.parse(candidate) as T;
+  } catch {
+    // Fall through to bracket extraction
+  }
+
+  const start = candidate.search(/[[{]/);
+  if (start === -1) {
+    throw new InvalidJSONError('No JSON found in model response');
+  }
+
+  const open = candidate[start];
+  const close = open === '[' ? ']' : '}';
+  const end = candidate.lastIndexOf(close);
+  if (end <= start) {
+    throw new InvalidJSONError('Unterminated JSON in model response');
+  }
+
+  try {
+    return JSON.parse(candidate.slice(start, end + 1)) as T;
+  } catch (error) {
+    throw new InvalidJSONError(error instanceof Error ? error.message : 'Malformed JSON in model response');
+  }
+}
@@ -0,0 +1,227 @@
+import type { GenerateOptions, LLMProvider } from './types';
+import { InvalidJSONError } from './parse';
+import { LLMRequestError } from './errors';
+
+export interface ResilienceOptions {
+  // Extra attempts after the first one for transient failures
+  maxRetries: number;
+  baseDelayMs: number;
+  // Longest wait between attempts; a longer server-requested wait opens the circuit instead
+  maxDelayMs: number;
+  // Consecutive failed calls that open the circuit
+  failureThreshold: number;
+  // How long an open circuit rejects calls before letting a trial call through
+  cooldownMs: number;
+}
+
+export const DEFAULT_RESILIENCE: ResilienceOptions = {
+  maxRetries: 2,
+  baseDelayMs: 250,
+  maxDelayMs: 4000,
+  failureThreshold: 5,
+  cooldownMs: 30000
+};
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+// Counters since the provider was created
+export interface LLMCallMetrics {
+  provider: string;
+  calls: number;
+  successes: number;
+  failures: number;
+  retries: number;
+  rateLimited: number;
+  // Calls rejected without reaching the model because the circuit was open
+  shortCircuited: number;
+  circuitState: CircuitState;
+  consecutiveFailures: number;
+  circuitOpenUntil?: string;
+}
+
+/**
+ * Thrown instead of calling the model while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(provider: string, retryInMs: number) {
+    super(`LLM provider "${provider}" is unavailable, retrying in ${Math.ceil(retryInMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+const isAbort = (error: unknown) => error instanceof Error && /abort/i.test(error.name);
+
+const isRateLimit = (error: unknown) => error instanceof LLMRequestError && error.status === 429;
+
+/**
+ * Errors worth retrying: network failures, timeouts, rate limits and 5xx responses
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof LLMRequestError) {
+    return error.status === undefined || error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  // fetch reports network failures as TypeError
+  return error instanceof TypeError;
+}
+
+// Unparseable answers prove the endpoint is up, and aborts are the caller giving up
+const countsAsFailure = (error: unknown) => !(error instanceof InvalidJSONError) && !isAbort(error);
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Wraps a provider with retries, exponential backoff and a circuit breaker.
+ *
+ * Transient failures are retried with jittered exponential backoff, honoring
+ * the server's requested delay on rate limits. After `failureThreshold`
+ * consecutive failed calls the circuit opens and calls fail immediately with
+ * CircuitOpenError until the cooldown passes; one trial call then decides
+ * whether it closes again. A rate limit asking for a longer wait than
+ * `maxDelayMs` opens the circuit for that long.
+ */
+export class ResilientProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private inner: LLMProvider;
+  private options: ResilienceOptions;
+  private state: CircuitState = 'closed';
+  private openUntil = 0;
+  private trialInFlight = false;
+  private metrics = {
+    calls: 0,
+    successes: 0,
+    failures: 0,
+    retries: 0,
+    rateLimited: 0,
+    shortCircuited: 0,
+    consecutiveFailures: 0
+  };
+
+  constructor(inner: LLMProvider, options: Partial<ResilienceOptions> = {}) {
+    this.inner = inner;
+    this.name = inner.name;
+    this.model = inner.model;
+    this.options = { ...DEFAULT_RESILIENCE, ...options };
+  }
+
+  generateText(prompt: string, options?: GenerateOptions): Promise<string> {
+    return this.call(() => this.inner.generateText(prompt, options), options?.signal);
+  }
+
+  generateJSON<T = unknown>(prompt: string, options?: GenerateOptions): Promise<T> {
+    return this.call(() => this.inner.generateJSON<T>(prompt, options), options?.signal);
+  }
+
+  getMetrics(): LLMCallMetrics {
+    this.refreshState();
+    return {
+      provider: this.name,
+      ...this.metrics,
+      circuitState: this.state,
+      ...(this.state === 'open' ? { circuitOpenUntil: new Date(this.openUntil).toISOString() } : {})
+    };
+  }
+
+  private async call<T>(attempt: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    this.metrics.calls++;
+    this.refreshState();
+
+    if (this.state === 'open' || (this.state === 'half_open' && this.trialInFlight)) {
+      this.metrics.shortCircuited++;
+      throw new CircuitOpenError(this.name, Math.max(0, this.openUntil - Date.now()));
+    }
+
+    const isTrial = this.state === 'half_open';
+    this.trialInFlight = isTrial;
+
+    try {
+      for (let retry = 0; ; retry++) {
+        try {
+          const value = await attempt();
+          this.onSuccess();
+          return value;
+        } catch (error) {
+          if (isRateLimit(error)) {
+            this.metrics.rateLimited++;
+          }
+
+          const delay = this.backoffDelay(retry, error);
+          const retryable = !isTrial && isTransientError(error) && retry < this.options.maxRetries && !signal?.aborted;
+
+          if (!retryable || delay > this.options.maxDelayMs) {
+            if (error instanceof InvalidJSONError) {
+              this.onSuccess();
+            } else if (countsAsFailure(error)) {
+              this.onFailure(error);
+            }
+            throw error;
+          }
+
+          this.metrics.retries++;
+          await sleep(delay, signal);
+        }
+      }
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  private backoffDelay(retry: number, error: unknown): number {
+    if (error instanceof LLMRequestError && error.retryAfterMs !== undefined) {
+      return error.retryAfterMs;
+    }
+    const exponential = this.options.baseDelayMs * 2 ** retry;
+    // Jitter keeps concurrent stages from retrying in lockstep
+    return Math.min(this.options.maxDelayMs, exponential * (0.5 + Math.random() / 2));
+  }
+
+  private refreshState(): void {
+    if (this.state === 'open' && Date.now() >= this.openUntil) {
+      this.state = 'half_open';
+    }
+  }
+
+  private onSuccess(): void {
+    this.metrics.successes++;
+    this.metrics.consecutiveFailures = 0;
+    this.state = 'closed';
+  }
+
+  private onFailure(error: unknown): void {
+    this.metrics.failures++;
+    this.metrics.consecutiveFailures++;
+
+    const retryAfterMs = error instanceof LLMRequestError ? error.retryAfterMs ?? 0 : 0;
+    if (retryAfterMs > this.options.maxDelayMs) {
+      this.open(retryAfterMs);
+    } else if (this.state === 'half_open' || this.metrics.consecutiveFailures >= this.options.failureThreshold) {
+      this.open(this.options.cooldownMs);
+    }
+  }
+
+  private open(durationMs: number): void {
+    if (this.state !== 'open') {
+      console.warn(`Opening circuit for LLM provider "${this.name}" for ${durationMs}ms`);
+    }
+    this.state = 'open';
+    this.openUntil = Date.now() + durationMs;
+  }
+}
@@ -0,0 +1,50 @@
+// Shared contract for the language model backends used by the recommendation service
+
+import type { ResilienceOptions } from './resilient';
+
+// Top-level JSON value a prompt asks for
+export type JSONShape = 'object' | 'array';
+
+/**
+ * Options accepted by every provider call
+ */
+export interface GenerateOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Top-level JSON value expected from generateJSON; backends whose JSON mode only allows objects need it */
+  shape?: JSONShape;
+  /** Aborts the underlying request, e.g. when a pipeline stage times out */
+  signal?: AbortSignal;
+}
+
+/**
+ * A language model backend that can answer free-form and JSON prompts
+ */
+export interface LLMProvider {
+  /** Short identifier used in logs, e.g. "gemini" or "local" */
+  readonly name: string;
+  /** Model identifier the provider talks to */
+  readonly model: string;
+
+  /**
+   * Generate a plain text completion for a prompt
+   */
+  generateText(prompt: string, options?: GenerateOptions): Promise<string>;
+
+  /**
+   * Generate a completion and parse it as JSON.
+   * The parsed value is not validated; callers must check its shape.
+   */
+  generateJSON<T = unknown>(prompt: string, options?: GenerateOptions): Promise<T>;
+}
+
+export type LLMProviderName = 'gemini' | 'openai' | 'local';
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  // Retry and circuit breaker settings applied around the provider
+  resilience?: Partial<ResilienceOptions>;
+}
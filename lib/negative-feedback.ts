@@ -0,0 +1,142 @@
+// "Not interested" style feedback: suppressed products and brand/subcategory down-weighting
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Product } from '@/lib/catalog';
+import type { Recommendation } from '@/lib/recommendation-schema';
+import type { ProductLookup } from '@/lib/preference-inference';
+
+export const NEGATIVE_INTERACTION_TYPES = ['dismiss', 'not_interested', 'already_own'] as const;
+
+export type NegativeInteractionType = typeof NEGATIVE_INTERACTION_TYPES[number];
+
+/**
+ * Optional reasons sent in interaction metadata with "not_interested":
+ * - not_relevant: the kind of product is wrong, so its subcategory is down-weighted
+ * - brand: the brand is wrong, so only the brand is down-weighted
+ * - too_expensive: only the product is suppressed
+ */
+export const NEGATIVE_FEEDBACK_REASONS = ['not_relevant', 'brand', 'too_expensive', 'other'] as const;
+
+export type NegativeFeedbackReason = typeof NEGATIVE_FEEDBACK_REASONS[number];
+
+export interface FeedbackEvent {
+  productId: string;
+  interactionType: string;
+  metadata?: { reason?: unknown };
+}
+
+export interface FeedbackPenalties {
+  // Products never recommended again
+  suppressed: Set<string>;
+  // Number of negative signals per brand and per subcategory
+  brands: Map<string, number>;
+  subcategories: Map<string, number>;
+}
+
+// Score multiplier per negative signal on a product's brand or subcategory
+const PENALTY_FACTOR = 0.7;
+
+const PAGE_SIZE = 1000;
+
+export function isNegativeInteraction(interactionType: string): interactionType is NegativeInteractionType {
+  return (NEGATIVE_INTERACTION_TYPES as readonly string[]).includes(interactionType);
+}
+
+function increment(counts: Map<string, number>, key: string): void {
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+/**
+ * Load all of a user's negative feedback. A dismissed product stays hidden
+ * however much the user has done since, so unlike the interaction history
+ * this is not capped.
+ */
+export async function loadNegativeFeedback(supabase: SupabaseClient, userId: string): Promise<FeedbackEvent[]> {
+  const events: FeedbackEvent[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('user_interactions')
+      .select('product_id, interaction_type, metadata')
+      .eq('user_id', userId)
+      .in('interaction_type', [...NEGATIVE_INTERACTION_TYPES])
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load negative feedback: ${error.message}`);
+    }
+    events.push(...(data || []).map(row => ({
+      productId: row.product_id,
+      interactionType: row.interaction_type,
+      metadata: row.metadata || undefined
+    })));
+    if (!data || data.length < PAGE_SIZE) {
+      return events;
+    }
+  }
+}
+
+/**
+ * Collect what a user's negative feedback implies:
+ * - every dismissed, not-interested or already-owned product is suppressed
+ * - "not_interested" down-weights the brand and subcategory, or just one of
+ *   them when the reason says which was wrong
+ * - "already_own" down-weights the subcategory, since they have one already
+ * - "dismiss" only hides the product
+ */
+export function collectFeedbackPenalties(history: FeedbackEvent[], products: ProductLookup): FeedbackPenalties {
+  const penalties: FeedbackPenalties = { suppressed: new Set(), brands: new Map(), subcategories: new Map() };
+
+  for (const event of history) {
+    if (!isNegativeInteraction(event.interactionType)) continue;
+    penalties.suppressed.add(event.productId);
+
+    const product = products.get(event.productId);
+    if (!product) continue;
+
+    const reason = event.metadata?.reason;
+    if (event.interactionType === 'already_own') {
+      increment(penalties.subcategories, product.subcategory);
+    } else if (event.interactionType === 'not_interested' && reason !== 'too_expensive') {
+      if (reason !== 'brand') increment(penalties.subcategories, product.subcategory);
+      if (reason !== 'not_relevant') increment(penalties.brands, product.brand);
+    }
+  }
+
+  return penalties;
+}
+
+/**
+ * Score multiplier for a product given the user's feedback; 1 means unaffected
+ */
+export function penaltyFactor(product: Product, penalties: FeedbackPenalties): number {
+  const signals = (penalties.brands.get(product.brand) || 0) + (penalties.subcategories.get(product.subcategory) || 0);
+  return PENALTY_FACTOR ** signals;
+}
+
+export function hasPenalties(penalties: FeedbackPenalties): boolean {
+  return penalties.suppressed.size > 0 || penalties.brands.size > 0 || penalties.subcategories.size > 0;
+}
+
+/**
+ * Drop suppressed products from a recommendation list and re-rank the rest
+ * with their down-weighted scores
+ */
+export function applyFeedbackPenalties(
+  recommendations: Recommendation[],
+  products: ProductLookup,
+  penalties: FeedbackPenalties
+): Recommendation[] {
+  if (!hasPenalties(penalties)) {
+    return recommendations;
+  }
+
+  return recommendations
+    .filter(rec => !penalties.suppressed.has(rec.productId))
+    .map(rec => {
+      const product = products.get(rec.productId);
+      return product ? { ...rec, score: Math.round(rec.score * penaltyFactor(product, penalties)) } : rec;
+    })
+    .sort((a, b) => b.score - a.score);
+}
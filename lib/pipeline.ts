@@ -0,0 +1,135 @@
+// Stage timing, per-stage timeouts and an overall latency budget for LLM pipelines
+
+import type { LLMCallMetrics } from '@/lib/llm';
+import { TokenLedger, type StageTokenTotals } from '@/lib/token-budget';
+
+export type StageStatus = 'ok' | 'timeout' | 'error' | 'skipped';
+
+export interface StageMetrics {
+  stage: string;
+  status: StageStatus;
+  // Milliseconds since the pipeline started when the stage began
+  startMs: number;
+  durationMs: number;
+  error?: string;
+}
+
+export interface PipelineMetrics {
+  strategy: string;
+  totalMs: number;
+  latencyBudgetMs: number;
+  // True when a stage timed out, failed or was skipped and its fallback was used
+  partial: boolean;
+  stages: StageMetrics[];
+  // Process-wide model call counters and circuit state when the run finished
+  llm?: LLMCallMetrics;
+  // Estimated model tokens per stage in this run, repair calls included
+  tokens?: Record<string, StageTokenTotals>;
+}
+
+export class StageTimeoutError extends Error {
+  constructor(stage: string, timeoutMs: number) {
+    super(`Stage "${stage}" timed out after ${timeoutMs}ms`);
+    this.name = 'StageTimeoutError';
+  }
+}
+
+/**
+ * One execution of a multi-stage pipeline.
+ *
+ * Each stage gets the smaller of its own timeout and the time left in the
+ * overall budget. A stage that times out, throws, or starts after the budget
+ * is spent resolves to its fallback instead, so callers always get a result
+ * and can assemble partial output from the stages that did finish.
+ */
+export class PipelineRun {
+  private strategy: string;
+  private latencyBudgetMs: number;
+  private startedAt = Date.now();
+  private stages: StageMetrics[] = [];
+  // Model calls made by this run's stages record their usage here
+  readonly tokens = new TokenLedger();
+
+  constructor(strategy: string, latencyBudgetMs: number) {
+    this.strategy = strategy;
+    this.latencyBudgetMs = latencyBudgetMs;
+  }
+
+  remainingMs(): number {
+    return this.latencyBudgetMs - (Date.now() - this.startedAt);
+  }
+
+  /**
+   * Run an async stage under a timeout. The signal is aborted on timeout so
+   * the underlying request can be cancelled.
+   */
+  async stage<T>(
+    name: string,
+    timeoutMs: number,
+    run: (signal: AbortSignal) => Promise<T>,
+    fallback: () => T
+  ): Promise<T> {
+    const startMs = Date.now() - this.startedAt;
+    const limit = Math.min(timeoutMs, this.remainingMs());
+
+    if (limit <= 0) {
+      this.stages.push({ stage: name, status: 'skipped', startMs, durationMs: 0 });
+      return fallback();
+    }
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new StageTimeoutError(name, limit));
+      }, limit);
+    });
+
+    try {
+      const value = await Promise.race([run(controller.signal), timeout]);
+      this.record(name, 'ok', startMs);
+      return value;
+    } catch (error) {
+      const status = error instanceof StageTimeoutError ? 'timeout' : 'error';
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`Pipeline stage "${name}" ${status === 'timeout' ? 'timed out' : 'failed'}:`, message);
+      this.record(name, status, startMs, message);
+      return fallback();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Time a synchronous stage
+   */
+  measure<T>(name: string, run: () => T): T {
+    const startMs = Date.now() - this.startedAt;
+    const value = run();
+    this.record(name, 'ok', startMs);
+    return value;
+  }
+
+  finish(llm?: LLMCallMetrics): PipelineMetrics {
+    return {
+      strategy: this.strategy,
+      totalMs: Date.now() - this.startedAt,
+      latencyBudgetMs: this.latencyBudgetMs,
+      partial: this.stages.some(stage => stage.status !== 'ok'),
+      stages: [...this.stages],
+      ...(llm ? { llm } : {}),
+      ...(this.tokens.isEmpty() ? {} : { tokens: this.tokens.snapshot() })
+    };
+  }
+
+  private record(stage: string, status: StageStatus, startMs: number, error?: string): void {
+    this.stages.push({
+      stage,
+      status,
+      startMs,
+      durationMs: Date.now() - this.startedAt - startMs,
+      ...(error ? { error } : {})
+    });
+  }
+}
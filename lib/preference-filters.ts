@@ -0,0 +1,35 @@
+// Hard exclusions from the preference center, applied by every recommendation strategy
+
+import type { Product } from '@/lib/catalog';
+import type { PreferenceValues } from '@/lib/preference-inference';
+
+export interface BlockedPreferences {
+  blockedCategories?: string[];
+  blockedBrands?: string[];
+}
+
+export function isBlocked(product: Product, blocked: BlockedPreferences): boolean {
+  return !!(blocked.blockedCategories?.includes(product.category) || blocked.blockedBrands?.includes(product.brand));
+}
+
+/**
+ * Products a user has not blocked by category or brand
+ */
+export function withoutBlocked(products: Product[], blocked: BlockedPreferences): Product[] {
+  if (!blocked.blockedCategories?.length && !blocked.blockedBrands?.length) {
+    return products;
+  }
+  return products.filter(product => !isBlocked(product, blocked));
+}
+
+/**
+ * Drop blocked categories and brands from preference lists, so an inferred
+ * preference never brings back something the user blocked
+ */
+export function withoutBlockedValues<T extends PreferenceValues>(values: T, blocked: BlockedPreferences): T {
+  return {
+    ...values,
+    preferredCategories: values.preferredCategories.filter(c => !blocked.blockedCategories?.includes(c)),
+    preferredBrands: values.preferredBrands.filter(b => !blocked.blockedBrands?.includes(b))
+  };
+}
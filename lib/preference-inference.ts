@@ -0,0 +1,227 @@
+// Infers shopping preferences from weighted, time-decayed interaction history
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Product } from '@/lib/catalog';
+import { INTERACTION_WEIGHTS } from '@/lib/hybrid-ranker';
+
+// The values a user can state explicitly and that we can infer
+export interface PreferenceValues {
+  preferredCategories: string[];
+  preferredBrands: string[];
+  priceRange: [number, number];
+  preferredFeatures: string[];
+}
+
+export interface InferredPreferences extends PreferenceValues {
+  // Number of interactions the inference was based on
+  basedOn: number;
+  inferredAt: Date;
+}
+
+export interface InferenceOptions {
+  // Interaction weight halves every this many days
+  halfLifeDays: number;
+  // Most values kept per list
+  maxValues: number;
+  // A value must carry at least this share of the total weight to count
+  minShare: number;
+  now: Date;
+}
+
+interface WeightedInteraction {
+  productId: string;
+  interactionType: string;
+  timestamp: Date;
+}
+
+interface InteractionRow {
+  product_id: string;
+  interaction_type: string;
+  timestamp: string | null;
+  created_at: string;
+}
+
+// Anything that can look up products by ID, e.g. a Catalog or a Map
+export interface ProductLookup {
+  get(id: string): Product | undefined;
+}
+
+export const DEFAULT_PRICE_RANGE: [number, number] = [0, 3000];
+
+const DEFAULT_OPTIONS: Omit<InferenceOptions, 'now'> = {
+  halfLifeDays: 14,
+  maxValues: 5,
+  minShare: 0.1
+};
+
+// Interactions older than this no longer influence inferred preferences
+const HISTORY_WINDOW_DAYS = 90;
+const HISTORY_LIMIT = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addWeight(scores: Map<string, number>, key: string, weight: number): void {
+  scores.set(key, (scores.get(key) || 0) + weight);
+}
+
+function topValues(scores: Map<string, number>, total: number, options: InferenceOptions): string[] {
+  return Array.from(scores.entries())
+    .filter(([, score]) => score / total >= options.minShare)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, options.maxValues)
+    .map(([value]) => value);
+}
+
+/**
+ * Price at a weighted quantile of the interacted products
+ */
+function weightedQuantile(points: Array<{ price: number; weight: number }>, quantile: number): number {
+  const sorted = [...points].sort((a, b) => a.price - b.price);
+  const total = sorted.reduce((sum, point) => sum + point.weight, 0);
+  let cumulative = 0;
+  for (const point of sorted) {
+    cumulative += point.weight;
+    if (cumulative / total >= quantile) {
+      return point.price;
+    }
+  }
+  return sorted[sorted.length - 1].price;
+}
+
+/**
+ * Derive preferences from interactions. Each interaction counts with its
+ * type weight (view < like < cart_add < purchase), halved every
+ * `halfLifeDays`, so recent purchases dominate old views.
+ * - categories and brands: the highest-weighted ones above `minShare`
+ * - features: the product features and tags carrying the most weight
+ * - price range: the weighted 10th to 90th percentile of prices
+ * @returns null when none of the interactions refer to known products
+ */
+export function inferPreferences(
+  interactions: WeightedInteraction[],
+  products: ProductLookup,
+  options: Partial<InferenceOptions> = {}
+): InferredPreferences | null {
+  const settings: InferenceOptions = { ...DEFAULT_OPTIONS, now: new Date(), ...options };
+  const categories = new Map<string, number>();
+  const brands = new Map<string, number>();
+  const features = new Map<string, number>();
+  const prices: Array<{ price: number; weight: number }> = [];
+  let total = 0;
+  let basedOn = 0;
+
+  for (const interaction of interactions) {
+    const product = products.get(interaction.productId);
+    const typeWeight = INTERACTION_WEIGHTS[interaction.interactionType] ?? 1;
+    // Negative feedback carries no weight and must not count as interest
+    if (!product || typeWeight === 0) continue;
+
+    const ageDays = Math.max(0, settings.now.getTime() - interaction.timestamp.getTime()) / DAY_MS;
+    const weight = typeWeight * 0.5 ** (ageDays / settings.halfLifeDays);
+
+    addWeight(categories, product.category, weight);
+    addWeight(brands, product.brand, weight);
+    new Set([...product.features, ...product.tags]).forEach(feature => addWeight(features, feature, weight));
+    prices.push({ price: product.price, weight });
+    total += weight;
+    basedOn++;
+  }
+
+  if (basedOn === 0 || total === 0) {
+    return null;
+  }
+
+  return {
+    preferredCategories: topValues(categories, total, settings),
+    preferredBrands: topValues(brands, total, settings),
+    preferredFeatures: topValues(features, total, settings),
+    priceRange: [
+      Math.floor(weightedQuantile(prices, 0.1)),
+      Math.ceil(weightedQuantile(prices, 0.9))
+    ],
+    basedOn,
+    inferredAt: settings.now
+  };
+}
+
+const union = (first: string[], second: string[]) => Array.from(new Set([...first, ...second]));
+
+const isDefaultRange = (range: [number, number]) =>
+  range[0] === DEFAULT_PRICE_RANGE[0] && range[1] === DEFAULT_PRICE_RANGE[1];
+
+/**
+ * Preferences the recommendation strategies use: explicit values first,
+ * followed by inferred ones. An explicitly set price range always wins.
+ */
+export function combinePreferences(explicit: PreferenceValues, inferred: PreferenceValues | null): PreferenceValues {
+  if (!inferred) {
+    return explicit;
+  }
+
+  return {
+    preferredCategories: union(explicit.preferredCategories, inferred.preferredCategories),
+    preferredBrands: union(explicit.preferredBrands, inferred.preferredBrands),
+    preferredFeatures: union(explicit.preferredFeatures, inferred.preferredFeatures),
+    priceRange: isDefaultRange(explicit.priceRange) ? inferred.priceRange : explicit.priceRange
+  };
+}
+
+/**
+ * Recompute a user's inferred preferences from their recent interactions and
+ * store them next to (never over) the explicit ones in user_preferences.
+ * Interactions are windowed and aged by when they happened, so events the
+ * outbox uploaded late do not count as recent.
+ * @param since - Ignore interactions before this, e.g. when the user reset their inferred preferences
+ * @returns The new inferred preferences, or null when there is nothing to infer from
+ */
+export async function refreshInferredPreferences(
+  supabase: SupabaseClient,
+  userId: string,
+  products: ProductLookup,
+  since?: Date
+): Promise<InferredPreferences | null> {
+  const windowStart = Date.now() - HISTORY_WINDOW_DAYS * DAY_MS;
+  const from = new Date(Math.max(windowStart, since?.getTime() ?? 0)).toISOString();
+  const { data, error } = await supabase
+    .from('user_interactions')
+    .select('product_id, interaction_type, timestamp, created_at')
+    .eq('user_id', userId)
+    .gte('timestamp', from)
+    .order('timestamp', { ascending: false })
+    .limit(HISTORY_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to load interactions for preference inference: ${error.message}`);
+  }
+
+  const inferred = inferPreferences(
+    ((data || []) as InteractionRow[]).map(row => ({
+      productId: row.product_id,
+      interactionType: row.interaction_type,
+      // When the event happened, not when it reached the server
+      timestamp: new Date(row.timestamp ?? row.created_at)
+    })),
+    products
+  );
+
+  const { error: saveError } = await supabase
+    .from('user_preferences')
+    .upsert(
+      {
+        user_id: userId,
+        inferred_categories: inferred?.preferredCategories || [],
+        inferred_brands: inferred?.preferredBrands || [],
+        inferred_price_min: inferred?.priceRange[0] ?? null,
+        inferred_price_max: inferred?.priceRange[1] ?? null,
+        inferred_features: inferred?.preferredFeatures || [],
+        inferred_at: new Date().toISOString()
+      },
+      { onConflict: 'user_id' }
+    );
+
+  if (saveError) {
+    throw new Error(`Failed to save inferred preferences: ${saveError.message}`);
+  }
+
+  return inferred;
+}
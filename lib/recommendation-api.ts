@@ -0,0 +1,63 @@
+// Request and response types for /api/recommendations, plus a typed client helper
+
+import type { Recommendation } from '@/lib/recommendation-schema';
+import type { PipelineMetrics } from '@/lib/pipeline';
+import type { ExperimentAssignment } from '@/lib/experiments';
+
+export type RecommendationType = 'personalized' | 'trending' | 'similar';
+
+export const RECOMMENDATION_TYPES: RecommendationType[] = ['personalized', 'trending', 'similar'];
+
+export interface RecommendationsResponse {
+  type: RecommendationType;
+  // Unique per response; impressions and clicks quote it to attribute them to this list
+  requestId: string;
+  recommendations: Recommendation[];
+  // Product the "similar" list was computed for
+  sourceProductId?: string;
+  // True when served from the product_recommendations cache
+  cached: boolean;
+  generatedAt: string;
+  // Per-stage timing, present when personalized recommendations were generated for this request
+  metrics?: PipelineMetrics;
+  // False when the shopper has not consented to personalization and popular products were served instead
+  personalized?: boolean;
+  // Experiment variant the shopper is assigned to, when one is running
+  experiment?: ExperimentAssignment;
+}
+
+export interface RecommendationsErrorResponse {
+  error: string;
+}
+
+export interface FetchRecommendationsOptions {
+  limit?: number;
+  productId?: string;
+  // Restrict trending results to one category
+  category?: string;
+  // Bypass the server-side cache and regenerate
+  refresh?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Fetch one recommendation list from the server
+ */
+export async function fetchRecommendations(
+  type: RecommendationType,
+  options: FetchRecommendationsOptions = {}
+): Promise<RecommendationsResponse> {
+  const params = new URLSearchParams({ type });
+  if (options.limit) params.set('limit', String(options.limit));
+  if (options.productId) params.set('productId', options.productId);
+  if (options.category) params.set('category', options.category);
+  if (options.refresh) params.set('refresh', '1');
+
+  const response = await fetch(`/api/recommendations?${params}`, { signal: options.signal });
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as RecommendationsErrorResponse | null;
+    throw new Error(body?.error || `Failed to load ${type} recommendations: ${response.status}`);
+  }
+
+  return response.json();
+}
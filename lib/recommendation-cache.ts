@@ -0,0 +1,187 @@
+// Per-user recommendation cache backed by the product_recommendations table
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Recommendation } from '@/lib/recommendation-schema';
+import type { RecommendationType } from '@/lib/recommendation-api';
+import { NEGATIVE_INTERACTION_TYPES } from '@/lib/negative-feedback';
+import type { ExperimentAssignment } from '@/lib/experiments';
+
+// Interactions that change what we would recommend; plain views do not
+export const SIGNIFICANT_INTERACTIONS = ['like', 'cart_add', 'purchase', 'wishlist_add', ...NEGATIVE_INTERACTION_TYPES];
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface CachedRecommendationRow {
+  product_id: string;
+  score: number;
+  reason: string | null;
+  experiment_id: string | null;
+  variant: string | null;
+  created_at: string;
+}
+
+export interface CachedRecommendations {
+  recommendations: Recommendation[];
+  createdAt: Date;
+  // Experiment variant the list was generated under
+  experiment: ExperimentAssignment | null;
+}
+
+/**
+ * Reads and writes generated recommendations so repeat page loads do not
+ * hit the model again. Entries expire after their TTL, and personalized or
+ * similar entries are also dropped once the user has made a significant
+ * interaction since they were generated. Lists generated under an
+ * experiment remember the variant, so a user moved to another variant is not
+ * served the old one.
+ */
+export class RecommendationCache {
+  private supabase: SupabaseClient;
+  private ttlMs: number;
+
+  constructor(supabase: SupabaseClient, ttlMs: number = DEFAULT_TTL_MS) {
+    this.supabase = supabase;
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Get unexpired, still-valid recommendations or null on a miss
+   */
+  async get(
+    userId: string,
+    type: RecommendationType,
+    sourceProductId?: string
+  ): Promise<CachedRecommendations | null> {
+    try {
+      let query = this.supabase
+        .from('product_recommendations')
+        .select('product_id, score, reason, experiment_id, variant, created_at')
+        .eq('user_id', userId)
+        .eq('recommendation_type', type)
+        .gt('expires_at', new Date().toISOString());
+
+      query = sourceProductId
+        ? query.eq('source_product_id', sourceProductId)
+        : query.is('source_product_id', null);
+
+      const { data, error } = await query.order('score', { ascending: false });
+
+      if (error || !data || data.length === 0) {
+        return null;
+      }
+
+      const rows = data as CachedRecommendationRow[];
+      const createdAt = new Date(rows.reduce((min, row) => (row.created_at < min ? row.created_at : min), rows[0].created_at));
+
+      if (type !== 'trending' && await this.hasSignificantInteractionsSince(userId, createdAt)) {
+        await this.invalidate(userId, type);
+        return null;
+      }
+
+      return {
+        createdAt,
+        experiment: rows[0].experiment_id && rows[0].variant
+          ? { experimentId: rows[0].experiment_id, variant: rows[0].variant }
+          : null,
+        recommendations: rows.map(row => ({
+          productId: row.product_id,
+          // Stored as 0-1 because the column is DECIMAL(3,2)
+          score: Math.round(Number(row.score) * 100),
+          reason: row.reason || '',
+          category: type
+        }))
+      };
+    } catch (error) {
+      console.error('Error reading recommendation cache:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Replace the cached list for a user and type
+   * @param experiment - Variant the list was generated under, if any
+   */
+  async set(
+    userId: string,
+    type: RecommendationType,
+    recommendations: Recommendation[],
+    sourceProductId?: string,
+    experiment: ExperimentAssignment | null = null
+  ): Promise<void> {
+    try {
+      await this.invalidate(userId, type, sourceProductId);
+
+      if (recommendations.length === 0) {
+        return;
+      }
+
+      const expiresAt = new Date(Date.now() + this.ttlMs).toISOString();
+      const { error } = await this.supabase
+        .from('product_recommendations')
+        .insert(recommendations.map(rec => ({
+          user_id: userId,
+          product_id: rec.productId,
+          recommendation_type: type,
+          source_product_id: sourceProductId ?? null,
+          experiment_id: experiment?.experimentId ?? null,
+          variant: experiment?.variant ?? null,
+          score: Math.min(1, Math.max(0, rec.score / 100)),
+          reason: rec.reason,
+          expires_at: expiresAt
+        })));
+
+      if (error) {
+        console.error('Error writing recommendation cache:', error);
+      }
+    } catch (error) {
+      console.error('Error writing recommendation cache:', error);
+    }
+  }
+
+  /**
+   * Drop cached entries for a user, optionally limited to one type or source product
+   */
+  async invalidate(userId: string, type?: RecommendationType, sourceProductId?: string): Promise<void> {
+    let query = this.supabase
+      .from('product_recommendations')
+      .delete()
+      .eq('user_id', userId);
+
+    if (type) {
+      query = query.eq('recommendation_type', type);
+    }
+    if (sourceProductId) {
+      query = query.eq('source_product_id', sourceProductId);
+    }
+
+    const { error } = await query;
+    if (error) {
+      console.error('Error invalidating recommendation cache:', error);
+    }
+  }
+
+  /**
+   * Delete expired rows for every user. Runs through a security definer
+   * function because RLS limits direct deletes to the caller's own rows.
+   * @returns Number of rows removed
+   */
+  async cleanupExpired(): Promise<number> {
+    const { data, error } = await this.supabase.rpc('cleanup_expired_recommendations');
+    if (error) {
+      throw new Error(`Failed to clean up expired recommendations: ${error.message}`);
+    }
+    return Number(data) || 0;
+  }
+
+  private async hasSignificantInteractionsSince(userId: string, since: Date): Promise<boolean> {
+    const { data } = await this.supabase
+      .from('user_interactions')
+      .select('id')
+      .eq('user_id', userId)
+      .in('interaction_type', SIGNIFICANT_INTERACTIONS)
+      .gt('created_at', since.toISOString())
+      .limit(1);
+
+    return !!data && data.length > 0;
+  }
+}
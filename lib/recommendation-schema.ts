@@ -0,0 +1,163 @@
+// Runtime schemas for structured model output used by the recommendation service
+
+// User behavior analysis interface
+export interface UserAnalysis {
+  intent: string;
+  categoryStrength: number;
+  brandLoyalty: number;
+  priceSensitivity: number;
+  topFeatures: string[];
+  behaviorPatterns: string[];
+}
+
+// Recommendation interface
+export interface Recommendation {
+  productId: string;
+  score: number;
+  reason: string;
+  category: string;
+}
+
+type FieldType = 'string' | 'number' | 'string[]';
+
+interface FieldSpec {
+  type: FieldType;
+  min?: number;
+  max?: number;
+}
+
+export type ObjectSchema<T> = { [K in keyof T]: FieldSpec };
+
+export type ValidationResult<T> =
+  | { success: true; data: T; warnings: string[] }
+  | { success: false; errors: string[] };
+
+export const userAnalysisSchema: ObjectSchema<UserAnalysis> = {
+  intent: { type: 'string' },
+  categoryStrength: { type: 'number', min: 1, max: 10 },
+  brandLoyalty: { type: 'number', min: 1, max: 10 },
+  priceSensitivity: { type: 'number', min: 1, max: 10 },
+  topFeatures: { type: 'string[]' },
+  behaviorPatterns: { type: 'string[]' }
+};
+
+export const recommendationSchema: ObjectSchema<Recommendation> = {
+  productId: { type: 'string' },
+  score: { type: 'number', min: 0, max: 100 },
+  reason: { type: 'string' },
+  category: { type: 'string' }
+};
+
+/**
+ * Check a value against an object schema.
+ * Numeric IDs are accepted for string fields and converted, since models
+ * often drop the quotes around numbers.
+ */
+export function validateObject<T>(value: unknown, schema: ObjectSchema<T>, path: string = '$'): ValidationResult<T> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { success: false, errors: [`${path} must be an object`] };
+  }
+
+  const input = value as Record<string, unknown>;
+  const output: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [field, spec] of Object.entries(schema) as [string, FieldSpec][]) {
+    const fieldValue = input[field];
+    const fieldPath = `${path}.${field}`;
+
+    switch (spec.type) {
+      case 'string':
+        if (typeof fieldValue === 'string' && fieldValue.trim() !== '') {
+          output[field] = fieldValue;
+        } else if (typeof fieldValue === 'number') {
+          output[field] = String(fieldValue);
+        } else {
+          errors.push(`${fieldPath} must be a non-empty string`);
+        }
+        break;
+      case 'number':
+        if (typeof fieldValue !== 'number' || !Number.isFinite(fieldValue)) {
+          errors.push(`${fieldPath} must be a number`);
+        } else if ((spec.min !== undefined && fieldValue < spec.min) || (spec.max !== undefined && fieldValue > spec.max)) {
+          errors.push(`${fieldPath} must be between ${spec.min} and ${spec.max}`);
+        } else {
+          output[field] = fieldValue;
+        }
+        break;
+      case 'string[]':
+        if (Array.isArray(fieldValue) && fieldValue.every(item => typeof item === 'string')) {
+          output[field] = fieldValue;
+        } else {
+          errors.push(`${fieldPath} must be an array of strings`);
+        }
+        break;
+    }
+  }
+
+  return errors.length > 0
+    ? { success: false, errors }
+    : { success: true, data: output as T, warnings: [] };
+}
+
+/**
+ * Validate a user behavior analysis returned by the model
+ */
+export function validateUserAnalysis(value: unknown): ValidationResult<UserAnalysis> {
+  return validateObject(value, userAnalysisSchema);
+}
+
+/**
+ * Validate a recommendation list returned by the model.
+ *
+ * Structurally invalid entries fail the whole response so it can be repaired.
+ * Entries referring to products outside the supplied catalog are dropped with
+ * a warning; if that leaves nothing, the response fails as well.
+ */
+export function validateRecommendations(value: unknown, catalogIds: Set<string>): ValidationResult<Recommendation[]> {
+  // Accept the common { "recommendations": [...] } wrapper
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const wrapped = (value as Record<string, unknown>).recommendations;
+    if (Array.isArray(wrapped)) {
+      value = wrapped;
+    }
+  }
+
+  if (!Array.isArray(value)) {
+    return { success: false, errors: ['$ must be a JSON array of recommendations'] };
+  }
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const recommendations: Recommendation[] = [];
+  const seen = new Set<string>();
+
+  value.forEach((item, index) => {
+    const result = validateObject(item, recommendationSchema, `$[${index}]`);
+    if (!result.success) {
+      errors.push(...result.errors);
+      return;
+    }
+
+    const { productId } = result.data;
+    if (!catalogIds.has(productId)) {
+      warnings.push(`$[${index}].productId "${productId}" is not in the catalog`);
+      return;
+    }
+    if (seen.has(productId)) {
+      return;
+    }
+
+    seen.add(productId);
+    recommendations.push(result.data);
+  });
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+  if (recommendations.length === 0 && warnings.length > 0) {
+    return { success: false, errors: warnings };
+  }
+
+  return { success: true, data: recommendations, warnings };
+}
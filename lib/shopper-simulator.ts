@@ -0,0 +1,257 @@
+// Synthetic shoppers generating realistic interaction sessions over the catalog
+
+import type { Product } from '@/lib/catalog';
+import type { InteractionType } from '@/lib/events';
+
+export type PersonaName = 'brand_loyal' | 'bargain_hunter' | 'browser' | 'gift_shopper';
+
+export const PERSONA_NAMES: PersonaName[] = ['brand_loyal', 'bargain_hunter', 'browser', 'gift_shopper'];
+
+// A simulated shopper and the tastes their persona drew for them
+export interface Shopper {
+  id: string;
+  persona: PersonaName;
+  brands: string[];
+  categories: string[];
+  // Most they will pay without a discount
+  budget: number;
+}
+
+// Chance of each action after viewing a product; purchase is given a cart add
+type ActionRates = Record<'like' | 'wishlist_add' | 'cart_add' | 'purchase', number>;
+
+interface Persona {
+  sessionsPerWeek: number;
+  viewsPerSession: [number, number];
+  rates: ActionRates;
+  // Relative chance of viewing a product
+  affinity(product: Product, shopper: Shopper): number;
+  // Multiplier on the action rates for a viewed product
+  conversion(product: Product, shopper: Shopper): number;
+}
+
+// Same shape as a user_interactions row. Simulated shoppers are stored as
+// anonymous visitors so no auth users are needed.
+export interface SimulatedInteraction {
+  event_id: string;
+  user_id: null;
+  anonymous_id: string;
+  product_id: string;
+  interaction_type: InteractionType;
+  session_id: string;
+  timestamp: string;
+  created_at: string;
+  metadata: {
+    category: string;
+    price: number;
+    persona: PersonaName;
+  };
+}
+
+export interface SimulationOptions {
+  shoppers: number;
+  // Length of the simulated period, ending at `end`
+  days: number;
+  end: Date;
+  // Same seed, options and catalog give the same interactions
+  seed: number;
+  // Relative share of each persona; defaults to an even mix
+  personaMix: Partial<Record<PersonaName, number>>;
+}
+
+export interface SimulationResult {
+  shoppers: Shopper[];
+  interactions: SimulatedInteraction[];
+}
+
+type Random = () => number;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_OPTIONS: Omit<SimulationOptions, 'end'> = {
+  shoppers: 100,
+  days: 30,
+  seed: 1,
+  personaMix: {}
+};
+
+const discount = (product: Product) =>
+  product.originalPrice > product.price ? 1 - product.price / product.originalPrice : 0;
+
+const PERSONAS: Record<PersonaName, Persona> = {
+  // Keeps coming back to one or two brands and buys from them
+  brand_loyal: {
+    sessionsPerWeek: 2,
+    viewsPerSession: [3, 8],
+    rates: { like: 0.25, wishlist_add: 0.1, cart_add: 0.2, purchase: 0.6 },
+    affinity: (product, shopper) => (shopper.brands.includes(product.brand) ? 8 : 0.3),
+    conversion: (product, shopper) => (shopper.brands.includes(product.brand) ? 1.5 : 0.3)
+  },
+  // Compares many products and only buys what is discounted and affordable
+  bargain_hunter: {
+    sessionsPerWeek: 3,
+    viewsPerSession: [6, 15],
+    rates: { like: 0.1, wishlist_add: 0.2, cart_add: 0.25, purchase: 0.5 },
+    affinity: (product, shopper) => (1 + 10 * discount(product)) * (product.price <= shopper.budget ? 1 : 0.2),
+    conversion: product => (discount(product) >= 0.15 ? 1.5 : 0.2)
+  },
+  // Looks at a lot, with a slight pull towards well-rated products, and rarely acts
+  browser: {
+    sessionsPerWeek: 4,
+    viewsPerSession: [8, 20],
+    rates: { like: 0.08, wishlist_add: 0.05, cart_add: 0.03, purchase: 0.1 },
+    affinity: product => 1 + product.ratings.average / 5,
+    conversion: () => 1
+  },
+  // Visits rarely, shortlists well-rated products in a few categories and buys decisively
+  gift_shopper: {
+    sessionsPerWeek: 1,
+    viewsPerSession: [4, 10],
+    rates: { like: 0.05, wishlist_add: 0.3, cart_add: 0.2, purchase: 0.7 },
+    affinity: (product, shopper) =>
+      (shopper.categories.includes(product.category) ? 4 : 1) * (product.ratings.average >= 4.5 ? 2 : 1),
+    conversion: () => 1
+  }
+};
+
+/**
+ * Small seeded generator (mulberry32), so runs are reproducible
+ */
+function seededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const between = (random: Random, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+function pickWeighted<T>(random: Random, items: T[], weight: (item: T) => number): T {
+  const weights = items.map(weight);
+  const total = weights.reduce((sum, value) => sum + value, 0);
+  let target = random() * total;
+  for (let i = 0; i < items.length; i++) {
+    target -= weights[i];
+    if (target < 0) return items[i];
+  }
+  return items[items.length - 1];
+}
+
+function sample<T>(random: Random, items: T[], count: number): T[] {
+  const pool = [...items];
+  const picked: T[] = [];
+  while (picked.length < count && pool.length > 0) {
+    picked.push(pool.splice(Math.floor(random() * pool.length), 1)[0]);
+  }
+  return picked;
+}
+
+// A v4-style UUID from the seeded generator, valid for uuid columns
+function randomUuid(random: Random): string {
+  const hex = Array.from({ length: 32 }, () => Math.floor(random() * 16).toString(16));
+  hex[12] = '4';
+  hex[16] = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  const s = hex.join('');
+  return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`;
+}
+
+function assignPersonas(random: Random, count: number, mix: Partial<Record<PersonaName, number>>): PersonaName[] {
+  const shares: Partial<Record<PersonaName, number>> =
+    Object.keys(mix).length > 0 ? mix : Object.fromEntries(PERSONA_NAMES.map(name => [name, 1]));
+  const names = PERSONA_NAMES.filter(name => (shares[name] ?? 0) > 0);
+  if (names.length === 0) {
+    throw new Error('personaMix must give at least one persona a positive share');
+  }
+  return Array.from({ length: count }, () => pickWeighted(random, names, name => shares[name]!));
+}
+
+function createShopper(random: Random, index: number, persona: PersonaName, products: Product[]): Shopper {
+  const brands = Array.from(new Set(products.map(p => p.brand)));
+  const categories = Array.from(new Set(products.map(p => p.category)));
+  const prices = products.map(p => p.price).sort((a, b) => a - b);
+
+  return {
+    id: `sim-${persona}-${index + 1}`,
+    persona,
+    brands: sample(random, brands, between(random, 1, 2)),
+    categories: sample(random, categories, between(random, 1, 3)),
+    // Somewhere between the cheapest quarter and the median of the catalog
+    budget: prices[Math.floor(prices.length * (0.25 + random() * 0.25))]
+  };
+}
+
+/**
+ * Generate sessions for a population of simulated shoppers. Each persona
+ * decides how often its shoppers visit, how many products they look at and
+ * which ones, and how likely a view turns into a like, wishlist or cart add.
+ * Purchases only follow a cart add in the same session.
+ * @returns Shoppers and their interactions, oldest first
+ */
+export function simulateShoppers(products: Product[], options: Partial<SimulationOptions> = {}): SimulationResult {
+  const settings: SimulationOptions = { ...DEFAULT_OPTIONS, end: new Date(), ...options };
+  if (products.length === 0) {
+    throw new Error('Cannot simulate shoppers without products');
+  }
+
+  const random = seededRandom(settings.seed);
+  const start = settings.end.getTime() - settings.days * DAY_MS;
+  const shoppers = assignPersonas(random, settings.shoppers, settings.personaMix)
+    .map((persona, index) => createShopper(random, index, persona, products));
+  const interactions: SimulatedInteraction[] = [];
+
+  shoppers.forEach(shopper => {
+    const persona = PERSONAS[shopper.persona];
+    const expectedSessions = (persona.sessionsPerWeek * settings.days) / 7;
+    const sessions = Math.max(1, Math.round(expectedSessions * (0.5 + random())));
+
+    for (let s = 0; s < sessions; s++) {
+      const sessionId = `sim-session-${randomUuid(random)}`;
+      let time = start + random() * (settings.days * DAY_MS);
+      const record = (product: Product, interactionType: InteractionType) => {
+        time += between(random, 5, 90) * 1000;
+        if (time > settings.end.getTime()) return;
+        const at = new Date(time).toISOString();
+        interactions.push({
+          event_id: randomUuid(random),
+          user_id: null,
+          anonymous_id: shopper.id,
+          product_id: product.id,
+          interaction_type: interactionType,
+          session_id: sessionId,
+          timestamp: at,
+          created_at: at,
+          metadata: { category: product.category, price: product.price, persona: shopper.persona }
+        });
+      };
+
+      const views = between(random, ...persona.viewsPerSession);
+      for (let v = 0; v < views; v++) {
+        const product = pickWeighted(random, products, p => persona.affinity(p, shopper));
+        const conversion = persona.conversion(product, shopper);
+        const chance = (rate: number) => random() < Math.min(1, rate * conversion);
+
+        record(product, 'view');
+        if (chance(persona.rates.like)) record(product, 'like');
+        if (chance(persona.rates.wishlist_add)) record(product, 'wishlist_add');
+        if (chance(persona.rates.cart_add)) {
+          record(product, 'cart_add');
+          if (chance(persona.rates.purchase)) record(product, 'purchase');
+        }
+      }
+    }
+  });
+
+  interactions.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  return { shoppers, interactions };
+}
+
+/**
+ * One interaction per line, the format parseInteractionLog reads
+ */
+export function toJsonl(interactions: SimulatedInteraction[]): string {
+  return interactions.map(interaction => JSON.stringify(interaction)).join('\n') + '\n';
+}
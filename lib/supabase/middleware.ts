@@ -1,6 +1,8 @@
 import { createServerClient } from "@supabase/ssr";
 import { NextResponse, type NextRequest } from "next/server";
 import { hasEnvVars } from "../utils";
+import { ensureAnonymousId } from "../anonymous-id";
+import { allowsIdentifiedTracking, readConsent } from "../consent";
 
 export async function updateSession(request: NextRequest) {
   let supabaseResponse = NextResponse.next({
@@ -49,7 +51,11 @@ export async function updateSession(request: NextRequest) {
     request.nextUrl.pathname !== "/" &&
     !user &&
     !request.nextUrl.pathname.startsWith("/login") &&
-    !request.nextUrl.pathname.startsWith("/auth")
+    !request.nextUrl.pathname.startsWith("/auth") &&
+    // Signed-out visitors can browse; their activity is merged on sign-in
+    !request.nextUrl.pathname.startsWith("/catalog") &&
+    // API routes authenticate themselves and answer with JSON errors
+    !request.nextUrl.pathname.startsWith("/api")
   ) {
     // no user, potentially respond by redirecting the user to the login page
     const url = request.nextUrl.clone();
@@ -57,6 +63,11 @@ export async function updateSession(request: NextRequest) {
     return NextResponse.redirect(url);
   }
 
+  // Visitors only get an ID once they have agreed to tracking
+  if (!user && allowsIdentifiedTracking(readConsent(request.cookies))) {
+    ensureAnonymousId(request, supabaseResponse);
+  }
+
   // IMPORTANT: You *must* return the supabaseResponse object as it is.
   // If you're creating a new response object with NextResponse.next() make sure to:
   // 1. Pass the request in it, like so:
@@ -1,4 +1,5 @@
 import { createServerClient } from "@supabase/ssr";
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
 import { cookies } from "next/headers";
 
 export async function createClient() {
@@ -27,3 +28,18 @@ export async function createClient() {
     },
   );
 }
+
+/**
+ * Client with the service role key, for server-only jobs that call functions
+ * restricted to service_role. It bypasses RLS: never use it on behalf of a
+ * user without checking what they may do first.
+ */
+export function createServiceRoleClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    throw new Error("Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY");
+  }
+
+  return createSupabaseClient(url, serviceRoleKey, { auth: { persistSession: false } });
+}
@@ -0,0 +1,97 @@
+// Prompt token estimation and budgeting for LLM calls
+
+// Roughly four characters per token for English text and JSON
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the token count of a text without a model-specific tokenizer
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export interface BudgetedList<T> {
+  items: T[];
+  text: string;
+  tokens: number;
+  // Items left out because they did not fit
+  dropped: number;
+}
+
+/**
+ * Render items one by one until the next one would exceed the budget.
+ * Items are assumed to be in priority order.
+ */
+export function fitToTokenBudget<T>(
+  items: T[],
+  render: (item: T) => string,
+  maxTokens: number,
+  separator: string = '\n'
+): BudgetedList<T> {
+  const included: T[] = [];
+  const parts: string[] = [];
+  let tokens = 0;
+
+  for (const item of items) {
+    const text = render(item);
+    const cost = estimateTokens(text + separator);
+    if (tokens + cost > maxTokens) break;
+    included.push(item);
+    parts.push(text);
+    tokens += cost;
+  }
+
+  return { items: included, text: parts.join(separator), tokens, dropped: items.length - included.length };
+}
+
+// Token accounting for one model call
+export interface TokenUsage {
+  stage: string;
+  promptTokens: number;
+  completionTokens: number;
+  budget: number;
+  // Catalog items cut from the prompt to stay within budget
+  droppedItems: number;
+  // True for the follow-up call that asks the model to fix invalid output
+  repair: boolean;
+}
+
+// Running totals for one stage
+export interface StageTokenTotals {
+  calls: number;
+  // Calls that were repair attempts
+  repairs: number;
+  // Calls whose prompt was larger than the budget, e.g. a repair prompt
+  overBudget: number;
+  promptTokens: number;
+  completionTokens: number;
+  droppedItems: number;
+}
+
+/**
+ * Accumulates token usage per pipeline stage
+ */
+export class TokenLedger {
+  private totals = new Map<string, StageTokenTotals>();
+
+  record(usage: TokenUsage): void {
+    const current = this.totals.get(usage.stage) ||
+      { calls: 0, repairs: 0, overBudget: 0, promptTokens: 0, completionTokens: 0, droppedItems: 0 };
+    this.totals.set(usage.stage, {
+      calls: current.calls + 1,
+      repairs: current.repairs + (usage.repair ? 1 : 0),
+      overBudget: current.overBudget + (usage.promptTokens > usage.budget ? 1 : 0),
+      promptTokens: current.promptTokens + usage.promptTokens,
+      completionTokens: current.completionTokens + usage.completionTokens,
+      droppedItems: current.droppedItems + usage.droppedItems
+    });
+  }
+
+  isEmpty(): boolean {
+    return this.totals.size === 0;
+  }
+
+  snapshot(): Record<string, StageTokenTotals> {
+    return Object.fromEntries(this.totals);
+  }
+}
@@ -0,0 +1,52 @@
+// Population-wide trending scores computed by the get_trending_products RPC
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface TrendingScore {
+  productId: string;
+  score: number;
+  interactions: number;
+  category?: string;
+}
+
+export interface TrendingQuery {
+  limit?: number;
+  category?: string;
+  windowDays?: number;
+  halfLifeHours?: number;
+}
+
+interface TrendingRow {
+  product_id: string;
+  category: string | null;
+  score: number | string;
+  interactions: number | string;
+}
+
+/**
+ * Fetch time-decayed trending scores across all users.
+ * Works from both browser and server clients because the aggregation runs
+ * in a security definer function rather than under the caller's RLS policy.
+ */
+export async function fetchTrendingScores(
+  supabase: SupabaseClient,
+  { limit = 10, category, windowDays = 7, halfLifeHours = 48 }: TrendingQuery = {}
+): Promise<TrendingScore[]> {
+  const { data, error } = await supabase.rpc('get_trending_products', {
+    p_limit: limit,
+    p_category: category ?? null,
+    p_window_days: windowDays,
+    p_half_life_hours: halfLifeHours
+  });
+
+  if (error) {
+    throw new Error(`Failed to load trending products: ${error.message}`);
+  }
+
+  return ((data as TrendingRow[] | null) || []).map(row => ({
+    productId: row.product_id,
+    score: Number(row.score),
+    interactions: Number(row.interactions),
+    category: row.category ?? undefined
+  }));
+}
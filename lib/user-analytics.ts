@@ -0,0 +1,274 @@
+// Per-user shopping analytics computed from stored interactions
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ProductLookup } from '@/lib/preference-inference';
+import { INTERACTION_WEIGHTS } from '@/lib/hybrid-ranker';
+
+export interface AnalyticsEvent {
+  productId: string;
+  interactionType: string;
+  sessionId: string | null;
+  timestamp: Date;
+}
+
+export interface SessionStats {
+  count: number;
+  avgDurationMs: number;
+  avgInteractions: number;
+  // Sessions with a single interaction have no measurable duration
+  bounceRate: number;
+}
+
+// Distinct products reaching each step
+export interface FunnelCounts {
+  viewed: number;
+  addedToCart: number;
+  purchased: number;
+  viewToCartRate: number;
+  cartToPurchaseRate: number;
+}
+
+export interface Affinity {
+  value: string;
+  // Share of the user's weighted interest, 0-1
+  share: number;
+  interactions: number;
+}
+
+export interface UserAnalytics {
+  totalInteractions: number;
+  interactionCounts: Record<string, number>;
+  sessions: SessionStats;
+  funnel: FunnelCounts;
+  categoryAffinity: Affinity[];
+  brandAffinity: Affinity[];
+  // Interactions in the last 7 days
+  recentActivity: number;
+  firstInteractionAt: string | null;
+  lastInteractionAt: string | null;
+  accountCreatedAt: string | null;
+  // True when the user has more interactions than are analysed; the
+  // figures then cover only the most recent ones
+  truncated: boolean;
+}
+
+export interface AnalyticsErrorResponse {
+  error: string;
+}
+
+export interface AnalyticsOptions {
+  // Events without a session ID further apart than this start a new session
+  sessionGapMs: number;
+  // Affinity entries returned per list
+  maxAffinities: number;
+  now: Date;
+}
+
+interface AnalyticsRow {
+  product_id: string;
+  interaction_type: string;
+  session_id: string | null;
+  timestamp: string | null;
+  created_at: string;
+}
+
+const DEFAULT_OPTIONS: Omit<AnalyticsOptions, 'now'> = {
+  sessionGapMs: 30 * 60 * 1000,
+  maxAffinities: 5
+};
+
+// Interactions analysed per user, newest first
+const MAX_EVENTS = 5000;
+const PAGE_SIZE = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Group events into sessions. Events carrying a session ID belong to that
+ * session; events without one (e.g. recorded under essential consent) are
+ * split into sessions wherever there is a gap longer than `sessionGapMs`.
+ */
+export function reconstructSessions(events: AnalyticsEvent[], sessionGapMs: number): AnalyticsEvent[][] {
+  const byId = new Map<string, AnalyticsEvent[]>();
+  const untagged: AnalyticsEvent[] = [];
+
+  events.forEach(event => {
+    if (event.sessionId) {
+      if (!byId.has(event.sessionId)) byId.set(event.sessionId, []);
+      byId.get(event.sessionId)!.push(event);
+    } else {
+      untagged.push(event);
+    }
+  });
+
+  const sessions = Array.from(byId.values());
+  let current: AnalyticsEvent[] = [];
+  [...untagged]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .forEach(event => {
+      const last = current[current.length - 1];
+      if (last && event.timestamp.getTime() - last.timestamp.getTime() > sessionGapMs) {
+        sessions.push(current);
+        current = [];
+      }
+      current.push(event);
+    });
+  if (current.length > 0) {
+    sessions.push(current);
+  }
+
+  return sessions;
+}
+
+function sessionStats(sessions: AnalyticsEvent[][]): SessionStats {
+  if (sessions.length === 0) {
+    return { count: 0, avgDurationMs: 0, avgInteractions: 0, bounceRate: 0 };
+  }
+
+  let totalDuration = 0;
+  let totalInteractions = 0;
+  let bounces = 0;
+
+  sessions.forEach(session => {
+    const times = session.map(event => event.timestamp.getTime());
+    totalDuration += Math.max(...times) - Math.min(...times);
+    totalInteractions += session.length;
+    if (session.length === 1) bounces++;
+  });
+
+  return {
+    count: sessions.length,
+    avgDurationMs: Math.round(totalDuration / sessions.length),
+    avgInteractions: Math.round((totalInteractions / sessions.length) * 10) / 10,
+    bounceRate: bounces / sessions.length
+  };
+}
+
+function funnel(events: AnalyticsEvent[]): FunnelCounts {
+  const productsWith = (type: string) => new Set(events.filter(e => e.interactionType === type).map(e => e.productId));
+  const viewed = productsWith('view');
+  const carted = productsWith('cart_add');
+  const purchased = productsWith('purchase');
+  const rate = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+  return {
+    viewed: viewed.size,
+    addedToCart: carted.size,
+    purchased: purchased.size,
+    viewToCartRate: rate(carted.size, viewed.size),
+    cartToPurchaseRate: rate(purchased.size, carted.size)
+  };
+}
+
+/**
+ * Weighted interest per category or brand. Negative feedback has no weight,
+ * so it does not count as interest.
+ */
+function affinities(
+  events: AnalyticsEvent[],
+  products: ProductLookup,
+  field: 'category' | 'brand',
+  maxAffinities: number
+): Affinity[] {
+  const scores = new Map<string, { score: number; interactions: number }>();
+  let total = 0;
+
+  events.forEach(event => {
+    const product = products.get(event.productId);
+    const weight = INTERACTION_WEIGHTS[event.interactionType] ?? 1;
+    if (!product || weight === 0) return;
+
+    const entry = scores.get(product[field]) || { score: 0, interactions: 0 };
+    entry.score += weight;
+    entry.interactions++;
+    scores.set(product[field], entry);
+    total += weight;
+  });
+
+  return Array.from(scores.entries())
+    .map(([value, { score, interactions }]) => ({ value, share: score / total, interactions }))
+    .sort((a, b) => b.share - a.share || a.value.localeCompare(b.value))
+    .slice(0, maxAffinities);
+}
+
+/**
+ * Compute analytics from a user's interactions
+ */
+export function computeUserAnalytics(
+  events: AnalyticsEvent[],
+  products: ProductLookup,
+  options: Partial<AnalyticsOptions> = {}
+): Omit<UserAnalytics, 'accountCreatedAt' | 'truncated'> {
+  const settings: AnalyticsOptions = { ...DEFAULT_OPTIONS, now: new Date(), ...options };
+  const interactionCounts = events.reduce((acc, event) => {
+    acc[event.interactionType] = (acc[event.interactionType] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  const times = events.map(event => event.timestamp.getTime());
+  const weekAgo = settings.now.getTime() - 7 * DAY_MS;
+
+  return {
+    totalInteractions: events.length,
+    interactionCounts,
+    sessions: sessionStats(reconstructSessions(events, settings.sessionGapMs)),
+    funnel: funnel(events),
+    categoryAffinity: affinities(events, products, 'category', settings.maxAffinities),
+    brandAffinity: affinities(events, products, 'brand', settings.maxAffinities),
+    recentActivity: times.filter(time => time >= weekAgo).length,
+    firstInteractionAt: times.length > 0 ? new Date(Math.min(...times)).toISOString() : null,
+    lastInteractionAt: times.length > 0 ? new Date(Math.max(...times)).toISOString() : null
+  };
+}
+
+/**
+ * Load a user's stored interactions and compute their analytics. Only the
+ * most recent MAX_EVENTS are analysed, and the result says when older ones
+ * were left out.
+ * @param accountCreatedAt - When the account was created, from the auth user
+ */
+export async function loadUserAnalytics(
+  supabase: SupabaseClient,
+  userId: string,
+  products: ProductLookup,
+  accountCreatedAt: string | null = null
+): Promise<UserAnalytics> {
+  const rows: AnalyticsRow[] = [];
+
+  for (let from = 0; from < MAX_EVENTS; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('user_interactions')
+      .select('product_id, interaction_type, session_id, timestamp, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load interactions for analytics: ${error.message}`);
+    }
+    rows.push(...((data || []) as AnalyticsRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  let truncated = false;
+  if (rows.length >= MAX_EVENTS) {
+    const { count, error } = await supabase
+      .from('user_interactions')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to count interactions for analytics: ${error.message}`);
+    }
+    truncated = (count ?? 0) > MAX_EVENTS;
+  }
+
+  const events = rows.map(row => ({
+    productId: row.product_id,
+    interactionType: row.interaction_type,
+    sessionId: row.session_id,
+    // When the event happened, not when it reached the server
+    timestamp: new Date(row.timestamp ?? row.created_at)
+  }));
+
+  return { ...computeUserAnalytics(events, products), accountCreatedAt, truncated };
+}
@@ -0,0 +1,157 @@
+// Loading user preferences and history from Supabase, shared by browser and server code
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { UserInteraction, UserPreference } from '@/lib/interaction-tracker';
+import {
+  combinePreferences,
+  refreshInferredPreferences,
+  type InferredPreferences,
+  type PreferenceValues,
+  type ProductLookup
+} from '@/lib/preference-inference';
+import { withoutBlockedValues } from '@/lib/preference-filters';
+import { loadNegativeFeedback } from '@/lib/negative-feedback';
+
+interface InteractionRow {
+  id: string;
+  product_id: string;
+  interaction_type: string;
+  created_at: string;
+  session_id: string;
+  metadata?: Record<string, unknown>;
+}
+
+interface PreferenceRow {
+  preferred_categories: string[] | null;
+  preferred_brands: string[] | null;
+  price_range_min: number | null;
+  price_range_max: number | null;
+  preferred_features: string[] | null;
+  blocked_categories: string[] | null;
+  blocked_brands: string[] | null;
+  inferred_categories: string[] | null;
+  inferred_brands: string[] | null;
+  inferred_price_min: number | null;
+  inferred_price_max: number | null;
+  inferred_features: string[] | null;
+  inferred_at: string | null;
+  inference_reset_at: string | null;
+  updated_at: string | null;
+}
+
+function readInferred(row: PreferenceRow | null): InferredPreferences | null {
+  if (!row?.inferred_at) {
+    return null;
+  }
+  return {
+    preferredCategories: row.inferred_categories || [],
+    preferredBrands: row.inferred_brands || [],
+    priceRange: row.inferred_price_min != null && row.inferred_price_max != null
+      ? [Number(row.inferred_price_min), Number(row.inferred_price_max)]
+      : [0, 3000],
+    preferredFeatures: row.inferred_features || [],
+    // Not stored; only used to describe a fresh inference
+    basedOn: 0,
+    inferredAt: new Date(row.inferred_at)
+  };
+}
+
+/**
+ * Load a user's stored preferences, most recent interactions and all of
+ * their negative feedback.
+ * The top-level preference fields combine explicit and inferred values;
+ * `explicit` and `inferred` keep the two sources apart.
+ * @param supabase - Browser or server Supabase client
+ * @param userId - User whose data to load
+ * @param historyLimit - Maximum number of interactions to include
+ */
+export async function loadUserPreferences(
+  supabase: SupabaseClient,
+  userId: string,
+  historyLimit: number = 100
+): Promise<UserPreference> {
+  // Get user preferences from database
+  const { data } = await supabase
+    .from('user_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .single();
+  const preferences = data as PreferenceRow | null;
+
+  const explicit: PreferenceValues = {
+    preferredCategories: preferences?.preferred_categories || [],
+    preferredBrands: preferences?.preferred_brands || [],
+    priceRange: [
+      Number(preferences?.price_range_min) || 0,
+      Number(preferences?.price_range_max) || 3000
+    ],
+    preferredFeatures: preferences?.preferred_features || []
+  };
+  const inferred = readInferred(preferences);
+  const blocked = {
+    blockedCategories: preferences?.blocked_categories || [],
+    blockedBrands: preferences?.blocked_brands || []
+  };
+
+  // Get interaction history
+  const { data: interactions } = await supabase
+    .from('user_interactions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(historyLimit);
+  const negativeFeedback = await loadNegativeFeedback(supabase, userId);
+
+  // Convert database data to UserPreference format
+  return {
+    userId,
+    ...withoutBlockedValues(combinePreferences(explicit, inferred), blocked),
+    ...blocked,
+    explicit,
+    inferred,
+    inferenceResetAt: preferences?.inference_reset_at ? new Date(preferences.inference_reset_at) : undefined,
+    interactionHistory: (interactions as InteractionRow[] | null)?.map(i => ({
+      id: i.id,
+      userId,
+      productId: i.product_id,
+      interactionType: i.interaction_type as UserInteraction['interactionType'],
+      timestamp: new Date(i.created_at),
+      sessionId: i.session_id,
+      metadata: i.metadata || {}
+    })) || [],
+    negativeFeedback,
+    lastUpdated: new Date(preferences?.updated_at || new Date())
+  };
+}
+
+/**
+ * Load preferences like loadUserPreferences, re-inferring them first when
+ * the user has interacted since the last inference
+ * @param products - Catalog used to resolve interacted products
+ */
+export async function loadFreshUserPreferences(
+  supabase: SupabaseClient,
+  userId: string,
+  products: ProductLookup,
+  historyLimit: number = 100
+): Promise<UserPreference> {
+  const preferences = await loadUserPreferences(supabase, userId, historyLimit);
+  const latest = preferences.interactionHistory[0]?.timestamp;
+
+  if (!latest || (preferences.inferred && preferences.inferred.inferredAt >= latest)) {
+    return preferences;
+  }
+
+  try {
+    const inferred = await refreshInferredPreferences(supabase, userId, products, preferences.inferenceResetAt);
+    const explicit = preferences.explicit || preferences;
+    return {
+      ...preferences,
+      ...withoutBlockedValues(combinePreferences(explicit, inferred), preferences),
+      inferred
+    };
+  } catch (error) {
+    console.error('Error inferring preferences:', error);
+    return preferences;
+  }
+}
@@ -0,0 +1,70 @@
+// Offline evaluation: replays a held-out split of an interaction log against each recommendation strategy
+//
+//   npm run evaluate -- --input interactions.jsonl [--k 10] [--test-fraction 0.2]
+//                       [--strategies hybrid,hybrid_llm,llm,bandit,popular] [--json]
+
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { loadCatalog } from '@/lib/catalog';
+import { AIRecommendationService, RECOMMENDATION_STRATEGIES, type RecommendationStrategy } from '@/lib/ai-recommendations';
+import {
+  evaluateStrategies,
+  formatReport,
+  parseInteractionLog,
+  popularStrategy,
+  serviceStrategy,
+  splitByTime,
+  type EvaluationStrategy
+} from '@/lib/evaluation';
+
+const { values } = parseArgs({
+  options: {
+    input: { type: 'string', short: 'i' },
+    k: { type: 'string', default: '10' },
+    'test-fraction': { type: 'string', default: '0.2' },
+    strategies: { type: 'string', default: [...RECOMMENDATION_STRATEGIES, 'popular'].join(',') },
+    json: { type: 'boolean', default: false }
+  }
+});
+
+async function main() {
+  if (!values.input) {
+    throw new Error('--input <interactions.jsonl> is required');
+  }
+
+  const k = Number(values.k);
+  const testFraction = Number(values['test-fraction']);
+  if (!Number.isInteger(k) || k <= 0) {
+    throw new Error('--k must be a positive integer');
+  }
+  if (!(testFraction > 0 && testFraction < 1)) {
+    throw new Error('--test-fraction must be between 0 and 1');
+  }
+
+  // Uses the LLM provider configured in the environment; the local provider without one
+  const service = new AIRecommendationService();
+  const strategies: EvaluationStrategy[] = values.strategies!.split(',').map(name => {
+    if (name === 'popular') return popularStrategy(service);
+    if (RECOMMENDATION_STRATEGIES.includes(name as RecommendationStrategy)) {
+      return serviceStrategy(service, name as RecommendationStrategy);
+    }
+    throw new Error(`Unknown strategy "${name}"`);
+  });
+
+  const [catalog, log] = await Promise.all([loadCatalog(), readFile(values.input, 'utf8')]);
+  const interactions = parseInteractionLog(log).filter(interaction => catalog.has(interaction.productId));
+  const split = splitByTime(interactions, { testFraction });
+  const reports = await evaluateStrategies(strategies, split, catalog.products, { k });
+
+  if (values.json) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    console.log(`${interactions.length} interactions, ${split.test.size} users held out, ${catalog.size} products\n`);
+    console.log(formatReport(reports));
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,65 @@
+// A/B experiment report: CTR and add-to-cart rate per variant with 95% confidence intervals
+//
+//   npm run experiment-report -- [--experiment personalized-strategy] [--type personalized|trending|similar] [--json]
+//
+// Needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, since the counts span every user.
+
+import { parseArgs } from 'node:util';
+import { createClient } from '@supabase/supabase-js';
+import {
+  formatExperimentReport,
+  getExperiments,
+  getRunningExperiment,
+  loadExperimentReport
+} from '@/lib/experiments';
+import { RECOMMENDATION_TYPES, type RecommendationType } from '@/lib/recommendation-api';
+
+const { values } = parseArgs({
+  options: {
+    experiment: { type: 'string', short: 'e' },
+    type: { type: 'string', default: 'personalized' },
+    json: { type: 'boolean', default: false }
+  }
+});
+
+async function main() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    throw new Error('Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  }
+
+  const type = values.type as RecommendationType;
+  if (!RECOMMENDATION_TYPES.includes(type)) {
+    throw new Error(`--type must be one of ${RECOMMENDATION_TYPES.join(', ')}`);
+  }
+
+  const experiments = getExperiments();
+  // Default to the running experiment
+  const experiment = values.experiment
+    ? experiments.find(e => e.id === values.experiment)
+    : getRunningExperiment(experiments);
+  if (!experiment) {
+    throw new Error(
+      values.experiment
+        ? `Unknown experiment "${values.experiment}"; choose from ${experiments.map(e => e.id).join(', ')}`
+        : 'No experiment is running; pass --experiment <id>'
+    );
+  }
+
+  const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+  const report = await loadExperimentReport(supabase, experiment, type);
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  console.log(`${experiment.id} (${experiment.status}), ${type} recommendations; control: ${experiment.variants[0].name}\n`);
+  console.log(formatExperimentReport(report));
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,60 @@
+// Recommendation position report: CTR and conversion per list type and slot with 95% confidence intervals
+//
+//   npm run position-report -- [--days 30] [--type personalized|trending|similar] [--json]
+//
+// Needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, since the counts span every user.
+
+import { parseArgs } from 'node:util';
+import { createClient } from '@supabase/supabase-js';
+import { formatPositionReport, loadPositionReport } from '@/lib/attribution';
+import { RECOMMENDATION_TYPES, type RecommendationType } from '@/lib/recommendation-api';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const { values } = parseArgs({
+  options: {
+    days: { type: 'string', default: '30' },
+    type: { type: 'string' },
+    json: { type: 'boolean', default: false }
+  }
+});
+
+async function main() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    throw new Error('Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  }
+
+  const days = Number(values.days);
+  if (!(days > 0)) {
+    throw new Error('--days must be a positive number');
+  }
+  const type = values.type as RecommendationType | undefined;
+  if (type && !RECOMMENDATION_TYPES.includes(type)) {
+    throw new Error(`--type must be one of ${RECOMMENDATION_TYPES.join(', ')}`);
+  }
+
+  const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+  const report = await loadPositionReport(supabase, {
+    since: new Date(Date.now() - days * DAY_MS),
+    recommendationType: type
+  });
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  if (report.positions.length === 0) {
+    console.log(`No impressions since ${report.since.toISOString()}`);
+    return;
+  }
+  console.log(`Impressions since ${report.since.toISOString()}\n`);
+  console.log(formatPositionReport(report));
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,108 @@
+// Synthetic shopper simulator: writes persona-driven interaction sessions to JSONL or Supabase
+//
+//   npm run simulate -- --output interactions.jsonl [--shoppers 100] [--days 30] [--seed 1]
+//                       [--personas brand_loyal,bargain_hunter,browser,gift_shopper] [--catalog products|mcp]
+//   npm run simulate -- --supabase   (needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY)
+
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { createClient } from '@supabase/supabase-js';
+import { loadCatalog } from '@/lib/catalog';
+import {
+  PERSONA_NAMES,
+  simulateShoppers,
+  toJsonl,
+  type PersonaName,
+  type SimulatedInteraction
+} from '@/lib/shopper-simulator';
+
+// Rows per insert request
+const INSERT_BATCH_SIZE = 500;
+
+const { values } = parseArgs({
+  options: {
+    output: { type: 'string', short: 'o' },
+    supabase: { type: 'boolean', default: false },
+    shoppers: { type: 'string', default: '100' },
+    days: { type: 'string', default: '30' },
+    seed: { type: 'string', default: '1' },
+    end: { type: 'string' },
+    personas: { type: 'string', default: PERSONA_NAMES.join(',') },
+    catalog: { type: 'string' }
+  }
+});
+
+function positiveInteger(name: string, value: string | undefined): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return number;
+}
+
+/**
+ * Insert with the service role key, which bypasses row level security
+ */
+async function insertIntoSupabase(interactions: SimulatedInteraction[]): Promise<void> {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    throw new Error('--supabase needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  }
+
+  const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+  for (let i = 0; i < interactions.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('user_interactions')
+      .upsert(interactions.slice(i, i + INSERT_BATCH_SIZE), { onConflict: 'event_id', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to insert interactions: ${error.message}`);
+    }
+  }
+}
+
+async function main() {
+  if (!values.output && !values.supabase) {
+    throw new Error('Choose where to write: --output <file.jsonl> and/or --supabase');
+  }
+  if (values.catalog) {
+    if (values.catalog !== 'products' && values.catalog !== 'mcp') {
+      throw new Error('--catalog must be products or mcp');
+    }
+    process.env.CATALOG_SOURCE = values.catalog;
+  }
+
+  const personas = values.personas!.split(',') as PersonaName[];
+  const unknown = personas.filter(name => !PERSONA_NAMES.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown persona "${unknown[0]}"; choose from ${PERSONA_NAMES.join(', ')}`);
+  }
+  const end = values.end ? new Date(values.end) : new Date();
+  if (isNaN(end.getTime())) {
+    throw new Error('--end must be a date');
+  }
+
+  const catalog = await loadCatalog();
+  const { shoppers, interactions } = simulateShoppers(catalog.products, {
+    shoppers: positiveInteger('shoppers', values.shoppers),
+    days: positiveInteger('days', values.days),
+    seed: positiveInteger('seed', values.seed),
+    end,
+    personaMix: Object.fromEntries(personas.map(name => [name, 1]))
+  });
+
+  if (values.output) {
+    await writeFile(values.output, toJsonl(interactions));
+    console.log(`Wrote ${interactions.length} interactions from ${shoppers.length} shoppers to ${values.output}`);
+  }
+  if (values.supabase) {
+    await insertIntoSupabase(interactions);
+    console.log(`Inserted ${interactions.length} interactions from ${shoppers.length} shoppers into user_interactions`);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});